@@ -0,0 +1,172 @@
+import { Result, ok } from "@core/result";
+import { Logger } from "@core/logger";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { MachineConfig } from "@lib/orchestrator/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { getInventoryContents } from "@lib/inventory/scanner";
+import { drainInventory } from "@lib/transfer/drain";
+import {
+    Task,
+    TaskContext,
+    TaskExecutionResult,
+    TaskDiagnostics,
+} from "@lib/task/types";
+import { CollectionConfig, CollectionState } from "./types";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Collection task: drains machine output chests into the material source,
+ * so products don't depend on external hoppers/pipes.
+ *
+ * Collects from every machine of the other tasks that has an outputChest,
+ * plus the extra machines of its own config.
+ *
+ * Collected items are not added to the cycle ledger; they show up in the
+ * next cycle's material source scan.
+ */
+export class CollectionTask implements Task<CollectionConfig, CollectionState> {
+    readonly id = "collection";
+    readonly name = "Output Collection";
+    /** Last: collected outputs are picked up by the next cycle's scan */
+    readonly phase = 3;
+
+    private config!: CollectionConfig;
+    private machines!: MachineConfig[];
+    private log!: Logger;
+    private machineChests!: Map<string, SafePeripheral<InventoryPeripheral>>;
+    private materialSource!: MaterialSource;
+    private dryRun = false;
+
+    /**
+     * @param taskMachines - Machines of the other enabled tasks
+     */
+    constructor(private readonly taskMachines: MachineConfig[] = []) {}
+
+    init(
+        context: TaskContext,
+        config: CollectionConfig,
+    ): Result<CollectionState> {
+        this.config = config;
+        this.log = context.logger;
+        this.machines = this.resolveMachines(config).filter((m) => m.outputChest !== undefined);
+        this.machineChests = context.peripherals.machineChests;
+        this.materialSource = context.peripherals.materialSource;
+        this.dryRun = context.systemConfig.dryRun;
+
+        const machineOutput: CollectionState["machineOutput"] = {};
+        for (const machine of this.machines) {
+            machineOutput[machine.id] = { lastCollected: 0, totalCollected: 0, remaining: 0 };
+        }
+
+        return ok({
+            machineOutput,
+            collectedItems: {},
+            totalCollected: 0,
+        });
+    }
+
+    execute(
+        state: CollectionState,
+        _ledger: InventoryLedger,
+    ): Result<TaskExecutionResult<CollectionState>> {
+        const machineOutput = { ...state.machineOutput };
+        const collectedItems = { ...state.collectedItems };
+        let cycleTotal = 0;
+        let machineCount = 0;
+
+        const target = this.materialSource.get(this.config.targetSource);
+        if (!target || !target.isAvailable()) {
+            this.log.warn("Collection target not available", { target: this.config.targetSource ?? "default" });
+            return ok({ state, operationsCount: 0 });
+        }
+
+        for (const machine of this.machines) {
+            const previous = machineOutput[machine.id] ?? { lastCollected: 0, totalCollected: 0, remaining: 0 };
+            const chest = this.machineChests.get(machine.outputChest!);
+
+            chest?.ensureConnected();
+            if (!chest || !chest.isAvailable()) {
+                machineOutput[machine.id] = { ...previous, isOffline: true, lastCollected: 0 };
+                continue;
+            }
+
+            if (this.dryRun) {
+                machineOutput[machine.id] = { ...previous, lastCollected: 0, remaining: this.countItems(chest) };
+                continue;
+            }
+
+            const drainRes = drainInventory(chest, target.getName(), this.config.maxItemsPerMachine);
+            if (!drainRes.ok) {
+                this.log.warn("Output chest scan failed", { id: machine.id, chest: machine.outputChest, code: drainRes.code });
+                machineOutput[machine.id] = { ...previous, lastCollected: 0 };
+                continue;
+            }
+
+            const { moved, total, remaining } = drainRes.value;
+            for (const [itemId, count] of moved) {
+                collectedItems[itemId] = (collectedItems[itemId] ?? 0) + count;
+            }
+            if (remaining > 0 && total < (this.config.maxItemsPerMachine ?? math.huge)) {
+                this.log.warn("Output chest not fully collected", { id: machine.id, remaining });
+            }
+
+            machineOutput[machine.id] = {
+                lastCollected: total,
+                totalCollected: previous.totalCollected + total,
+                remaining,
+            };
+            if (total > 0) {
+                cycleTotal += total;
+                machineCount++;
+            }
+        }
+
+        return ok({
+            state: {
+                machineOutput,
+                collectedItems,
+                totalCollected: state.totalCollected + cycleTotal,
+            },
+            operationsCount: machineCount,
+            summary: cycleTotal > 0
+                ? `${cycleTotal} items collected from ${machineCount} machines`
+                : undefined,
+        });
+    }
+
+    getDiagnostics(config: CollectionConfig): TaskDiagnostics {
+        return {
+            sections: [
+                {
+                    title: "OUTPUT COLLECTION",
+                    lines: [
+                        `target: ${config.targetSource ?? "highest priority material source"}`,
+                        `max per machine: ${config.maxItemsPerMachine ?? "-"}`,
+                        ...this.resolveMachines(config).map(
+                            (m) => `${m.id}: output=${m.outputChest ?? "- (not collected)"}`,
+                        ),
+                    ],
+                },
+            ],
+        };
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private resolveMachines(config: CollectionConfig): MachineConfig[] {
+        return [...this.taskMachines, ...(config.machines ?? [])];
+    }
+
+    private countItems(chest: SafePeripheral<InventoryPeripheral>): number {
+        const contentsRes = getInventoryContents(chest);
+        if (!contentsRes.ok) return 0;
+
+        let count = 0;
+        for (const [, info] of contentsRes.value) count += info.totalCount;
+        return count;
+    }
+}
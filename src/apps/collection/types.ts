@@ -0,0 +1,43 @@
+import { MachineConfig } from "@lib/orchestrator/types";
+
+/**
+ * Configuration for the Collection application.
+ */
+export interface CollectionConfig {
+    /** Task enabled? */
+    enabled: boolean;
+
+    /**
+     * Extra machines no other task feeds (only id and outputChest are used).
+     * Production and distribution machines with an outputChest are collected without being listed here.
+     */
+    machines?: MachineConfig[];
+
+    /** Material source inventory to deposit into (default: highest priority source) */
+    targetSource?: string;
+
+    /** Max items collected per machine and cycle (default: no limit) */
+    maxItemsPerMachine?: number;
+}
+
+/**
+ * Runtime state for the Collection application.
+ */
+export interface CollectionState {
+    /** Output counts of each machine */
+    machineOutput: Record<string, {
+        isOffline?: boolean;
+        /** Items collected in the last cycle */
+        lastCollected: number;
+        /** Items collected since start */
+        totalCollected: number;
+        /** Items left in the output chest after the last cycle (refused by the target or over the limit) */
+        remaining: number;
+    }>;
+
+    /** Items collected since start, per item ID */
+    collectedItems: Record<string, number>;
+
+    /** Total items collected since start */
+    totalCollected: number;
+}
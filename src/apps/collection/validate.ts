@@ -0,0 +1,38 @@
+import { ConfigReport } from "@lib/config/report";
+import { checkPositive } from "@lib/config/checks";
+import { CollectionConfig } from "./types";
+
+const SECTION = "collection";
+
+/**
+ * Validate the collection config: extra machines and limits.
+ * Output chests shared with other roles are checked by the caller (cross-task).
+ *
+ * @param taskMachineIds - IDs of the machines of other tasks (collected through their own outputChest)
+ */
+export function validateCollectionConfig(config: CollectionConfig, report: ConfigReport, taskMachineIds: string[]): void {
+    const seenIds = new Set<string>();
+
+    (config.machines ?? []).forEach((machine, i) => {
+        const path = `machines[${i + 1}]`;
+
+        if (seenIds.has(machine.id)) {
+            report.error(SECTION, path, `duplicate machine ID "${machine.id}"`);
+        } else if (taskMachineIds.includes(machine.id)) {
+            report.error(SECTION, path, `"${machine.id}" is a machine of another task, set its outputChest there`);
+        }
+        seenIds.add(machine.id);
+
+        if (machine.outputChest === undefined) {
+            report.warn(SECTION, path, `machine "${machine.id}" has no outputChest and is never collected`);
+        } else if (machine.outputChest === "") {
+            report.error(SECTION, `${path}.outputChest`, "outputChest is empty");
+        } else if (machine.outputChest === machine.inputChest) {
+            report.error(SECTION, `${path}.outputChest`, "outputChest is the machine's inputChest");
+        }
+    });
+
+    if (config.maxItemsPerMachine !== undefined) {
+        checkPositive(report, SECTION, "maxItemsPerMachine", config.maxItemsPerMachine);
+    }
+}
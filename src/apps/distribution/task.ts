@@ -1,8 +1,16 @@
 import { Result, ok } from "@core/result";
+import { Logger } from "@core/logger";
 import { SafePeripheral } from "@core/safe-peripheral";
 import { Orchestrator } from "@lib/orchestrator/orchestrator";
+import { MachineConfig, MachineOverrides, Scheduler } from "@lib/orchestrator/types";
+import { addDiscoveredMachine, resolveMachines } from "@lib/orchestrator/discovery";
+import { describeOverrides } from "@lib/orchestrator/overrides";
+import { PeripheralChangeEvent } from "@lib/peripheral/types";
 import { WeightedScheduler } from "@lib/scheduler/weighted";
-import { InventoryItemInfo } from "@lib/inventory/types";
+import { createScheduler, describeStages, findPrimaryStage, findScheduler } from "@lib/scheduler/factory";
+import { SchedulerStageConfig } from "@lib/scheduler/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { MaterialSource } from "@lib/inventory/material-source";
 import {
     Task,
     TaskContext,
@@ -13,62 +21,93 @@ import { DistributionConfig, DistributionState } from "./types";
 
 // Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
 
+const DEFAULT_SCHEDULERS: SchedulerStageConfig[] = [{ id: "weighted", kind: "weighted" }];
+
 /**
  * Distribution task: uses Orchestrator + WeightedScheduler
- * to distribute materials to machines using weighted random selection.
+ * to distribute materials to machines using weighted random or round-robin selection.
+ * Other strategies can be chained in front or behind it (config.schedulers).
  */
 export class DistributionTask implements Task<DistributionConfig, DistributionState> {
     readonly id = "distribution";
     readonly name = "Material Distribution";
+    readonly phase = 1;
+    readonly dependsOn = ["production"];
+    readonly requiresFreshInventory = true;
 
     private orchestrator!: Orchestrator;
+    private scheduler!: Scheduler;
+    /** Weighted stage that provides counters and weights (none in a purely stock-based chain, see findPrimaryStage) */
+    private weightedScheduler?: WeightedScheduler;
     private config!: DistributionConfig;
+    private machines!: MachineConfig[];
+    private log!: Logger;
     private machineChests!: Map<string, SafePeripheral<InventoryPeripheral>>;
-    private materialSource!: SafePeripheral<InventoryPeripheral>;
+    private materialSource!: MaterialSource;
+    private dryRun = false;
 
     init(
         context: TaskContext,
         config: DistributionConfig,
     ): Result<DistributionState> {
         this.config = config;
+        this.log = context.logger;
+        this.machines = resolveMachines(config.machines, config.discover, context.peripherals.discoveredChests);
         this.machineChests = context.peripherals.machineChests;
         this.materialSource = context.peripherals.materialSource;
+        this.dryRun = context.systemConfig.dryRun;
 
-        const scheduler = new WeightedScheduler(
+        const stages = config.schedulers ?? DEFAULT_SCHEDULERS;
+        this.scheduler = createScheduler(
+            stages,
             {
                 materials: config.materials,
                 machineTypes: config.machineTypes,
                 transferAmount: config.transferAmount,
+                selection: config.selection,
+                seed: config.seed,
+                dynamicWeights: config.dynamicWeights,
             },
             context.logger,
         );
+        const weightedStage = findPrimaryStage(stages, "weighted");
+        this.weightedScheduler = weightedStage && findScheduler(this.scheduler, WeightedScheduler, weightedStage.id);
 
-        this.orchestrator = new Orchestrator(scheduler, context.logger);
+        this.orchestrator = new Orchestrator(this.scheduler, context.logger, this.id, {
+            refillPolicies: config.refillPolicies,
+            stallDetection: config.stallDetection,
+            dryRun: context.systemConfig.dryRun,
+            journal: context.journal,
+        });
 
         // Create initial state
         const machineStatus: DistributionState["machineStatus"] = {};
-        for (const machine of config.machines) {
+        for (const machine of this.machines) {
             machineStatus[machine.id] = { isEmpty: false };
         }
 
         return ok({
             machineStatus,
             totalTransfers: 0,
+            selectionCounters: {},
+            effectiveWeights: {},
+            decisions: [],
         });
     }
 
     execute(
         state: DistributionState,
-        inventory: Map<string, InventoryItemInfo>,
+        ledger: InventoryLedger,
     ): Result<TaskExecutionResult<DistributionState>> {
         const result = this.orchestrator.run(
-            this.config.machines,
+            this.machines,
             this.machineChests,
             this.materialSource,
-            inventory,
+            ledger,
         );
 
         let transferCount = 0;
+        let plannedCount = 0;
         const newMachineStatus = { ...state.machineStatus };
 
         if (result.ok) {
@@ -78,6 +117,8 @@ export class DistributionTask implements Task<DistributionConfig, DistributionSt
             for (const ms of runResult.machineStates) {
                 newMachineStatus[ms.id] = {
                     isEmpty: ms.isEmpty,
+                    isOffline: ms.isOffline,
+                    isStalled: ms.isStalled,
                 };
             }
 
@@ -88,42 +129,122 @@ export class DistributionTask implements Task<DistributionConfig, DistributionSt
                     isEmpty: false,
                 };
             }
+
+            // Planned assignments (all that happens in dry run)
+            for (const assignment of runResult.planned) {
+                plannedCount++;
+                const entry = newMachineStatus[assignment.machineId];
+                if (entry) {
+                    entry.plannedItem = assignment.itemId;
+                    entry.plannedAmount = assignment.amount;
+                }
+            }
+        }
+
+        // Snapshot for the "selection" command; the scheduler keeps the live counters
+        const selectionCounters: DistributionState["selectionCounters"] = {};
+        const effectiveWeights: DistributionState["effectiveWeights"] = {};
+        if (this.weightedScheduler) {
+            for (const [materialId, counter] of this.weightedScheduler.getCounters()) {
+                selectionCounters[materialId] = { ...counter };
+            }
+            for (const [materialId, weight] of this.weightedScheduler.getEffectiveWeights()) {
+                effectiveWeights[materialId] = weight;
+            }
         }
 
         return ok({
             state: {
                 machineStatus: newMachineStatus,
                 totalTransfers: state.totalTransfers + transferCount,
+                selectionCounters,
+                effectiveWeights,
+                decisions: result.ok ? result.value.decisions : state.decisions,
             },
             operationsCount: transferCount,
             summary: transferCount > 0
                 ? `${transferCount} transfers to machines`
-                : undefined,
+                : this.dryRun && plannedCount > 0
+                    ? `Dry run: ${plannedCount} planned transfers`
+                    : undefined,
         });
     }
 
+    /**
+     * Add a machine when a chest matching one of our discovery rules is attached.
+     */
+    onPeripheralChange(event: PeripheralChangeEvent): void {
+        if (event.kind !== "attach" || !event.discoveryRuleId) return;
+
+        const machine = addDiscoveredMachine(this.machines, this.config.discover, event.name, event.discoveryRuleId);
+        if (!machine) return;
+        this.log.info("Machine discovered", { id: machine.id, type: machine.type, chest: machine.inputChest });
+    }
+
     getDiagnostics(config: DistributionConfig): TaskDiagnostics {
         return {
             sections: [
                 {
                     title: "MATERIALS",
                     lines: Object.values(config.materials).map(
-                        (mat) => `${mat.id}: ${mat.itemId} (min: ${mat.minStock}, weight: ${mat.weight})`,
+                        (mat) => `${mat.id}: ${mat.itemId} (min: ${mat.minStock}, weight: ${mat.weight}`
+                            + `${mat.softMax !== undefined ? `, soft max: ${mat.softMax}` : ""})`,
                     ),
                 },
+                {
+                    title: "SELECTION",
+                    lines: [
+                        `schedulers: ${describeStages(config.schedulers ?? DEFAULT_SCHEDULERS)}`,
+                        `strategy: ${config.selection ?? "random"}, seed: ${config.seed ?? "-"}`,
+                        `dynamic weights: ${config.dynamicWeights
+                            ? `${config.dynamicWeights.curve}, max factor ${config.dynamicWeights.maxFactor ?? "-"}`
+                            : "off"}`,
+                        ...Object.keys(config.materials).map((id) => {
+                            // No scheduler if init failed or no weighted stage
+                            const counter = this.weightedScheduler?.getCounters().get(id);
+                            return `${id}: selected=${counter?.selected ?? 0}, credit=${counter?.credit ?? 0}`;
+                        }),
+                    ],
+                },
                 {
                     title: "MACHINE TYPES",
                     lines: Object.values(config.machineTypes).map(
-                        (t) => `${t.id}: ${t.supportedMaterials.join(", ")}`,
+                        (t) => `${t.id}: ${t.supportedMaterials.join(", ")}${withOverrides(t)}`,
                     ),
                 },
                 {
                     title: "MACHINES",
                     lines: config.machines.map(
-                        (m) => `${m.id}: type=${m.type}, chest=${m.inputChest}`,
+                        (m) => `${m.id}: type=${m.type}, chest=${m.inputChest}${withOverrides(m)}`,
+                    ),
+                },
+                {
+                    title: "REFILL POLICIES",
+                    lines: Object.entries(config.refillPolicies ?? {}).map(
+                        ([type, p]) => `${type}: below=${p.refillBelow ?? 1}, `
+                            + `min=${p.minBuffered ?? "-"}, max=${p.maxBuffered ?? "-"}`,
+                    ),
+                },
+                {
+                    title: "DISCOVERY RULES",
+                    lines: (config.discover ?? []).map(
+                        (r) => `${r.id}: type=${r.type}, name=${r.namePattern ?? "*"}, `
+                            + `peripheral=${r.peripheralType ?? "*"}, marker=${r.markerItem ?? "-"}${r.markerName !== undefined ? ` "${r.markerName}"` : ""}`,
                     ),
                 },
             ],
         };
     }
 }
+
+// ========================================
+// Private helpers
+// ========================================
+
+/**
+ * ", <overrides>" for diagnostics lines, empty without overrides.
+ */
+function withOverrides(overrides: MachineOverrides): string {
+    const text = describeOverrides(overrides);
+    return text ? `, ${text}` : "";
+}
@@ -1,5 +1,18 @@
-import { MachineConfig } from "@lib/orchestrator/types";
-import { MaterialDefinition, MachineTypeDefinition } from "@lib/scheduler/types";
+import {
+    MachineConfig,
+    MachineDiscoveryRule,
+    RefillPolicy,
+    SchedulingDecision,
+    StallDetectionOptions,
+} from "@lib/orchestrator/types";
+import {
+    DynamicWeightOptions,
+    MaterialDefinition,
+    MachineTypeDefinition,
+    SchedulerStageConfig,
+    SelectionCounter,
+    SelectionStrategy,
+} from "@lib/scheduler/types";
 
 /**
  * Configuration for the Distribution application.
@@ -11,6 +24,9 @@ export interface DistributionConfig {
     /** Machines to distribute materials to */
     machines: MachineConfig[];
 
+    /** Rules for discovering additional machines on the wired network */
+    discover?: MachineDiscoveryRule[];
+
     /** Material definitions */
     materials: Record<string, MaterialDefinition>;
 
@@ -19,6 +35,24 @@ export interface DistributionConfig {
 
     /** Items per transfer */
     transferAmount: number;
+
+    /** Material selection: weighted random or weighted round-robin (default: "random") */
+    selection?: SelectionStrategy;
+
+    /** Seed for random selection, makes distribution decisions reproducible */
+    seed?: number;
+
+    /** Scale material weights by their stock relative to minStock (default: static weights) */
+    dynamicWeights?: DynamicWeightOptions;
+
+    /** Scheduler chain in priority order (default: one weighted stage for all machines) */
+    schedulers?: SchedulerStageConfig[];
+
+    /** Refill policies per machine type (default: refill only empty chests) */
+    refillPolicies?: Record<string, RefillPolicy>;
+
+    /** Flag machines whose input isn't consumed (disabled if not set) */
+    stallDetection?: StallDetectionOptions;
 }
 
 /**
@@ -28,8 +62,26 @@ export interface DistributionState {
     /** Status of each machine */
     machineStatus: Record<string, {
         isEmpty: boolean;
+        isOffline?: boolean;
+        isStalled?: boolean;
+        /** Assignment of the last cycle (shown in dry run) */
+        plannedItem?: string;
+        plannedAmount?: number;
     }>;
 
     /** Total transfers since start */
     totalTransfers: number;
+
+    /**
+     * Copy of the weighted scheduler's selection counters per material ID after
+     * the last cycle. Read-only diagnostics ("selection" command): never read back,
+     * the scheduler keeps the live counters.
+     */
+    selectionCounters: Record<string, SelectionCounter>;
+
+    /** Weight per material ID used in the last cycle */
+    effectiveWeights: Record<string, number>;
+
+    /** Scheduling decision per machine of the last cycle */
+    decisions: SchedulingDecision[];
 }
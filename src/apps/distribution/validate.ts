@@ -0,0 +1,92 @@
+import { ConfigReport } from "@lib/config/report";
+import {
+    checkDiscoveryRules,
+    checkMachines,
+    checkNonNegative,
+    checkOverrides,
+    checkPositive,
+    checkRefillPolicies,
+    checkSchedulerStages,
+} from "@lib/config/checks";
+import { DistributionConfig } from "./types";
+
+const SECTION = "distribution";
+
+/**
+ * Validate the distribution config: machines, materials and machine type references.
+ *
+ * @param seenRuleIds - Discovery rule IDs of other tasks (rule IDs are global)
+ */
+export function validateDistributionConfig(
+    config: DistributionConfig,
+    report: ConfigReport,
+    seenRuleIds: Set<string>,
+): void {
+    const machineTypes = Object.keys(config.machineTypes);
+    const materialItems = Object.values(config.materials).map((m) => m.itemId);
+
+    checkMachines(report, SECTION, config.machines, machineTypes, materialItems);
+    checkDiscoveryRules(report, SECTION, config.discover ?? [], machineTypes, seenRuleIds);
+    checkPositive(report, SECTION, "transferAmount", config.transferAmount);
+    checkRefillPolicies(report, SECTION, config.refillPolicies ?? {}, machineTypes);
+    if (config.stallDetection) {
+        checkPositive(report, SECTION, "stallDetection.timeoutSeconds", config.stallDetection.timeoutSeconds);
+    }
+    if (config.schedulers) {
+        checkSchedulerStages(report, SECTION, config.schedulers, machineTypes, { materials: config.materials });
+    }
+
+    if (config.dynamicWeights?.maxFactor !== undefined) {
+        checkPositive(report, SECTION, "dynamicWeights.maxFactor", config.dynamicWeights.maxFactor);
+    }
+
+    // Materials
+    const seenItemIds = new Map<string, string>();
+    for (const [key, material] of Object.entries(config.materials)) {
+        const path = `materials.${key}`;
+        if (material.id !== key) {
+            report.error(SECTION, path, `id "${material.id}" doesn't match its key`);
+        }
+        if (material.itemId === "") {
+            report.error(SECTION, `${path}.itemId`, "item ID is empty");
+        }
+
+        const duplicateOf = seenItemIds.get(material.itemId);
+        if (duplicateOf) {
+            report.warn(SECTION, path, `same item "${material.itemId}" as materials.${duplicateOf}`);
+        }
+        seenItemIds.set(material.itemId, key);
+
+        checkNonNegative(report, SECTION, `${path}.minStock`, material.minStock);
+        // Weight 0 is valid: the material is only used as a fallback
+        checkNonNegative(report, SECTION, `${path}.weight`, material.weight);
+        if (material.softMax !== undefined && !(material.softMax > material.minStock)) {
+            report.error(SECTION, `${path}.softMax`, `must be above minStock ${material.minStock} (got ${tostring(material.softMax)})`);
+        }
+    }
+
+    // Machine types
+    const usedMaterials = new Set<string>();
+    for (const [key, machineType] of Object.entries(config.machineTypes)) {
+        const path = `machineTypes.${key}`;
+        if (machineType.id !== key) {
+            report.error(SECTION, path, `id "${machineType.id}" doesn't match its key`);
+        }
+        if (machineType.supportedMaterials.length === 0) {
+            report.warn(SECTION, path, "supports no materials");
+        }
+        checkOverrides(report, SECTION, path, machineType, materialItems);
+        for (const materialId of machineType.supportedMaterials) {
+            if (!config.materials[materialId]) {
+                report.error(SECTION, `${path}.supportedMaterials`, `unknown material "${materialId}"`);
+            }
+            usedMaterials.add(materialId);
+        }
+    }
+
+    for (const key of Object.keys(config.materials)) {
+        if (!usedMaterials.has(key)) {
+            report.warn(SECTION, `materials.${key}`, "not supported by any machine type");
+        }
+    }
+}
@@ -1,8 +1,17 @@
 import { Result, ok } from "@core/result";
+import { Logger } from "@core/logger";
 import { SafePeripheral } from "@core/safe-peripheral";
 import { Orchestrator } from "@lib/orchestrator/orchestrator";
+import { MachineConfig, MachineOverrides, Scheduler } from "@lib/orchestrator/types";
+import { addDiscoveredMachine, resolveMachines } from "@lib/orchestrator/discovery";
+import { describeOverrides } from "@lib/orchestrator/overrides";
+import { PeripheralChangeEvent } from "@lib/peripheral/types";
 import { StockBasedScheduler } from "@lib/scheduler/stock-based";
-import { InventoryItemInfo } from "@lib/inventory/types";
+import { getRecipeOutputs } from "@lib/scheduler/recipes";
+import { createScheduler, describeStages, findPrimaryStage, findScheduler } from "@lib/scheduler/factory";
+import { SchedulerStageConfig } from "@lib/scheduler/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { MaterialSource } from "@lib/inventory/material-source";
 import {
     Task,
     TaskContext,
@@ -13,55 +22,83 @@ import { ProductionConfig, ProductionState } from "./types";
 
 // Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
 
+const DEFAULT_SCHEDULERS: SchedulerStageConfig[] = [{ id: "stock", kind: "stock-based" }];
+
 /**
  * Production task: uses Orchestrator + StockBasedScheduler
  * to fill machine input chests based on stock urgency.
+ * Other strategies can be chained in front or behind it (config.schedulers).
  */
 export class ProductionTask implements Task<ProductionConfig, ProductionState> {
     readonly id = "production";
     readonly name = "Material Production";
+    /** First: processed materials are available to the consumers of the same cycle */
+    readonly phase = 0;
 
     private orchestrator!: Orchestrator;
+    private scheduler!: Scheduler;
+    /** Stock-based stage that provides demand and bands (none in a purely weighted chain, see findPrimaryStage) */
+    private stockScheduler?: StockBasedScheduler;
     private config!: ProductionConfig;
+    private machines!: MachineConfig[];
+    private log!: Logger;
     private machineChests!: Map<string, SafePeripheral<InventoryPeripheral>>;
-    private materialSource!: SafePeripheral<InventoryPeripheral>;
+    private materialSource!: MaterialSource;
+    private dryRun = false;
 
     init(
         context: TaskContext,
         config: ProductionConfig,
     ): Result<ProductionState> {
         this.config = config;
+        this.log = context.logger;
+        this.machines = resolveMachines(config.machines, config.discover, context.peripherals.discoveredChests);
         this.machineChests = context.peripherals.machineChests;
         this.materialSource = context.peripherals.materialSource;
+        this.dryRun = context.systemConfig.dryRun;
 
-        const scheduler = new StockBasedScheduler(
+        const stages = config.schedulers ?? DEFAULT_SCHEDULERS;
+        this.scheduler = createScheduler(
+            stages,
             {
                 recipes: config.recipes,
                 stockTargets: config.stockTargets,
                 transferAmount: config.transferAmount,
+                planning: config.planning,
+                typeOverrides: config.machineTypes,
             },
             context.logger,
         );
+        const stockStage = findPrimaryStage(stages, "stock-based");
+        this.stockScheduler = stockStage && findScheduler(this.scheduler, StockBasedScheduler, stockStage.id);
 
-        this.orchestrator = new Orchestrator(scheduler, context.logger);
+        this.orchestrator = new Orchestrator(this.scheduler, context.logger, this.id, {
+            refillPolicies: config.refillPolicies,
+            stallDetection: config.stallDetection,
+            dryRun: context.systemConfig.dryRun,
+            journal: context.journal,
+        });
 
         return ok({
             totalOperations: 0,
             totalTransferred: 0,
             lastProcessingTime: 0,
+            demand: {},
+            bands: {},
+            decisions: [],
             machineStatus: {},
         });
     }
 
     execute(
         state: ProductionState,
-        inventory: Map<string, InventoryItemInfo>,
+        ledger: InventoryLedger,
     ): Result<TaskExecutionResult<ProductionState>> {
         const result = this.orchestrator.run(
-            this.config.machines,
+            this.machines,
             this.machineChests,
             this.materialSource,
-            inventory,
+            ledger,
         );
 
         const runResult = result.ok ? result.value : undefined;
@@ -74,6 +111,8 @@ export class ProductionTask implements Task<ProductionConfig, ProductionState> {
             for (const ms of runResult.machineStates) {
                 machineStatus[ms.id] = {
                     isEmpty: ms.isEmpty,
+                    isOffline: ms.isOffline,
+                    isStalled: ms.isStalled,
                     currentItem: ms.currentItem,
                     currentCount: ms.currentCount,
                 };
@@ -82,13 +121,34 @@ export class ProductionTask implements Task<ProductionConfig, ProductionState> {
             for (const transfer of transfers) {
                 const entry = machineStatus[transfer.machineId];
                 if (entry) {
+                    // Top-ups add to what was already buffered
+                    const buffered = entry.currentItem === transfer.itemId ? entry.currentCount ?? 0 : 0;
                     entry.isEmpty = false;
                     entry.currentItem = transfer.itemId;
-                    entry.currentCount = transfer.itemsTransferred;
+                    entry.currentCount = buffered + transfer.itemsTransferred;
+                }
+            }
+            // Planned assignments (all that happens in dry run)
+            for (const assignment of runResult.planned) {
+                const entry = machineStatus[assignment.machineId];
+                if (entry) {
+                    entry.plannedItem = assignment.itemId;
+                    entry.plannedAmount = assignment.amount;
                 }
             }
         }
 
+        const demand: Record<string, number> = {};
+        const bands: ProductionState["bands"] = {};
+        if (this.stockScheduler) {
+            for (const [itemId, d] of this.stockScheduler.getDemand()) {
+                demand[itemId] = d.net;
+            }
+            for (const [itemId, band] of this.stockScheduler.getBands()) {
+                bands[itemId] = band;
+            }
+        }
+
         let totalTransferred = state.totalTransferred;
         for (const transfer of transfers) {
             totalTransferred += transfer.itemsTransferred;
@@ -99,20 +159,40 @@ export class ProductionTask implements Task<ProductionConfig, ProductionState> {
                 totalOperations: state.totalOperations + operations,
                 totalTransferred,
                 lastProcessingTime: operations > 0 ? os.epoch("utc") : state.lastProcessingTime,
+                demand,
+                bands,
+                decisions: runResult?.decisions ?? state.decisions,
                 machineStatus,
             },
             operationsCount: operations,
             summary: operations > 0
                 ? `Processed ${operations} machine assignments`
-                : undefined,
+                : this.dryRun && runResult && runResult.planned.length > 0
+                    ? `Dry run: ${runResult.planned.length} planned assignments`
+                    : undefined,
         });
     }
 
+    /**
+     * Add a machine when a chest matching one of our discovery rules is attached.
+     */
+    onPeripheralChange(event: PeripheralChangeEvent): void {
+        if (event.kind !== "attach" || !event.discoveryRuleId) return;
+
+        const machine = addDiscoveredMachine(this.machines, this.config.discover, event.name, event.discoveryRuleId);
+        if (!machine) return;
+        this.log.info("Machine discovered", { id: machine.id, type: machine.type, chest: machine.inputChest });
+    }
+
     getDiagnostics(config: ProductionConfig): TaskDiagnostics {
         const recipeLines: string[] = [];
         for (const [machineType, recipes] of Object.entries(config.recipes)) {
             for (const recipe of recipes) {
-                recipeLines.push(`[${machineType}] ${recipe.input} -> ${recipe.output}`);
+                const outputs = getRecipeOutputs(recipe).map(
+                    (o) => `${o.count ?? 1}x ${o.itemId}${o.chance !== undefined ? ` (${o.chance * 100}%)` : ""}`,
+                );
+                const time = recipe.processingSeconds !== undefined ? `, ${recipe.processingSeconds}s` : "";
+                recipeLines.push(`[${machineType}] ${recipe.inputCount ?? 1}x ${recipe.input} -> ${outputs.join(" + ")}${time}`);
             }
         }
 
@@ -120,21 +200,58 @@ export class ProductionTask implements Task<ProductionConfig, ProductionState> {
             sections: [
                 {
                     title: "PRODUCTION RECIPES",
-                    lines: recipeLines,
+                    lines: [
+                        `planning: ${config.planning ?? "direct"}`,
+                        `schedulers: ${describeStages(config.schedulers ?? DEFAULT_SCHEDULERS)}`,
+                        ...recipeLines,
+                    ],
                 },
                 {
                     title: "STOCK TARGETS",
                     lines: config.stockTargets.map(
-                        (t) => `${t.itemId}: target=${t.targetCount}, weight=${t.weight}`,
+                        (t) => `${t.itemId}: target=${t.targetCount}, weight=${t.weight}, `
+                            + `band=${t.lowWater ?? t.targetCount}-${t.highWater ?? t.targetCount}`,
+                    ),
+                },
+                {
+                    title: "MACHINE TYPES",
+                    lines: Object.keys(config.recipes).map(
+                        (type) => `${type}: ${config.recipes[type].length} recipes${withOverrides(config.machineTypes?.[type] ?? {})}`,
                     ),
                 },
                 {
                     title: "MACHINES",
                     lines: config.machines.map(
-                        (m) => `${m.id}: type=${m.type}, chest=${m.inputChest}`,
+                        (m) => `${m.id}: type=${m.type}, chest=${m.inputChest}${withOverrides(m)}`,
+                    ),
+                },
+                {
+                    title: "REFILL POLICIES",
+                    lines: Object.entries(config.refillPolicies ?? {}).map(
+                        ([type, p]) => `${type}: below=${p.refillBelow ?? 1}, `
+                            + `min=${p.minBuffered ?? "-"}, max=${p.maxBuffered ?? "-"}`,
+                    ),
+                },
+                {
+                    title: "DISCOVERY RULES",
+                    lines: (config.discover ?? []).map(
+                        (r) => `${r.id}: type=${r.type}, name=${r.namePattern ?? "*"}, `
+                            + `peripheral=${r.peripheralType ?? "*"}, marker=${r.markerItem ?? "-"}${r.markerName !== undefined ? ` "${r.markerName}"` : ""}`,
                     ),
                 },
             ],
         };
     }
 }
+
+// ========================================
+// Private helpers
+// ========================================
+
+/**
+ * ", <overrides>" for diagnostics lines, empty without overrides.
+ */
+function withOverrides(overrides: MachineOverrides): string {
+    const text = describeOverrides(overrides);
+    return text ? `, ${text}` : "";
+}
@@ -1,5 +1,13 @@
-import { MachineConfig } from "@lib/orchestrator/types";
-import { RecipeDefinition, StockTarget } from "@lib/scheduler/stock-based";
+import {
+    MachineConfig,
+    MachineDiscoveryRule,
+    MachineOverrides,
+    RefillPolicy,
+    SchedulingDecision,
+    StallDetectionOptions,
+} from "@lib/orchestrator/types";
+import { PlanningMode, RecipeDefinition, StockBand, StockTarget } from "@lib/scheduler/stock-based";
+import { SchedulerStageConfig } from "@lib/scheduler/types";
 
 /**
  * Configuration for the Production application.
@@ -11,14 +19,32 @@ export interface ProductionConfig {
     /** Machines used for production */
     machines: MachineConfig[];
 
+    /** Rules for discovering additional machines on the wired network */
+    discover?: MachineDiscoveryRule[];
+
     /** Recipes per machine type */
     recipes: Record<string, RecipeDefinition[]>;
 
+    /** Overrides per machine type: transfer amount, allowed/forbidden inputs, urgency multipliers */
+    machineTypes?: Record<string, MachineOverrides>;
+
     /** Stock targets for output materials */
     stockTargets: StockTarget[];
 
     /** Items per transfer */
     transferAmount: number;
+
+    /** Urgency calculation: own output deficit or demand of the whole recipe chain (default: "direct") */
+    planning?: PlanningMode;
+
+    /** Scheduler chain in priority order (default: one stock-based stage for all machines) */
+    schedulers?: SchedulerStageConfig[];
+
+    /** Refill policies per machine type (default: refill only empty chests) */
+    refillPolicies?: Record<string, RefillPolicy>;
+
+    /** Flag machines whose input isn't consumed (disabled if not set) */
+    stallDetection?: StallDetectionOptions;
 }
 
 /**
@@ -34,9 +60,23 @@ export interface ProductionState {
     /** Last processing timestamp */
     lastProcessingTime: number;
 
+    /** Open chain demand per item ID of the last cycle (chain planning only) */
+    demand: Record<string, number>;
+
+    /** Hysteresis band per stock target item ID */
+    bands: Record<string, StockBand>;
+
+    /** Scheduling decision per machine of the last cycle */
+    decisions: SchedulingDecision[];
+
     /** Status of each machine */
     machineStatus: Record<string, {
         isEmpty: boolean;
+        isOffline?: boolean;
+        isStalled?: boolean;
+        /** Assignment of the last cycle (shown in dry run) */
+        plannedItem?: string;
+        plannedAmount?: number;
         currentItem?: string;
         currentCount?: number;
     }>;
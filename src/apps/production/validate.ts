@@ -0,0 +1,193 @@
+import { ConfigReport } from "@lib/config/report";
+import {
+    checkDiscoveryRules,
+    checkMachines,
+    checkNonNegative,
+    checkOverrides,
+    checkPositive,
+    checkRefillPolicies,
+    checkSchedulerStages,
+} from "@lib/config/checks";
+import { RecipeDefinition } from "@lib/scheduler/stock-based";
+import { getRecipeOutputIds } from "@lib/scheduler/recipes";
+import { ProductionConfig } from "./types";
+
+const SECTION = "production";
+
+/**
+ * Validate the production config: machines, recipes, stock targets and the recipe graph.
+ *
+ * @param seenRuleIds - Discovery rule IDs of other tasks (rule IDs are global)
+ */
+export function validateProductionConfig(
+    config: ProductionConfig,
+    report: ConfigReport,
+    seenRuleIds: Set<string>,
+): void {
+    const machineTypes = Object.keys(config.recipes);
+    const inputs: string[] = [];
+    for (const recipes of Object.values(config.recipes)) {
+        inputs.push(...recipes.map((r) => r.input));
+    }
+
+    checkMachines(report, SECTION, config.machines, machineTypes, inputs);
+    checkDiscoveryRules(report, SECTION, config.discover ?? [], machineTypes, seenRuleIds);
+    checkPositive(report, SECTION, "transferAmount", config.transferAmount);
+    checkRefillPolicies(report, SECTION, config.refillPolicies ?? {}, machineTypes);
+    if (config.stallDetection) {
+        checkPositive(report, SECTION, "stallDetection.timeoutSeconds", config.stallDetection.timeoutSeconds);
+    }
+    if (config.schedulers) {
+        checkSchedulerStages(report, SECTION, config.schedulers, machineTypes, {
+            recipes: config.recipes,
+            stockTargets: config.stockTargets,
+        });
+    }
+    for (const [type, overrides] of Object.entries(config.machineTypes ?? {})) {
+        if (!machineTypes.includes(type)) {
+            report.error(SECTION, `machineTypes.${type}`, `unknown machine type "${type}" (no recipes)`);
+        }
+        checkOverrides(report, SECTION, `machineTypes.${type}`, overrides, inputs);
+    }
+
+    // Recipes
+    const allRecipes: RecipeDefinition[] = [];
+    for (const recipes of Object.values(config.recipes)) {
+        allRecipes.push(...recipes);
+    }
+    for (const [type, recipes] of Object.entries(config.recipes)) {
+        if (recipes.length === 0) {
+            report.warn(SECTION, `recipes.${type}`, "machine type has no recipes");
+        }
+        recipes.forEach((recipe, i) => {
+            const path = `recipes.${type}[${i + 1}]`;
+            checkRecipe(report, path, recipe);
+
+            for (const output of getRecipeOutputIds(recipe)) {
+                if (recipe.input === output) {
+                    report.error(SECTION, path, `"${recipe.input}" is both input and output`);
+                }
+                // Chain planning also schedules intermediates that only feed other recipes
+                const feedsChain = config.planning === "chain" && allRecipes.some((r) => r.input === output);
+                if (!feedsChain && !config.stockTargets.some((t) => t.itemId === output)) {
+                    report.warn(SECTION, path, `output "${output}" has no stock target and is never scheduled`);
+                }
+            }
+        });
+    }
+
+    // Stock targets
+    const seenTargets = new Set<string>();
+    config.stockTargets.forEach((target, i) => {
+        const path = `stockTargets[${i + 1}]`;
+        if (seenTargets.has(target.itemId)) {
+            report.error(SECTION, path, `duplicate stock target for "${target.itemId}"`);
+        }
+        seenTargets.add(target.itemId);
+
+        checkPositive(report, SECTION, `${path}.targetCount`, target.targetCount);
+        checkNonNegative(report, SECTION, `${path}.weight`, target.weight);
+        if (target.weight === 0) {
+            report.warn(SECTION, `${path}.weight`, `weight 0: "${target.itemId}" is never urgent`);
+        }
+        if (target.minReserve !== undefined) {
+            checkNonNegative(report, SECTION, `${path}.minReserve`, target.minReserve);
+        }
+        if (target.lowWater !== undefined) {
+            checkNonNegative(report, SECTION, `${path}.lowWater`, target.lowWater);
+        }
+        if (target.highWater !== undefined) {
+            checkPositive(report, SECTION, `${path}.highWater`, target.highWater);
+        }
+        const lowWater = target.lowWater ?? target.targetCount;
+        const highWater = target.highWater ?? target.targetCount;
+        if (lowWater > highWater) {
+            report.error(SECTION, path, `lowWater (${lowWater}) is above highWater (${highWater})`);
+        }
+
+        if (!allRecipes.some((r) => getRecipeOutputIds(r).includes(target.itemId))) {
+            report.warn(SECTION, path, `no recipe produces "${target.itemId}"`);
+        }
+    });
+
+    // Recipe graph: a cycle would convert materials back and forth forever
+    const cycle = findRecipeCycle(allRecipes);
+    if (cycle) {
+        report.error(SECTION, "recipes", `recipe cycle: ${cycle.join(" -> ")}`);
+    }
+}
+
+// ========================================
+// Private helpers
+// ========================================
+
+/**
+ * Check the quantities of one recipe: exactly one of output/outputs, counts, chances and timing.
+ */
+function checkRecipe(report: ConfigReport, path: string, recipe: RecipeDefinition): void {
+    if ((recipe.output === undefined) === (recipe.outputs === undefined)) {
+        report.error(SECTION, path, "set either output or outputs");
+    } else if (recipe.outputs?.length === 0) {
+        report.error(SECTION, `${path}.outputs`, "recipe has no outputs");
+    }
+
+    if (recipe.inputCount !== undefined) {
+        checkPositive(report, SECTION, `${path}.inputCount`, recipe.inputCount);
+        if (recipe.inputCount % 1 !== 0) {
+            report.error(SECTION, `${path}.inputCount`, `must be a whole number (got ${tostring(recipe.inputCount)})`);
+        }
+    }
+    if (recipe.processingSeconds !== undefined) {
+        checkPositive(report, SECTION, `${path}.processingSeconds`, recipe.processingSeconds);
+    }
+
+    (recipe.outputs ?? []).forEach((output, j) => {
+        const outputPath = `${path}.outputs[${j + 1}]`;
+        if (output.count !== undefined) {
+            checkPositive(report, SECTION, `${outputPath}.count`, output.count);
+        }
+        if (output.chance !== undefined && !(output.chance > 0 && output.chance <= 1)) {
+            report.error(SECTION, `${outputPath}.chance`, `must be in (0, 1] (got ${tostring(output.chance)})`);
+        }
+    });
+}
+
+/**
+ * Depth-first search over input -> output edges.
+ *
+ * @returns Item IDs along the first cycle found (first item repeated at the end), or undefined
+ */
+function findRecipeCycle(recipes: RecipeDefinition[]): string[] | undefined {
+    const edges = new Map<string, string[]>();
+    for (const recipe of recipes) {
+        const outputs = edges.get(recipe.input) ?? [];
+        outputs.push(...getRecipeOutputIds(recipe));
+        edges.set(recipe.input, outputs);
+    }
+
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (item: string): string[] | undefined => {
+        const index = path.indexOf(item);
+        if (index >= 0) {
+            return [...path.slice(index), item];
+        }
+        if (done.has(item)) return undefined;
+
+        path.push(item);
+        for (const next of edges.get(item) ?? []) {
+            const cycle = visit(next);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        done.add(item);
+        return undefined;
+    };
+
+    for (const [item] of edges) {
+        const cycle = visit(item);
+        if (cycle) return cycle;
+    }
+    return undefined;
+}
@@ -0,0 +1,266 @@
+import { Result, ok } from "@core/result";
+import { Logger } from "@core/logger";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { getItemTags, listSlots } from "@lib/inventory/scanner";
+import { SlotItem } from "@lib/inventory/types";
+import { findRoutingRule, rulesNeedTags } from "@lib/routing/rules";
+import { executeTransfer } from "@lib/transfer/transfer";
+import {
+    Task,
+    TaskContext,
+    TaskExecutionResult,
+    TaskDiagnostics,
+} from "@lib/task/types";
+import { SortingConfig, SortingState } from "./types";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Items moved out of one inbox slot (internal).
+ */
+interface SlotRouting {
+    /** Rule that matched (undefined = default destination) */
+    ruleId?: string;
+    /** Items moved to the rule's (or default) destination */
+    routed: number;
+    /** Items moved to the overflow destination */
+    overflow: number;
+    /** Items left in the slot */
+    left: number;
+}
+
+/**
+ * Sorting task: empties inbox inventories by routing every stack to the
+ * destination of the first matching rule (item ID, namespace, tag, NBT).
+ *
+ * - Items without a matching rule go to the default destination (or stay)
+ * - Items whose destination is full or offline go to the overflow destination
+ * - Tags need a getItemDetail call; they are cached per item ID
+ */
+export class SortingTask implements Task<SortingConfig, SortingState> {
+    readonly id = "sorting";
+    readonly name = "Item Sorting";
+    /** Last: sorted items are picked up by the next cycle's scan */
+    readonly phase = 3;
+
+    private config!: SortingConfig;
+    private log!: Logger;
+    private chests!: Map<string, SafePeripheral<InventoryPeripheral>>;
+    private materialSource!: MaterialSource;
+    private dryRun = false;
+    private needsTags = false;
+    private tagCache = new Map<string, string[]>();
+
+    init(
+        context: TaskContext,
+        config: SortingConfig,
+    ): Result<SortingState> {
+        this.config = config;
+        this.log = context.logger;
+        this.chests = context.peripherals.machineChests;
+        this.materialSource = context.peripherals.materialSource;
+        this.dryRun = context.systemConfig.dryRun;
+        this.needsTags = rulesNeedTags(config.rules);
+
+        const routedByRule: Record<string, number> = {};
+        for (const rule of config.rules) {
+            routedByRule[rule.id] = 0;
+        }
+
+        return ok({
+            routedByRule,
+            routedDefault: 0,
+            routedOverflow: 0,
+            unrouted: 0,
+            totalRouted: 0,
+        });
+    }
+
+    execute(
+        state: SortingState,
+        _ledger: InventoryLedger,
+    ): Result<TaskExecutionResult<SortingState>> {
+        const routedByRule = { ...state.routedByRule };
+        let routedDefault = 0;
+        let routedOverflow = 0;
+        let unrouted = 0;
+        let moved = 0;
+        let movedSlots = 0;
+        let planned = 0;
+
+        for (const inboxName of this.config.inboxes) {
+            const inbox = this.chests.get(inboxName);
+            inbox?.ensureConnected();
+            if (!inbox || !inbox.isAvailable()) continue;
+
+            const slotsRes = listSlots(inbox);
+            if (!slotsRes.ok) {
+                this.log.warn("Inbox scan failed", { inbox: inboxName, code: slotsRes.code });
+                continue;
+            }
+
+            for (const item of slotsRes.value) {
+                if (this.dryRun) {
+                    planned += this.planSlot(inbox, item);
+                    continue;
+                }
+
+                const routing = this.routeSlot(inbox, item);
+                if (routing.ruleId !== undefined) {
+                    routedByRule[routing.ruleId] = (routedByRule[routing.ruleId] ?? 0) + routing.routed;
+                } else {
+                    routedDefault += routing.routed;
+                }
+                routedOverflow += routing.overflow;
+                unrouted += routing.left;
+                moved += routing.routed + routing.overflow;
+                if (routing.routed + routing.overflow > 0) movedSlots++;
+            }
+        }
+
+        return ok({
+            state: {
+                routedByRule,
+                routedDefault: state.routedDefault + routedDefault,
+                routedOverflow: state.routedOverflow + routedOverflow,
+                unrouted,
+                totalRouted: state.totalRouted + moved,
+            },
+            operationsCount: movedSlots,
+            summary: moved > 0
+                ? `${moved} items routed (${routedOverflow} to overflow, ${unrouted} left)`
+                : this.dryRun && planned > 0
+                    ? `Dry run: ${planned} items would be routed`
+                    : undefined,
+        });
+    }
+
+    getDiagnostics(config: SortingConfig): TaskDiagnostics {
+        return {
+            sections: [
+                {
+                    title: "SORTING",
+                    lines: [
+                        `inboxes: ${config.inboxes.join(", ")}`,
+                        `default: ${config.defaultDestination ?? "- (unmatched items stay)"}`,
+                        `overflow: ${config.overflowDestination ?? "-"}`,
+                    ],
+                },
+                {
+                    title: "ROUTING RULES",
+                    lines: config.rules.map(
+                        (r) => `${r.id}: item=${r.itemId ?? "*"}, namespace=${r.namespace ?? "*"}, `
+                            + `tag=${r.tag ?? "*"}, nbt=${r.hasNbt ?? "*"} -> ${r.destination}`,
+                    ),
+                },
+            ],
+        };
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    /**
+     * Route one inbox slot: matched destination first, overflow for the rest.
+     */
+    private routeSlot(inbox: SafePeripheral<InventoryPeripheral>, item: SlotItem): SlotRouting {
+        const rule = findRoutingRule({ ...item, tags: this.getTags(inbox, item) }, this.config.rules);
+        const destination = rule?.destination ?? this.config.defaultDestination;
+        const routing: SlotRouting = { ruleId: rule?.id, routed: 0, overflow: 0, left: item.count };
+
+        if (destination && this.isAvailable(destination)) {
+            const res = this.push(inbox, item, destination, routing.left);
+            if (res === undefined) return { ...routing, left: 0 };
+            routing.routed = res;
+            routing.left -= res;
+        }
+
+        const overflow = this.config.overflowDestination;
+        if (routing.left > 0 && destination && overflow && overflow !== destination && this.isAvailable(overflow)) {
+            const res = this.push(inbox, item, overflow, routing.left);
+            if (res === undefined) return { ...routing, left: 0 };
+            routing.overflow = res;
+            routing.left -= res;
+        }
+
+        if (routing.left > 0 && destination) {
+            this.log.warn("Item could not be routed, destinations full or offline", {
+                item: item.name,
+                count: routing.left,
+                destination,
+            });
+        }
+        return routing;
+    }
+
+    /**
+     * Dry run: log where a slot would go.
+     *
+     * @returns Number of items that have a destination
+     */
+    private planSlot(inbox: SafePeripheral<InventoryPeripheral>, item: SlotItem): number {
+        const rule = findRoutingRule({ ...item, tags: this.getTags(inbox, item) }, this.config.rules);
+        const destination = rule?.destination ?? this.config.defaultDestination;
+        if (!destination) return 0;
+
+        this.log.debug("Dry run: planned route", {
+            item: item.name,
+            count: item.count,
+            rule: rule?.id ?? "default",
+            destination,
+        });
+        return item.count;
+    }
+
+    /**
+     * Push items of a slot through executeTransfer (slot check + pushItems).
+     *
+     * @returns Items moved, or undefined if the slot changed (picked up next cycle)
+     */
+    private push(
+        inbox: SafePeripheral<InventoryPeripheral>,
+        item: SlotItem,
+        destination: string,
+        amount: number,
+    ): number | undefined {
+        const res = executeTransfer({
+            source: inbox,
+            targetName: destination,
+            sourceSlot: item.slot,
+            expectedItemId: item.name,
+            amount,
+        });
+
+        if (res.ok) return res.value.transferred;
+        if (res.code === "ERR_SLOT_CHANGED") return undefined;
+        return 0;
+    }
+
+    /**
+     * Tags of an item (cached per item ID), undefined if no rule uses tags.
+     */
+    private getTags(inbox: SafePeripheral<InventoryPeripheral>, item: SlotItem): string[] | undefined {
+        if (!this.needsTags) return undefined;
+
+        const cached = this.tagCache.get(item.name);
+        if (cached) return cached;
+
+        const tagsRes = getItemTags(inbox, item.slot);
+        if (!tagsRes.ok) return [];
+        this.tagCache.set(item.name, tagsRes.value);
+        return tagsRes.value;
+    }
+
+    /**
+     * Destinations are material source members or validated chests.
+     */
+    private isAvailable(name: string): boolean {
+        const peripheral = this.materialSource.get(name) ?? this.chests.get(name);
+        if (!peripheral) return false;
+        peripheral.ensureConnected();
+        return peripheral.isAvailable();
+    }
+}
@@ -0,0 +1,41 @@
+import { RoutingRule } from "@lib/routing/types";
+
+/**
+ * Configuration for the Sorting application.
+ */
+export interface SortingConfig {
+    /** Task enabled? */
+    enabled: boolean;
+
+    /** Inventories to empty (e.g. unearther output chests) */
+    inboxes: string[];
+
+    /** Routing rules, checked in order (first match wins) */
+    rules: RoutingRule[];
+
+    /** Destination for items no rule matches (not set: they stay in the inbox) */
+    defaultDestination?: string;
+
+    /** Destination for items whose destination is full or offline */
+    overflowDestination?: string;
+}
+
+/**
+ * Runtime state for the Sorting application.
+ */
+export interface SortingState {
+    /** Items routed since start, per rule ID */
+    routedByRule: Record<string, number>;
+
+    /** Items sent to the default destination since start */
+    routedDefault: number;
+
+    /** Items sent to the overflow destination since start */
+    routedOverflow: number;
+
+    /** Items left in the inboxes after the last cycle (no destination, or all full) */
+    unrouted: number;
+
+    /** Total items routed since start */
+    totalRouted: number;
+}
@@ -0,0 +1,58 @@
+import { ConfigReport } from "@lib/config/report";
+import { hasCriteria } from "@lib/routing/rules";
+import { SortingConfig } from "./types";
+
+const SECTION = "sorting";
+
+/**
+ * Validate the sorting config: inboxes, rules and destinations.
+ * Inboxes shared with other roles are checked by the caller (cross-task).
+ */
+export function validateSortingConfig(config: SortingConfig, report: ConfigReport): void {
+    const inboxes = new Set<string>();
+
+    if (config.inboxes.length === 0) {
+        report.error(SECTION, "inboxes", "at least one inbox is required");
+    }
+    config.inboxes.forEach((inbox, i) => {
+        if (inboxes.has(inbox)) {
+            report.error(SECTION, `inboxes[${i + 1}]`, `"${inbox}" is listed twice`);
+        }
+        inboxes.add(inbox);
+    });
+
+    const checkDestination = (path: string, destination: string): void => {
+        if (destination === "") {
+            report.error(SECTION, path, "destination is empty");
+        } else if (inboxes.has(destination)) {
+            report.error(SECTION, path, `"${destination}" is an inbox, items would be routed in a loop`);
+        }
+    };
+
+    const seenIds = new Set<string>();
+    config.rules.forEach((rule, i) => {
+        const path = `rules[${i + 1}]`;
+        if (seenIds.has(rule.id)) {
+            report.error(SECTION, path, `duplicate rule ID "${rule.id}"`);
+        }
+        seenIds.add(rule.id);
+
+        if (!hasCriteria(rule)) {
+            report.error(SECTION, path, `rule "${rule.id}" has no criteria and never matches, use defaultDestination`);
+        }
+        if (rule.itemId !== undefined && rule.namespace !== undefined
+            && rule.itemId.split(":")[0] !== rule.namespace) {
+            report.error(SECTION, path, `itemId "${rule.itemId}" is not in namespace "${rule.namespace}"`);
+        }
+        checkDestination(`${path}.destination`, rule.destination);
+    });
+
+    if (config.defaultDestination !== undefined) {
+        checkDestination("defaultDestination", config.defaultDestination);
+    } else {
+        report.warn(SECTION, "defaultDestination", "not set, items without a matching rule stay in the inbox");
+    }
+    if (config.overflowDestination !== undefined) {
+        checkDestination("overflowDestination", config.overflowDestination);
+    }
+}
@@ -0,0 +1,171 @@
+import { Result, ok } from "@core/result";
+import { Logger } from "@core/logger";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { takeSlots } from "@lib/inventory/slots";
+import { InventoryItemInfo, Reservation } from "@lib/inventory/types";
+import { executeMultiSlotTransfer } from "@lib/transfer/transfer";
+import { TransferSlot } from "@lib/transfer/types";
+import {
+    Task,
+    TaskContext,
+    TaskExecutionResult,
+    TaskDiagnostics,
+} from "@lib/task/types";
+import { TrimmingConfig, TrimmingState } from "./types";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Trimming task: keeps the stock of every capped item at or below its cap
+ * by pushing the excess out of the material source, at most `batchSize`
+ * items per item and cycle.
+ *
+ * Works on the cycle ledger like the orchestrator: slots are reserved,
+ * trimmed and debited, so tasks running later in the cycle see the new stock.
+ */
+export class TrimmingTask implements Task<TrimmingConfig, TrimmingState> {
+    readonly id = "trimming";
+    readonly name = "Stock Trimming";
+    /** After the consumers, so only stock nobody took this cycle is thrown away */
+    readonly phase = 2;
+    readonly dependsOn = ["production", "distribution"];
+
+    private config!: TrimmingConfig;
+    private log!: Logger;
+    private materialSource!: MaterialSource;
+    private chests!: Map<string, SafePeripheral<InventoryPeripheral>>;
+    private dryRun = false;
+
+    init(
+        context: TaskContext,
+        config: TrimmingConfig,
+    ): Result<TrimmingState> {
+        this.config = config;
+        this.log = context.logger;
+        this.materialSource = context.peripherals.materialSource;
+        this.chests = context.peripherals.machineChests;
+        this.dryRun = context.systemConfig.dryRun;
+
+        return ok({ lastTrimmed: {}, totalTrimmed: {} });
+    }
+
+    execute(
+        state: TrimmingState,
+        ledger: InventoryLedger,
+    ): Result<TaskExecutionResult<TrimmingState>> {
+        const lastTrimmed: Record<string, number> = {};
+        const totalTrimmed = { ...state.totalTrimmed };
+        let cycleTotal = 0;
+
+        const destination = this.chests.get(this.config.destination);
+        destination?.ensureConnected();
+        if (!destination || !destination.isAvailable()) {
+            this.log.warn("Trim destination not available", { destination: this.config.destination });
+            return ok({ state: { ...state, lastTrimmed }, operationsCount: 0 });
+        }
+
+        for (const [itemId, info] of ledger.snapshot()) {
+            const cap = this.getCap(itemId);
+            if (cap === undefined) continue;
+
+            const excess = ledger.getTotal(itemId) - cap;
+            if (excess <= 0) continue;
+
+            const trimmed = this.trimItem(itemId, info, math.min(excess, this.config.batchSize), ledger);
+            if (trimmed <= 0) continue;
+
+            lastTrimmed[itemId] = trimmed;
+            totalTrimmed[itemId] = (totalTrimmed[itemId] ?? 0) + trimmed;
+            cycleTotal += trimmed;
+        }
+
+        if (cycleTotal > 0) {
+            this.log.info(this.dryRun ? "Dry run: stock would be trimmed" : "Stock trimmed", lastTrimmed);
+        }
+
+        return ok({
+            state: { lastTrimmed, totalTrimmed },
+            operationsCount: this.dryRun ? 0 : Object.keys(lastTrimmed).length,
+            summary: cycleTotal > 0
+                ? `${this.dryRun ? "Dry run: " : ""}${cycleTotal} items trimmed to ${this.config.destination}`
+                : undefined,
+        });
+    }
+
+    getDiagnostics(config: TrimmingConfig): TaskDiagnostics {
+        return {
+            sections: [
+                {
+                    title: "STOCK CAPS",
+                    lines: [
+                        `destination: ${config.destination}, batch: ${config.batchSize}`,
+                        `default cap: ${config.defaultCap ?? "-"}`,
+                        ...Object.entries(config.caps).map(([itemId, cap]) => `${itemId}: ${cap}`),
+                        `protected: ${(config.protectedItems ?? []).join(", ") || "-"}`,
+                    ],
+                },
+            ],
+        };
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    /**
+     * Cap of an item, undefined if it isn't trimmed.
+     */
+    private getCap(itemId: string): number | undefined {
+        if (this.config.protectedItems?.includes(itemId)) return undefined;
+        return this.config.caps[itemId] ?? this.config.defaultCap;
+    }
+
+    /**
+     * Reserve, push and debit up to `amount` items (dry run: reserve and debit only).
+     *
+     * @param info - Available stock of the item (ledger snapshot)
+     * @returns Items trimmed
+     */
+    private trimItem(itemId: string, info: InventoryItemInfo, amount: number, ledger: InventoryLedger): number {
+        const reservations: Reservation[] = [];
+        const slots: TransferSlot[] = [];
+
+        for (const sourceSlot of takeSlots(info, amount)) {
+            const source = this.materialSource.get(sourceSlot.source);
+            if (!source) continue;
+
+            const reservationRes = ledger.reserve(this.id, itemId, sourceSlot.slot, sourceSlot.count, sourceSlot.source);
+            if (!reservationRes.ok) continue;
+
+            reservations.push(reservationRes.value);
+            slots.push({ source, slot: sourceSlot.slot, amount: reservationRes.value.amount });
+        }
+        if (reservations.length === 0) return 0;
+
+        if (this.dryRun) {
+            let planned = 0;
+            for (const r of reservations) {
+                ledger.commit(r, r.amount);
+                planned += r.amount;
+            }
+            return planned;
+        }
+
+        const transferRes = executeMultiSlotTransfer({
+            targetName: this.config.destination,
+            expectedItemId: itemId,
+            slots,
+        });
+
+        if (!transferRes.ok) {
+            for (const r of reservations) ledger.release(r);
+            this.log.warn("Trim transfer failed", { item: itemId, code: transferRes.code });
+            return 0;
+        }
+
+        reservations.forEach((r, i) => ledger.commit(r, transferRes.value.perSlot[i]));
+        return transferRes.value.transferred;
+    }
+}
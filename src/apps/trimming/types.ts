@@ -0,0 +1,33 @@
+/**
+ * Configuration for the Trimming application.
+ */
+export interface TrimmingConfig {
+    /** Task enabled? */
+    enabled: boolean;
+
+    /** Hard stock cap per item ID */
+    caps: Record<string, number>;
+
+    /** Cap for every item without its own entry in `caps` (not set: only listed items are trimmed) */
+    defaultCap?: number;
+
+    /** Items that are never trimmed, whatever their cap */
+    protectedItems?: string[];
+
+    /** Inventory receiving the excess (trash can, void or overflow chest) */
+    destination: string;
+
+    /** Max items trimmed per item and cycle */
+    batchSize: number;
+}
+
+/**
+ * Runtime state for the Trimming application.
+ */
+export interface TrimmingState {
+    /** Items trimmed in the last cycle, per item ID */
+    lastTrimmed: Record<string, number>;
+
+    /** Items trimmed since start, per item ID */
+    totalTrimmed: Record<string, number>;
+}
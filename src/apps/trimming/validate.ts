@@ -0,0 +1,31 @@
+import { ConfigReport } from "@lib/config/report";
+import { checkPositive } from "@lib/config/checks";
+import { TrimmingConfig } from "./types";
+
+const SECTION = "trimming";
+
+/**
+ * Validate the trimming config: caps, batch size and protected items.
+ * The destination and caps below stock targets are checked by the caller (cross-task).
+ */
+export function validateTrimmingConfig(config: TrimmingConfig, report: ConfigReport): void {
+    if (config.destination === "") {
+        report.error(SECTION, "destination", "destination is empty");
+    }
+    checkPositive(report, SECTION, "batchSize", config.batchSize);
+    if (config.defaultCap !== undefined) {
+        checkPositive(report, SECTION, "defaultCap", config.defaultCap);
+    }
+
+    const protectedItems = config.protectedItems ?? [];
+    for (const [itemId, cap] of Object.entries(config.caps)) {
+        checkPositive(report, SECTION, `caps.${itemId}`, cap);
+        if (protectedItems.includes(itemId)) {
+            report.warn(SECTION, `caps.${itemId}`, "item is protected, cap is ignored");
+        }
+    }
+
+    if (Object.keys(config.caps).length === 0 && config.defaultCap === undefined) {
+        report.warn(SECTION, "caps", "no caps and no defaultCap, nothing is ever trimmed");
+    }
+}
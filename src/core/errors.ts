@@ -22,6 +22,13 @@ export type ResultCode =
   // Scan errors
   | "ERR_SCAN_FAILED"
 
+  // Inventory ledger errors
+  | "ERR_INSUFFICIENT_STOCK"
+
+  // Task registry errors
+  | "ERR_TASK_DUPLICATE"
+  | "ERR_TASK_ORDER"
+
   // General errors
   | "ERR_CONFIG_INVALID"
   | "ERR_IO";
@@ -1,10 +1,58 @@
 import { Logger } from "./logger";
 import { Result, ok, err } from "./result";
 
+/**
+ * Health state of a SafePeripheral (circuit breaker).
+ *
+ * - healthy:   calls succeed
+ * - degraded:  some consecutive failures, calls still go through
+ * - open:      too many failures, calls are skipped until the next probe
+ * - half-open: probe succeeded, the next call decides between healthy and open
+ */
+export type PeripheralHealthState = "healthy" | "degraded" | "open" | "half-open";
+
+/**
+ * Circuit breaker tuning.
+ */
+export interface CircuitBreakerOptions {
+    /** Consecutive failures before healthy -> degraded */
+    degradedThreshold: number;
+    /** Consecutive failures before degraded -> open */
+    openThreshold: number;
+    /** Initial wait before probing an open peripheral (seconds) */
+    baseBackoffSeconds: number;
+    /** Upper bound for the exponential probe backoff (seconds) */
+    maxBackoffSeconds: number;
+}
+
+/**
+ * Snapshot of a peripheral's health for orchestrator and dashboard.
+ */
+export interface PeripheralHealth {
+    state: PeripheralHealthState;
+    /** Failures since the last successful call */
+    consecutiveFailures: number;
+    /** Failures since boot */
+    totalFailures: number;
+    /** Error message of the last failure */
+    lastError?: string;
+    /** Epoch (ms) at which the next probe is allowed while open */
+    nextProbeAt?: number;
+}
+
+const DEFAULT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+    degradedThreshold: 1,
+    openThreshold: 3,
+    baseBackoffSeconds: 5,
+    maxBackoffSeconds: 300,
+};
+
 /**
  * Generic wrapper for any CC:Tweaked peripheral that provides:
  * - Try/catch around all operations
  * - Explicit connection check and reconnect via ensureConnected()
+ * - Circuit breaker: consecutive failures open the circuit, calls are
+ *   skipped while open and the peripheral is probed on a backoff schedule
  *
  * NO automatic retry - caller controls when to reconnect.
  *
@@ -12,30 +60,62 @@ import { Result, ok, err } from "./result";
  */
 export class SafePeripheral<T> {
     private wrappedPeripheral: T;
+    private readonly breaker: CircuitBreakerOptions;
+
+    private state: PeripheralHealthState = "healthy";
+    private consecutiveFailures = 0;
+    private totalFailures = 0;
+    private lastError?: string;
+    private openCount = 0;
+    private nextProbeAt = 0;
+    /** Presence reported by attach/detach events (undefined = untracked, ask the modem) */
+    private presence?: boolean;
 
     constructor(
         private readonly modem: WiredModemPeripheral,
         private readonly peripheralName: string,
         initialPeripheral: T,
         private readonly log: Logger,
+        breaker?: Partial<CircuitBreakerOptions>,
     ) {
         this.wrappedPeripheral = initialPeripheral;
+        this.breaker = { ...DEFAULT_BREAKER_OPTIONS, ...breaker };
     }
 
     /**
      * Check if peripheral is connected to the wired network.
-     * Performs actual check via modem.getNamesRemote().
+     * Uses the event-tracked presence if available, otherwise performs
+     * an actual check via modem.getNamesRemote().
      */
     isConnected(): boolean {
-        try {
-            const remotes = this.modem.getNamesRemote();
-            if (!remotes) return false;
-            for (const [, name] of pairs(remotes)) {
-                if (name === this.peripheralName) return true;
-            }
-            return false;
-        } catch {
-            return false;
+        if (this.presence !== undefined) {
+            return this.presence;
+        }
+        return this.queryModem();
+    }
+
+    /**
+     * Record presence from a peripheral attach/detach event.
+     * Once set, isConnected() no longer queries the modem.
+     *
+     * Detach opens the circuit immediately; a re-attach re-wraps the
+     * peripheral and resets it to healthy.
+     */
+    setPresence(present: boolean): void {
+        const previous = this.presence;
+        this.presence = present;
+
+        if (!present) {
+            this.lastError = "detached";
+            if (this.state !== "open") this.open();
+            return;
+        }
+
+        if (previous === false || this.state === "open") {
+            this.tryReconnect();
+            this.consecutiveFailures = 0;
+            this.openCount = 0;
+            this.transition("healthy");
         }
     }
 
@@ -43,9 +123,19 @@ export class SafePeripheral<T> {
      * Ensure peripheral is connected. If not, try to reconnect.
      * Caller should call this BEFORE critical operations.
      *
+     * While the circuit is open this does nothing until the backoff has
+     * elapsed; then it probes the peripheral and moves to half-open on success.
+     *
      * @returns true if connected (or successfully reconnected), false otherwise
      */
     ensureConnected(): boolean {
+        if (this.state === "open") {
+            if (os.epoch("utc") < this.nextProbeAt) {
+                return false;
+            }
+            return this.probe();
+        }
+
         // Actual connection check via modem
         if (this.isConnected()) {
             return true;
@@ -58,19 +148,23 @@ export class SafePeripheral<T> {
     /**
      * Execute an operation with try/catch protection.
      * NO automatic reconnect - caller should call ensureConnected() before if needed.
+     * Skipped (returns fallback) while the circuit is open.
      *
      * @param operation - Function that receives the peripheral and returns a value
      * @param fallback - Value to return if operation fails
      * @returns The operation result, or fallback on failure
      */
     call<R>(operation: (p: T) => R, fallback: R): R {
+        if (this.state === "open") {
+            return fallback;
+        }
+
         try {
-            return operation(this.wrappedPeripheral);
+            const value = operation(this.wrappedPeripheral);
+            this.recordSuccess();
+            return value;
         } catch (e) {
-            this.log.warn("Peripheral operation failed", {
-                name: this.peripheralName,
-                error: String(e),
-            });
+            this.recordFailure(String(e));
             return fallback;
         }
     }
@@ -79,14 +173,25 @@ export class SafePeripheral<T> {
      * Execute an operation with try/catch protection.
      * Returns Result for explicit error handling.
      * NO automatic reconnect - caller should call ensureConnected() before if needed.
+     * Returns ERR_PERIPHERAL_OFFLINE without calling while the circuit is open.
      *
      * @param operation - Function that receives the peripheral and returns a value
      * @returns Result with the value on success, or error on failure
      */
     tryCall<R>(operation: (p: T) => R): Result<R> {
+        if (this.state === "open") {
+            return err("ERR_PERIPHERAL_OFFLINE", {
+                name: this.peripheralName,
+                state: this.state,
+            });
+        }
+
         try {
-            return ok(operation(this.wrappedPeripheral));
+            const value = operation(this.wrappedPeripheral);
+            this.recordSuccess();
+            return ok(value);
         } catch (e) {
+            this.recordFailure(String(e));
             return err("ERR_PERIPHERAL_DISCONNECTED", {
                 name: this.peripheralName,
                 error: String(e),
@@ -94,6 +199,26 @@ export class SafePeripheral<T> {
         }
     }
 
+    /**
+     * Whether calls currently go through (circuit not open).
+     */
+    isAvailable(): boolean {
+        return this.state !== "open";
+    }
+
+    /**
+     * Current circuit breaker state and failure counters.
+     */
+    getHealth(): PeripheralHealth {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            totalFailures: this.totalFailures,
+            lastError: this.lastError,
+            nextProbeAt: this.state === "open" ? this.nextProbeAt : undefined,
+        };
+    }
+
     /**
      * Get the peripheral name (for pushItems target, logging, etc.)
      */
@@ -113,6 +238,22 @@ export class SafePeripheral<T> {
     // Private methods
     // ========================================
 
+    /**
+     * Look up the peripheral name in modem.getNamesRemote().
+     */
+    private queryModem(): boolean {
+        try {
+            const remotes = this.modem.getNamesRemote();
+            if (!remotes) return false;
+            for (const [, name] of pairs(remotes)) {
+                if (name === this.peripheralName) return true;
+            }
+            return false;
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Try to re-wrap the peripheral after disconnect/reconnect.
      * Returns true if successful.
@@ -130,6 +271,89 @@ export class SafePeripheral<T> {
         }
         return false;
     }
+
+    /**
+     * Probe an open peripheral: reconnect and move to half-open,
+     * or stay open with a longer backoff.
+     * Always asks the modem, so a missed attach event can't keep the circuit open forever.
+     */
+    private probe(): boolean {
+        const present = this.queryModem();
+        if (this.presence !== undefined) {
+            this.presence = present;
+        }
+        if (present && this.tryReconnect()) {
+            this.transition("half-open");
+            return true;
+        }
+        this.scheduleProbe();
+        return false;
+    }
+
+    private recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.openCount = 0;
+        if (this.state !== "healthy") {
+            this.transition("healthy");
+        }
+    }
+
+    private recordFailure(error: string): void {
+        this.consecutiveFailures++;
+        this.totalFailures++;
+        this.lastError = error;
+        this.log.debug("Peripheral operation failed", {
+            name: this.peripheralName,
+            failures: this.consecutiveFailures,
+            error,
+        });
+
+        // A failed trial call re-opens immediately
+        if (this.state === "half-open" || this.consecutiveFailures >= this.breaker.openThreshold) {
+            this.open();
+        } else if (this.state === "healthy" && this.consecutiveFailures >= this.breaker.degradedThreshold) {
+            this.transition("degraded");
+        }
+    }
+
+    private open(): void {
+        this.transition("open");
+        this.scheduleProbe();
+    }
+
+    /**
+     * Exponential backoff: base * 2^(n-1), capped at maxBackoffSeconds.
+     */
+    private scheduleProbe(): void {
+        this.openCount++;
+        const backoff = math.min(
+            this.breaker.maxBackoffSeconds,
+            this.breaker.baseBackoffSeconds * 2 ** (this.openCount - 1),
+        );
+        this.nextProbeAt = os.epoch("utc") + backoff * 1000;
+    }
+
+    /**
+     * Change state and log the transition (once, instead of every failed call).
+     */
+    private transition(next: PeripheralHealthState): void {
+        if (this.state === next) return;
+        const previous = this.state;
+        this.state = next;
+
+        const data = {
+            name: this.peripheralName,
+            from: previous,
+            to: next,
+            failures: this.consecutiveFailures,
+            error: this.lastError,
+        };
+        if (next === "open" || next === "degraded") {
+            this.log.warn("Peripheral health changed", data);
+        } else {
+            this.log.info("Peripheral health changed", data);
+        }
+    }
 }
 
 /**
@@ -140,6 +364,7 @@ export function wrapPeripheral<T>(
     name: string,
     wrappedPeripheral: T,
     log: Logger,
+    breaker?: Partial<CircuitBreakerOptions>,
 ): SafePeripheral<T> {
-    return new SafePeripheral(modem, name, wrappedPeripheral, log);
+    return new SafePeripheral(modem, name, wrappedPeripheral, log, breaker);
 }
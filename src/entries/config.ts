@@ -6,7 +6,8 @@ const STACK_SIZE = 64;
  * Configuration for the main Unearther/Production computer.
  *
  * Hardware setup:
- * - 1x Functional Storage Controller (central material source)
+ * - 1x Functional Storage Controller (central material source; more inventories
+ *   can be added to materialSources, higher priority is drained first)
  * - 5x Hammer input chests (chest_5 through chest_9, one per hammer)
  * - 2x Unearther input chests (archaeologist, geologist)
  * - 1x Monitor for status display
@@ -17,10 +18,12 @@ export const CONFIG: AppConfig = {
     // ============================================================
     peripherals: {
         modem: { name: "back", type: "modem" },
-        materialSource: {
-            name: "functionalstorage:storage_controller_0",
-            type: "inventory",
-        },
+        materialSources: [
+            {
+                name: "functionalstorage:storage_controller_0",
+                type: "inventory",
+            },
+        ],
         monitor: {
             name: "monitor_0",
             type: "monitor",
@@ -34,6 +37,16 @@ export const CONFIG: AppConfig = {
         scanIntervalSeconds: 5,
         logLevel: "debug",
         logFile: "main.log",
+        // Intent/commit of every transfer, checked against the chests at boot
+        journalFile: "transfers.journal",
+        // true: only plan and display assignments (for tuning targets/weights)
+        dryRun: false,
+        // Own run interval per task (others run every scanIntervalSeconds);
+        // jitter adds up to n random seconds so tasks with equal intervals drift apart
+        taskIntervals: {
+            trimming: { intervalSeconds: 30, jitterSeconds: 5 },
+            sorting: { intervalSeconds: 10 },
+        },
     },
 
     // ============================================================
@@ -48,10 +61,14 @@ export const CONFIG: AppConfig = {
             { id: "hammer_2", type: "hammer", inputChest: "minecraft:chest_6" },
             { id: "hammer_3", type: "hammer", inputChest: "minecraft:chest_7" },
             { id: "hammer_4", type: "hammer", inputChest: "minecraft:chest_8" },
-            { id: "hammer_5", type: "hammer", inputChest: "minecraft:chest_9" },
+            // hammer_5 only ever processes cobblestone (overrides: transferAmount, allowedItems,
+            // forbiddenItems, weightMultipliers - also per machine type under machineTypes)
+            { id: "hammer_5", type: "hammer", inputChest: "minecraft:chest_9", allowedItems: ["minecraft:cobblestone"] },
         ],
 
         // Recipes: what each hammer type can process
+        // (machines with several or chance-based outputs use
+        //  { input, inputCount, outputs: [{ itemId, count, chance }], processingSeconds })
         recipes: {
             hammer: [
                 { input: "minecraft:cobblestone", output: "minecraft:gravel" },
@@ -62,15 +79,42 @@ export const CONFIG: AppConfig = {
         },
 
         // What we want to produce and how urgently
+        // (production restarts below lowWater and runs until the target is reached again)
         stockTargets: [
-            { itemId: "minecraft:gravel", targetCount: 128 * STACK_SIZE, weight: 1, minReserve: 5 * STACK_SIZE },
-            { itemId: "minecraft:dirt", targetCount: 128 * STACK_SIZE, weight: 1, minReserve: 5 * STACK_SIZE },
-            { itemId: "minecraft:sand", targetCount: 128 * STACK_SIZE, weight: 1, minReserve: 5 * STACK_SIZE },
-            { itemId: "ftbstuff:dust", targetCount: 128 * STACK_SIZE, weight: 1, minReserve: 5 * STACK_SIZE },
+            {
+                itemId: "minecraft:gravel", targetCount: 128 * STACK_SIZE, weight: 1,
+                minReserve: 5 * STACK_SIZE, lowWater: 120 * STACK_SIZE,
+            },
+            {
+                itemId: "minecraft:dirt", targetCount: 128 * STACK_SIZE, weight: 1,
+                minReserve: 5 * STACK_SIZE, lowWater: 120 * STACK_SIZE,
+            },
+            {
+                itemId: "minecraft:sand", targetCount: 128 * STACK_SIZE, weight: 1,
+                minReserve: 5 * STACK_SIZE, lowWater: 120 * STACK_SIZE,
+            },
+            {
+                itemId: "ftbstuff:dust", targetCount: 128 * STACK_SIZE, weight: 1,
+                minReserve: 5 * STACK_SIZE, lowWater: 120 * STACK_SIZE,
+            },
         ],
 
         // Transfer 1 stack at a time
         transferAmount: STACK_SIZE,
+
+        // Plan the whole cobblestone -> dust chain: downstream shortages create demand upstream
+        planning: "chain",
+
+        // Scheduler chain in priority order (default: one stock-based stage), e.g. dust before the rest:
+        //  schedulers: [{ id: "dust", kind: "stock-based", items: ["ftbstuff:dust"] }, { id: "chain", kind: "stock-based" }]
+
+        // Top up hammers before they run dry (never more than 2 stacks buffered)
+        refillPolicies: {
+            hammer: { refillBelow: 16, maxBuffered: 2 * STACK_SIZE },
+        },
+
+        // Hammers that haven't consumed anything for 2 minutes (unpowered, output full) get no more input
+        stallDetection: { timeoutSeconds: 120, skipStalled: true },
     },
 
     // ============================================================
@@ -82,7 +126,8 @@ export const CONFIG: AppConfig = {
         // Machines (unearthers)
         machines: [
             { id: "archaeologist_1", type: "archaeologist", inputChest: "minecraft:chest_0" },
-            { id: "geologist_1", type: "geologist", inputChest: "minecraft:chest_1" },
+            // Speed upgrades: 4 stacks per transfer
+            { id: "geologist_1", type: "geologist", inputChest: "minecraft:chest_1", transferAmount: 4 * STACK_SIZE },
         ],
 
         // Material definitions
@@ -155,6 +200,7 @@ export const CONFIG: AppConfig = {
             archaeologist: {
                 id: "archaeologist",
                 supportedMaterials: ["dirt", "sand", "dust"],
+                transferAmount: 16,
             },
             geologist: {
                 id: "geologist",
@@ -169,5 +215,65 @@ export const CONFIG: AppConfig = {
 
         // Items per transfer
         transferAmount: 64,
+
+        // Every material gets its weight-proportional share (no random streaks)
+        selection: "round-robin",
+
+        // Feed plentiful materials more, scarce ones less (sqrt damps huge stocks, at most 4x the weight)
+        dynamicWeights: { curve: "sqrt", maxFactor: 4 },
+    },
+
+    // ============================================================
+    // TRIMMING - Hard stock caps (generators keep filling the controller)
+    // ============================================================
+    trimming: {
+        enabled: false,
+
+        caps: {
+            "minecraft:cobblestone": 512 * STACK_SIZE,
+            "minecraft:netherrack": 256 * STACK_SIZE,
+        },
+
+        // Never thrown away, whatever the caps say
+        protectedItems: ["ftbstuff:dust"],
+
+        // Trash can next to the controller
+        destination: "minecraft:chest_4",
+
+        // At most 4 stacks per item and cycle
+        batchSize: 4 * STACK_SIZE,
+    },
+
+    // ============================================================
+    // COLLECTION - Drain machine output chests into the material source
+    // ============================================================
+    collection: {
+        // Hammer and unearther outputs currently reach the storage via pipes
+        enabled: false,
+
+        // Drains the outputChest of every production/distribution machine that has one, e.g.
+        // { id: "hammer_1", type: "hammer", inputChest: "minecraft:chest_5", outputChest: "minecraft:chest_10" };
+        // machines: [...] lists extra machines no task feeds ({ id, type, inputChest, outputChest })
+    },
+
+    // ============================================================
+    // SORTING - Route unearther loot by rules (first match wins)
+    // ============================================================
+    sorting: {
+        enabled: false,
+
+        // Unearther output chests
+        inboxes: ["minecraft:chest_2", "minecraft:chest_3"],
+
+        rules: [
+            { id: "occultism", namespace: "occultism", destination: "minecraft:barrel_0" },
+            { id: "ores", tag: "c:ores", destination: "minecraft:barrel_1" },
+            // Enchanted books, named or damaged tools
+            { id: "nbt", hasNbt: true, destination: "minecraft:barrel_2" },
+        ],
+
+        // Everything else into the storage, full barrels as well
+        defaultDestination: "functionalstorage:storage_controller_0",
+        overflowDestination: "functionalstorage:storage_controller_0",
     },
 };
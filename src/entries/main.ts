@@ -1,17 +1,37 @@
 import { CONFIG } from "./config";
+import { validateAppConfig } from "./validate";
 import { Logger } from "@core/logger";
-import { validatePeripherals, retryMissingChests } from "@lib/peripheral/registry";
-import { getInventoryContents } from "@lib/inventory/scanner";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { validatePeripherals } from "@lib/peripheral/registry";
+import { PeripheralWatcher } from "@lib/peripheral/watcher";
+import { PeripheralHealthEntry, collectPeripheralHealth, summarizeHealth } from "@lib/peripheral/health";
+import { MachineConfig, MachineDiscoveryRule, SchedulingDecision } from "@lib/orchestrator/types";
+import { formatDecision, isIdleDecision, summarizeDecision } from "@lib/orchestrator/decisions";
+import { InventoryLedger } from "@lib/inventory/ledger";
 import { TaskRegistry } from "@lib/task/registry";
-import { TaskContext } from "@lib/task/types";
+import { TransferJournal, formatJournalEntry } from "@lib/transfer/journal";
+import { reconcileJournal, ReconcileFinding } from "@lib/transfer/reconcile";
+import { CommandConsole } from "@lib/console/console";
+import { RecipeDefinition } from "@lib/scheduler/stock-based";
+import { getExpectedOutputs, getProcessingSeconds, getRecipeOutputIds } from "@lib/scheduler/recipes";
+import { TaskContext, TaskSchedule } from "@lib/task/types";
 import { DashboardRenderer } from "@lib/dashboard/renderer";
 import { HeaderWidget } from "@lib/dashboard/widgets/header";
 import { StockTableWidget, StockEntry } from "@lib/dashboard/widgets/stock-table";
 import { MachineStatusWidget } from "@lib/dashboard/widgets/machine-status";
+import { RoutingStatsWidget } from "@lib/dashboard/widgets/routing-stats";
+import { MaterialWeightsWidget } from "@lib/dashboard/widgets/material-weights";
+import { IdleMachinesWidget } from "@lib/dashboard/widgets/idle-machines";
+import { PeripheralHealthWidget } from "@lib/dashboard/widgets/peripheral-health";
 import { ProductionTask } from "@apps/production/task";
 import { DistributionTask } from "@apps/distribution/task";
+import { CollectionTask } from "@apps/collection/task";
+import { SortingTask } from "@apps/sorting/task";
+import { TrimmingTask } from "@apps/trimming/task";
 import { ProductionState } from "@apps/production/types";
 import { DistributionState } from "@apps/distribution/types";
+import { CollectionState } from "@apps/collection/types";
+import { SortingState } from "@apps/sorting/types";
 
 /**
  * Main application entry point.
@@ -32,9 +52,24 @@ function main(): void {
 
     log.info("Boot sequence starting...");
 
-    // 2. Collect all chest names from task configs
+    // 2. Validate configuration (before any peripheral is touched)
+    const configReport = validateAppConfig(CONFIG);
+    configReport.write(log);
+    const configRes = configReport.toResult();
+    if (!configRes.ok) {
+        log.error("Invalid configuration, refusing to start", { code: configRes.code });
+        return;
+    }
+
+    // 3. Collect all chest names from task configs
     const chestNames: string[] = [];
 
+    // Machines of enabled tasks; the collection task drains the ones with an outputChest
+    const taskMachines: MachineConfig[] = [
+        ...(CONFIG.production.enabled ? CONFIG.production.machines : []),
+        ...(CONFIG.distribution.enabled ? CONFIG.distribution.machines : []),
+    ];
+
     if (CONFIG.production.enabled) {
         for (const machine of CONFIG.production.machines) {
             chestNames.push(machine.inputChest);
@@ -45,14 +80,35 @@ function main(): void {
             chestNames.push(machine.inputChest);
         }
     }
+    if (CONFIG.collection.enabled) {
+        for (const machine of [...taskMachines, ...(CONFIG.collection.machines ?? [])]) {
+            if (machine.outputChest) chestNames.push(machine.outputChest);
+        }
+    }
+    if (CONFIG.trimming.enabled) {
+        chestNames.push(CONFIG.trimming.destination);
+    }
+    if (CONFIG.sorting.enabled) {
+        chestNames.push(...sortingChestNames());
+    }
 
-    // 3. Validate peripherals
+    // Discovery rules of enabled tasks (matching chests become machines)
+    const discoveryRules: MachineDiscoveryRule[] = [];
+    if (CONFIG.production.enabled) {
+        discoveryRules.push(...(CONFIG.production.discover ?? []));
+    }
+    if (CONFIG.distribution.enabled) {
+        discoveryRules.push(...(CONFIG.distribution.discover ?? []));
+    }
+
+    // 4. Validate peripherals
     const peripheralsRes = validatePeripherals(
         {
             modemSide: CONFIG.peripherals.modem.name,
-            materialSourceName: CONFIG.peripherals.materialSource.name,
+            materialSources: CONFIG.peripherals.materialSources,
             monitorName: CONFIG.peripherals.monitor?.name,
             chestNames,
+            discoveryRules,
         },
         log,
     );
@@ -63,18 +119,38 @@ function main(): void {
     }
     const peripherals = peripheralsRes.value;
 
-    // 4. Create Dashboard if monitor available
+    // 5. Open the transfer journal and check transfers interrupted by the last shutdown
+    let journal: TransferJournal | undefined;
+    let reconcileFindings: ReconcileFinding[] = [];
+    if (CONFIG.system.journalFile) {
+        journal = new TransferJournal(CONFIG.system.journalFile, log, CONFIG.system.maxJournalLines);
+        reconcileFindings = reconcileJournal(journal, peripherals.materialSource, peripherals.machineChests, log);
+    }
+
+    // Recipe per input item, for the dashboard's production estimates (first recipe wins)
+    const productionRecipes = new Map<string, RecipeDefinition>();
+    for (const recipes of Object.values(CONFIG.production.recipes)) {
+        for (const recipe of recipes) {
+            if (!productionRecipes.has(recipe.input)) productionRecipes.set(recipe.input, recipe);
+        }
+    }
+
+    // 6. Create Dashboard if monitor available (or later, once a monitor is attached)
     let dashboard: DashboardRenderer | undefined;
     let headerWidget: HeaderWidget | undefined;
     let stockWidget: StockTableWidget | undefined;
     let productionMachineWidget: MachineStatusWidget | undefined;
     let distributionMachineWidget: MachineStatusWidget | undefined;
+    let routingWidget: RoutingStatsWidget | undefined;
+    let weightsWidget: MaterialWeightsWidget | undefined;
+    let idleWidget: IdleMachinesWidget | undefined;
+    let healthWidget: PeripheralHealthWidget | undefined;
 
-    if (peripherals.monitor) {
-        dashboard = new DashboardRenderer(peripherals.monitor);
+    const attachDashboard = (monitor: SafePeripheral<MonitorPeripheral>): void => {
+        dashboard = new DashboardRenderer(monitor);
 
         // Header widget
-        headerWidget = new HeaderWidget("Unearther Distribution System");
+        headerWidget = new HeaderWidget("Unearther Distribution System", CONFIG.system.dryRun ?? false);
         dashboard.addWidget(headerWidget);
 
         // Stock widget - build entries from production targets and distribution materials
@@ -89,6 +165,8 @@ function main(): void {
                     itemId: target.itemId,
                     minStock: target.targetCount,
                     isProductionOutput: true,
+                    lowWater: target.lowWater,
+                    highWater: target.highWater,
                 });
                 seenItemIds.add(target.itemId);
             }
@@ -127,152 +205,412 @@ function main(): void {
             dashboard.addWidget(distributionMachineWidget);
         }
 
+        // Stock-driven distribution weights
+        if (CONFIG.distribution.enabled && CONFIG.distribution.dynamicWeights) {
+            weightsWidget = new MaterialWeightsWidget(35);
+            dashboard.addWidget(weightsWidget);
+        }
+
+        // Idle machines and why the schedulers left them empty
+        if (CONFIG.production.enabled || CONFIG.distribution.enabled) {
+            idleWidget = new IdleMachinesWidget(38);
+            dashboard.addWidget(idleWidget);
+        }
+
+        // Sorting statistics
+        if (CONFIG.sorting.enabled) {
+            routingWidget = new RoutingStatsWidget(40);
+            dashboard.addWidget(routingWidget);
+        }
+
+        // Peripherals whose circuit breaker isn't healthy
+        healthWidget = new PeripheralHealthWidget(45);
+        dashboard.addWidget(healthWidget);
+
         log.info("Dashboard attached to monitor");
+    };
+
+    if (peripherals.monitor) {
+        attachDashboard(peripherals.monitor);
     }
 
-    // 5. Create TaskContext
+    // 7. Create TaskContext
     const taskContext: TaskContext = {
         peripherals,
         logger: log,
+        journal,
         systemConfig: {
             scanIntervalSeconds: CONFIG.system.scanIntervalSeconds,
             logLevel: CONFIG.system.logLevel,
+            dryRun: CONFIG.system.dryRun ?? false,
         },
     };
+    if (taskContext.systemConfig.dryRun) {
+        log.warn("Dry run enabled: assignments are planned and displayed, no items are moved");
+    }
 
-    // 6. Create TaskRegistry and register tasks
+    // 8. Create TaskRegistry and register tasks
     const taskRegistry = new TaskRegistry(log);
 
-    // Production before Distribution (ensure materials are processed first)
-    if (CONFIG.production.enabled) {
-        taskRegistry.register(new ProductionTask(), CONFIG.production);
-    }
-    if (CONFIG.distribution.enabled) {
-        taskRegistry.register(new DistributionTask(), CONFIG.distribution);
+    // Execution order comes from each task's phase and dependsOn, not from registration order;
+    // tasks without an own interval run every scanIntervalSeconds
+    const scheduleOf = (taskId: string): TaskSchedule =>
+        CONFIG.system.taskIntervals?.[taskId] ?? { intervalSeconds: CONFIG.system.scanIntervalSeconds };
+    const registrations = [
+        CONFIG.production.enabled
+            && taskRegistry.register(new ProductionTask(), CONFIG.production, scheduleOf("production")),
+        CONFIG.distribution.enabled
+            && taskRegistry.register(new DistributionTask(), CONFIG.distribution, scheduleOf("distribution")),
+        CONFIG.trimming.enabled
+            && taskRegistry.register(new TrimmingTask(), CONFIG.trimming, scheduleOf("trimming")),
+        CONFIG.collection.enabled
+            && taskRegistry.register(new CollectionTask(taskMachines), CONFIG.collection, scheduleOf("collection")),
+        CONFIG.sorting.enabled
+            && taskRegistry.register(new SortingTask(), CONFIG.sorting, scheduleOf("sorting")),
+    ];
+    if (registrations.some((res) => res && !res.ok)) {
+        log.error("Task registration failed, check task dependencies");
+        return;
     }
+    log.info("Task order", { order: taskRegistry.getExecutionOrder().join(" -> ") });
 
-    // 7. Print diagnostics and initialize
+    // 9. Print diagnostics and initialize
     taskRegistry.printDiagnostics();
     taskRegistry.init(taskContext);
 
+    // 10. Watch peripheral attach/detach events (replaces periodic chest polling)
+    const watcher = new PeripheralWatcher(
+        peripherals,
+        {
+            materialSourceNames: peripherals.materialSource.getNames(),
+            monitorName: CONFIG.peripherals.monitor?.name,
+            chestNames,
+            discoveryRules,
+        },
+        log,
+    );
+    watcher.onChange((event) => {
+        if (event.role === "monitor" && event.kind === "attach" && !dashboard && peripherals.monitor) {
+            attachDashboard(peripherals.monitor);
+        }
+        taskRegistry.notifyPeripheralChange(event);
+    });
+
     log.info("Configuration summary", {
         tasksRegistered: taskRegistry.getTaskCount(),
         tasksEnabled: taskRegistry.getEnabledTaskCount(),
         scanInterval: CONFIG.system.scanIntervalSeconds,
+        taskIntervals: Object.keys(CONFIG.system.taskIntervals ?? {}).join(", ") || "-",
     });
 
+    // 11. Diagnostics console (runs next to the main loop)
+    const commandConsole = new CommandConsole(log);
+    commandConsole.register("journal", "journal [n] - last n transfer journal entries", (args) =>
+        describeJournal(journal, reconcileFindings, tonumber(args[0]) ?? 10),
+    );
+    commandConsole.register("demand", "Open production demand per item (chain planning)", () =>
+        describeDemand(taskRegistry.getTaskStates().get("production") as ProductionState | undefined),
+    );
+    commandConsole.register("selection", "Material selection counters of the distribution", () =>
+        describeSelection(taskRegistry.getTaskStates().get("distribution") as DistributionState | undefined),
+    );
+    commandConsole.register("why", "why [machine] - why machines are idle, or one machine's last decision", (args) =>
+        describeDecisions(collectDecisions(taskRegistry.getTaskStates()), args[0]),
+    );
+    commandConsole.register("health", "Circuit breaker state and failure counters of all peripherals", () =>
+        describeHealth(collectPeripheralHealth(peripherals)),
+    );
+    commandConsole.register("output", "Items collected from machine output chests", () =>
+        describeCollection(taskRegistry.getTaskStates().get("collection") as CollectionState | undefined),
+    );
+
     print("");
     log.info("=== Starting main loop ===");
     print("");
 
-    // 8. Main loop
+    // 12. Main loop
     const startTime = os.epoch("utc");
     let cycleCount = 0;
 
-    while (true) {
-        const loopStart = os.epoch("utc");
-
-        // Get current inventory (fresh scan each cycle)
-        const inventoryRes = getInventoryContents(peripherals.materialSource);
-
-        if (!inventoryRes.ok) {
-            log.error("Failed to scan inventory", { code: inventoryRes.code });
-            sleep(CONFIG.system.scanIntervalSeconds);
-            continue;
-        }
-
-        // Run all tasks
-        taskRegistry.runCycle(inventoryRes.value);
-        cycleCount++;
-
-        // Periodically retry missing chests (every 12 cycles ~= 1 minute at 5s interval)
-        if (cycleCount % 12 === 0) {
-            retryMissingChests(peripherals.modem, chestNames, peripherals.machineChests, log);
-        }
+    const mainLoop = (): void => {
+        while (true) {
+            // Apply attach/detach events that arrived during the last cycle
+            watcher.processPending();
+
+            // Sleep until the next task is due (peripheral events are handled while waiting)
+            if (!taskRegistry.hasDueTasks()) {
+                const nextDue = taskRegistry.getNextDueTime();
+                watcher.sleep(nextDue !== undefined
+                    ? math.max(0.1, (nextDue - os.epoch("utc")) / 1000)
+                    : CONFIG.system.scanIntervalSeconds);
+                continue;
+            }
 
-        // Update dashboard (uses inventoryRes from cycle start, no rescan needed)
-        if (dashboard) {
-            headerWidget!.update(cycleCount, startTime);
-            stockWidget!.updateInventory(inventoryRes.value);
+            // Get current inventory (fresh scan of all material sources each cycle)
+            const inventoryRes = peripherals.materialSource.scan();
 
-            // Update production machine status + stock production info
-            const taskStates = taskRegistry.getTaskStates();
+            if (!inventoryRes.ok) {
+                log.error("Failed to scan inventory", { code: inventoryRes.code });
+                watcher.sleep(CONFIG.system.scanIntervalSeconds);
+                continue;
+            }
 
-            if (productionMachineWidget && CONFIG.production.enabled) {
-                const prodState = taskStates.get("production") as ProductionState | undefined;
-                productionMachineWidget.update(
-                    CONFIG.production.machines.map((m) => {
-                        const status = prodState?.machineStatus[m.id];
-                        return {
-                            id: m.id,
-                            isEmpty: status?.isEmpty ?? true,
-                            currentItem: status?.currentItem,
-                            currentCount: status?.currentCount,
-                        };
-                    }),
-                );
-
-                // Aggregate "in production": for each machine with items, find recipe output
-                const inProduction = new Map<string, number>();
-                const inputToOutput = new Map<string, string>();
-                for (const recipes of Object.values(CONFIG.production.recipes)) {
-                    for (const recipe of recipes) {
-                        inputToOutput.set(recipe.input, recipe.output);
+            // Run the due tasks against one shared ledger (transfers of earlier tasks are debited,
+            // phases with a requiresFreshInventory task start from a rescan)
+            const ledger = new InventoryLedger(inventoryRes.value);
+            taskRegistry.runCycle(ledger, () => peripherals.materialSource.scan());
+            cycleCount++;
+
+            // Update dashboard (uses the cycle ledger incl. this cycle's debits, no rescan needed)
+            if (dashboard) {
+                const stock = ledger.snapshot();
+                headerWidget!.update(cycleCount, startTime);
+                headerWidget!.updateTasks(taskRegistry.getTaskTimings());
+                stockWidget!.updateInventory(stock);
+
+                // Update production machine status + stock production info
+                const taskStates = taskRegistry.getTaskStates();
+
+                if (productionMachineWidget && CONFIG.production.enabled) {
+                    const prodState = taskStates.get("production") as ProductionState | undefined;
+                    productionMachineWidget.update(
+                        machineIdsOf(CONFIG.production.machines, prodState?.machineStatus).map((id) => {
+                            const status = prodState?.machineStatus[id];
+                            const recipe = status?.currentItem ? productionRecipes.get(status.currentItem) : undefined;
+                            return {
+                                id,
+                                isEmpty: status?.isEmpty ?? true,
+                                isOffline: status?.isOffline,
+                                isStalled: status?.isStalled,
+                                currentItem: status?.currentItem,
+                                currentCount: status?.currentCount,
+                                etaSeconds: recipe ? getProcessingSeconds(recipe, status?.currentCount ?? 0) : undefined,
+                                plannedItem: status?.plannedItem,
+                                plannedAmount: status?.plannedAmount,
+                            };
+                        }),
+                    );
+
+                    // Aggregate "in production": expected output of the items buffered in each machine
+                    const inProduction = new Map<string, number>();
+                    if (prodState) {
+                        for (const [, status] of Object.entries(prodState.machineStatus)) {
+                            const recipe = status.currentItem ? productionRecipes.get(status.currentItem) : undefined;
+                            if (!recipe) continue;
+
+                            for (const [outputItem, expected] of getExpectedOutputs(recipe, status.currentCount ?? 0)) {
+                                inProduction.set(outputItem, (inProduction.get(outputItem) ?? 0) + expected);
+                            }
+                        }
                     }
-                }
 
-                if (prodState) {
-                    for (const [, status] of Object.entries(prodState.machineStatus)) {
-                        if (status.currentItem) {
-                            const outputItem = inputToOutput.get(status.currentItem);
-                            if (outputItem) {
-                                const existing = inProduction.get(outputItem) ?? 0;
-                                inProduction.set(outputItem, existing + (status.currentCount ?? 0));
+                    // Determine blocked outputs: input below minReserve
+                    const blockedOutputs = new Set<string>();
+                    for (const recipes of Object.values(CONFIG.production.recipes)) {
+                        for (const recipe of recipes) {
+                            const inputTarget = CONFIG.production.stockTargets.find(
+                                (t) => t.itemId === recipe.input,
+                            );
+                            const reserve = inputTarget?.minReserve ?? 0;
+                            const inputInfo = stock.get(recipe.input);
+                            const inputCount = inputInfo?.totalCount ?? 0;
+                            if (inputCount < reserve) {
+                                for (const outputItem of getRecipeOutputIds(recipe)) {
+                                    blockedOutputs.add(outputItem);
+                                }
                             }
                         }
                     }
+
+                    stockWidget!.updateProductionStatus(inProduction, blockedOutputs);
+                    stockWidget!.updateBands(new Map(Object.entries(prodState?.bands ?? {})));
                 }
 
-                // Determine blocked outputs: input below minReserve
-                const blockedOutputs = new Set<string>();
-                for (const recipes of Object.values(CONFIG.production.recipes)) {
-                    for (const recipe of recipes) {
-                        const inputTarget = CONFIG.production.stockTargets.find(
-                            (t) => t.itemId === recipe.input,
-                        );
-                        const reserve = inputTarget?.minReserve ?? 0;
-                        const inputInfo = inventoryRes.value.get(recipe.input);
-                        const inputCount = inputInfo?.totalCount ?? 0;
-                        if (inputCount < reserve) {
-                            blockedOutputs.add(recipe.output);
-                        }
-                    }
+                if (distributionMachineWidget && CONFIG.distribution.enabled) {
+                    const distState = taskStates.get("distribution") as DistributionState | undefined;
+                    distributionMachineWidget.update(
+                        machineIdsOf(CONFIG.distribution.machines, distState?.machineStatus).map((id) => {
+                            const status = distState?.machineStatus[id];
+                            return {
+                                id,
+                                isEmpty: status?.isEmpty ?? true,
+                                isOffline: status?.isOffline,
+                                isStalled: status?.isStalled,
+                                plannedItem: status?.plannedItem,
+                                plannedAmount: status?.plannedAmount,
+                            };
+                        }),
+                    );
+
+                    weightsWidget?.update(
+                        Object.values(CONFIG.distribution.materials).map((m) => ({
+                            id: m.id,
+                            weight: m.weight,
+                            effectiveWeight: distState?.effectiveWeights[m.id] ?? m.weight,
+                        })),
+                    );
                 }
 
-                stockWidget!.updateProductionStatus(inProduction, blockedOutputs);
-            }
+                idleWidget?.update(collectDecisions(taskStates));
+                healthWidget?.update(collectPeripheralHealth(peripherals));
+
+                if (routingWidget && CONFIG.sorting.enabled) {
+                    const sortState = taskStates.get("sorting") as SortingState | undefined;
+                    routingWidget.update({
+                        rules: CONFIG.sorting.rules.map((r) => ({ id: r.id, count: sortState?.routedByRule[r.id] ?? 0 })),
+                        defaultCount: sortState?.routedDefault ?? 0,
+                        overflowCount: sortState?.routedOverflow ?? 0,
+                        unrouted: sortState?.unrouted ?? 0,
+                    });
+                }
 
-            if (distributionMachineWidget && CONFIG.distribution.enabled) {
-                const distState = taskStates.get("distribution") as DistributionState | undefined;
-                distributionMachineWidget.update(
-                    CONFIG.distribution.machines.map((m) => {
-                        const status = distState?.machineStatus[m.id];
-                        return {
-                            id: m.id,
-                            isEmpty: status?.isEmpty ?? true,
-                        };
-                    }),
-                );
+                dashboard.render();
             }
+        }
+    };
+
+    // craftos-types declares the function as "waitForany"; the CC API is waitForAny
+    const { waitForAny } = parallel as unknown as { waitForAny: (...fns: (() => void)[]) => void };
+    waitForAny(mainLoop, () => watcher.listen(), () => commandConsole.run());
+}
+
+/**
+ * Machine IDs for the dashboard: configured machines first (config order),
+ * then discovered machines from the task state (sorted).
+ */
+function machineIdsOf(configured: MachineConfig[], machineStatus?: Record<string, unknown>): string[] {
+    const ids = configured.map((m) => m.id);
+    const discovered = Object.keys(machineStatus ?? {}).filter((id) => !ids.includes(id));
+    discovered.sort();
+    return [...ids, ...discovered];
+}
+
+/**
+ * Sorting inboxes and destinations that aren't material sources (validated and watched like chests).
+ */
+function sortingChestNames(): string[] {
+    const sources = new Set(CONFIG.peripherals.materialSources.map((s) => s.name));
+    const names = [
+        ...CONFIG.sorting.inboxes,
+        ...CONFIG.sorting.rules.map((r) => r.destination),
+    ];
+    if (CONFIG.sorting.defaultDestination) names.push(CONFIG.sorting.defaultDestination);
+    if (CONFIG.sorting.overflowDestination) names.push(CONFIG.sorting.overflowDestination);
+
+    const unique: string[] = [];
+    for (const name of names) {
+        if (!sources.has(name) && !unique.includes(name)) unique.push(name);
+    }
+    return unique;
+}
 
-            dashboard.render();
+/**
+ * Output of the "journal" console command: open intents, the boot
+ * reconciliation and the newest entries.
+ */
+function describeJournal(
+    journal: TransferJournal | undefined,
+    findings: ReconcileFinding[],
+    count: number,
+): string[] {
+    if (!journal) return ["Transfer journal disabled (system.journalFile not set)"];
+
+    const lines = [`Open intents: ${journal.getOpenIntents().length}`];
+    if (findings.length > 0) {
+        lines.push("Reconciled at boot:");
+        for (const f of findings) {
+            lines.push(`  #${f.id} ${f.machineId} ${f.itemId}: ${f.status} `
+                + `(planned ${f.planned}, taken ${f.taken}, gained ${f.gained})`);
         }
+    }
+    lines.push(`Last ${count} entries:`);
+    for (const entry of journal.getRecent(count)) {
+        lines.push(`  ${formatJournalEntry(entry)}`);
+    }
+    return lines;
+}
+
+/**
+ * Output of the "selection" console command: selections per material and their share.
+ */
+function describeSelection(state: DistributionState | undefined): string[] {
+    if (!state) return ["Distribution task not running"];
+
+    let total = 0;
+    for (const counter of Object.values(state.selectionCounters)) total += counter.selected;
+
+    const lines = [`Strategy: ${CONFIG.distribution.selection ?? "random"}, ${total} selections`];
+    for (const [id, material] of Object.entries(CONFIG.distribution.materials)) {
+        const counter = state.selectionCounters[id];
+        const share = total > 0 ? math.floor((counter?.selected ?? 0) * 100 / total) : 0;
+        lines.push(`  ${id} (weight ${material.weight}): ${counter?.selected ?? 0} (${share}%), credit ${counter?.credit ?? 0}`);
+    }
+    return lines;
+}
+
+/**
+ * Output of the "output" console command: per-machine output counts.
+ */
+function describeCollection(state: CollectionState | undefined): string[] {
+    if (!state) return ["Collection task not running"];
+
+    const lines = [`Collected since start: ${state.totalCollected}`];
+    for (const [id, output] of Object.entries(state.machineOutput)) {
+        const status = output.isOffline ? " OFFLINE" : output.remaining > 0 ? ` (${output.remaining} left)` : "";
+        lines.push(`  ${id}: ${output.totalCollected} total, ${output.lastCollected} last cycle${status}`);
+    }
+    for (const [itemId, count] of Object.entries(state.collectedItems)) {
+        lines.push(`  ${itemId}: ${count}`);
+    }
+    return lines;
+}
+
+/**
+ * Latest scheduling decisions of production and distribution.
+ */
+function collectDecisions(taskStates: Map<string, unknown>): SchedulingDecision[] {
+    const prodState = taskStates.get("production") as ProductionState | undefined;
+    const distState = taskStates.get("distribution") as DistributionState | undefined;
+    return [...(prodState?.decisions ?? []), ...(distState?.decisions ?? [])];
+}
 
-        // Sleep until next cycle
-        const elapsed = (os.epoch("utc") - loopStart) / 1000;
-        const sleepTime = math.max(0.1, CONFIG.system.scanIntervalSeconds - elapsed);
-        sleep(sleepTime);
+/**
+ * Output of the "why" console command: idle machines with their reason,
+ * or every candidate of one machine's last decision.
+ */
+function describeDecisions(decisions: SchedulingDecision[], machineId: string | undefined): string[] {
+    if (machineId !== undefined) {
+        const decision = decisions.find((d) => d.machineId === machineId);
+        return decision ? formatDecision(decision) : [`No decision recorded for ${machineId}`];
     }
+
+    const idle = decisions.filter((d) => isIdleDecision(d));
+    if (idle.length === 0) return ["No idle machines"];
+    return idle.map((d) => `  ${d.machineId}: ${summarizeDecision(d)}`);
+}
+
+/**
+ * Output of the "health" console command: breaker state, failure counters and last error per peripheral.
+ */
+function describeHealth(entries: PeripheralHealthEntry[]): string[] {
+    return entries.map(({ name, role, health }) => {
+        const error = health.lastError !== undefined ? `, last error: ${health.lastError}` : "";
+        return `  ${name} (${role}): ${summarizeHealth(health)}, ${health.totalFailures} total${error}`;
+    });
+}
+
+/**
+ * Output of the "demand" console command: open chain demand, largest first.
+ */
+function describeDemand(state: ProductionState | undefined): string[] {
+    if (!state) return ["Production task not running"];
+    if (CONFIG.production.planning !== "chain") return ["Chain planning disabled (production.planning)"];
+
+    const entries = Object.entries(state.demand).filter(([, net]) => net > 0);
+    if (entries.length === 0) return ["No open demand, all targets met"];
+
+    entries.sort((a, b) => b[1] - a[1]);
+    return entries.map(([itemId, net]) => `  ${itemId}: ${math.ceil(net)}`);
 }
 
 // Run main
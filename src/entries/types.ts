@@ -1,6 +1,10 @@
-import { PeripheralConfig, Side } from "@lib/peripheral/types";
+import { MaterialSourceConfig, PeripheralConfig, Side } from "@lib/peripheral/types";
 import { ProductionConfig } from "@apps/production/types";
 import { DistributionConfig } from "@apps/distribution/types";
+import { CollectionConfig } from "@apps/collection/types";
+import { SortingConfig } from "@apps/sorting/types";
+import { TrimmingConfig } from "@apps/trimming/types";
+import { TaskSchedule } from "@lib/task/types";
 
 /**
  * System-level configuration.
@@ -10,6 +14,13 @@ export interface SystemConfig {
     logLevel: "debug" | "info" | "warn" | "error";
     logFile?: string;
     maxLogLines?: number;
+    /** Plan and display assignments without moving any items */
+    dryRun?: boolean;
+    /** Transfer journal file (crash recovery); journaling is off if not set */
+    journalFile?: string;
+    maxJournalLines?: number;
+    /** Run interval per task ID (default: every scanIntervalSeconds) */
+    taskIntervals?: Record<string, TaskSchedule>;
 }
 
 /**
@@ -17,7 +28,8 @@ export interface SystemConfig {
  */
 export interface GlobalPeripherals {
     modem: { name: Side; type: "modem" };
-    materialSource: PeripheralConfig;
+    /** Inventories merged into one logical material storage */
+    materialSources: MaterialSourceConfig[];
     monitor?: PeripheralConfig;
 }
 
@@ -29,4 +41,7 @@ export interface AppConfig {
     system: SystemConfig;
     production: ProductionConfig;
     distribution: DistributionConfig;
+    trimming: TrimmingConfig;
+    collection: CollectionConfig;
+    sorting: SortingConfig;
 }
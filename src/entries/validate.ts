@@ -0,0 +1,174 @@
+import { ConfigReport } from "@lib/config/report";
+import { checkNonNegative, checkPositive } from "@lib/config/checks";
+import { validateProductionConfig } from "@apps/production/validate";
+import { validateDistributionConfig } from "@apps/distribution/validate";
+import { validateCollectionConfig } from "@apps/collection/validate";
+import { validateSortingConfig } from "@apps/sorting/validate";
+import { validateTrimmingConfig } from "@apps/trimming/validate";
+import { MachineConfig } from "@lib/orchestrator/types";
+import { AppConfig } from "./types";
+
+/**
+ * A machine of some task with its config path (internal).
+ */
+interface LocatedMachine {
+    section: string;
+    path: string;
+    machine: MachineConfig;
+}
+
+/** Task IDs a taskIntervals entry can refer to */
+const TASK_IDS = ["production", "distribution", "trimming", "collection", "sorting"];
+
+/**
+ * Validate the complete app config before any peripheral is touched.
+ * Runs the per-task validators of enabled tasks plus cross-task checks
+ * (chests used twice, chests that are also material sources or the monitor).
+ */
+export function validateAppConfig(config: AppConfig): ConfigReport {
+    const report = new ConfigReport();
+
+    // System
+    checkPositive(report, "system", "scanIntervalSeconds", config.system.scanIntervalSeconds);
+    if (config.system.maxLogLines !== undefined) {
+        checkPositive(report, "system", "maxLogLines", config.system.maxLogLines);
+    }
+    if (config.system.maxJournalLines !== undefined) {
+        checkPositive(report, "system", "maxJournalLines", config.system.maxJournalLines);
+    }
+    if (config.system.journalFile !== undefined && config.system.journalFile === config.system.logFile) {
+        report.error("system", "journalFile", "must not be the log file");
+    }
+    for (const [taskId, schedule] of Object.entries(config.system.taskIntervals ?? {})) {
+        if (!TASK_IDS.includes(taskId)) {
+            report.warn("system", `taskIntervals.${taskId}`, "unknown task, entry is ignored");
+        }
+        checkPositive(report, "system", `taskIntervals.${taskId}.intervalSeconds`, schedule.intervalSeconds);
+        if (schedule.jitterSeconds !== undefined) {
+            checkNonNegative(report, "system", `taskIntervals.${taskId}.jitterSeconds`, schedule.jitterSeconds);
+        }
+    }
+
+    // Peripherals
+    const reserved = new Map<string, string>();
+    if (config.peripherals.materialSources.length === 0) {
+        report.error("peripherals", "materialSources", "at least one material source is required");
+    }
+    config.peripherals.materialSources.forEach((source, i) => {
+        const path = `materialSources[${i + 1}]`;
+        if (reserved.has(source.name)) {
+            report.error("peripherals", path, `"${source.name}" is listed twice`);
+        }
+        reserved.set(source.name, "material source");
+    });
+    if (config.peripherals.monitor) {
+        const name = config.peripherals.monitor.name;
+        if (reserved.has(name)) {
+            report.error("peripherals", "monitor", `"${name}" is already used as ${reserved.get(name)}`);
+        }
+        reserved.set(name, "monitor");
+    }
+
+    // Tasks
+    const seenRuleIds = new Set<string>();
+    const chestOwners = new Map<string, string>();
+    const checkChests = (section: string, machines: { id: string; inputChest: string }[]): void => {
+        machines.forEach((machine, i) => {
+            const path = `machines[${i + 1}]`;
+            const role = reserved.get(machine.inputChest);
+            if (role) {
+                report.error(section, path, `inputChest "${machine.inputChest}" is the ${role}`);
+            }
+            const owner = chestOwners.get(machine.inputChest);
+            if (owner) {
+                report.error(section, path, `inputChest "${machine.inputChest}" is already used by ${owner}`);
+            }
+            chestOwners.set(machine.inputChest, `${section} machine "${machine.id}"`);
+        });
+    };
+
+    if (config.production.enabled) {
+        validateProductionConfig(config.production, report, seenRuleIds);
+        checkChests("production", config.production.machines);
+    }
+    if (config.distribution.enabled) {
+        validateDistributionConfig(config.distribution, report, seenRuleIds);
+        checkChests("distribution", config.distribution.machines);
+    }
+    if (config.trimming.enabled) {
+        validateTrimmingConfig(config.trimming, report);
+
+        const destination = config.trimming.destination;
+        const role = reserved.get(destination);
+        if (role) {
+            report.error("trimming", "destination", `"${destination}" is the ${role}`);
+        }
+        const owner = chestOwners.get(destination);
+        if (owner) {
+            report.error("trimming", "destination", `"${destination}" is already used by ${owner}`);
+        }
+        // Collection output chests and sorting inboxes are checked against it below
+        chestOwners.set(destination, "trimming destination");
+
+        // A cap below a stock target trims what production just made
+        if (config.production.enabled) {
+            config.production.stockTargets.forEach((target, i) => {
+                if (config.trimming.protectedItems?.includes(target.itemId)) return;
+                const cap = config.trimming.caps[target.itemId] ?? config.trimming.defaultCap;
+                const highWater = target.highWater ?? target.targetCount;
+                if (cap !== undefined && cap < highWater) {
+                    const field = target.highWater !== undefined ? "highWater" : "targetCount";
+                    report.warn("trimming", `caps.${target.itemId}`,
+                        `cap ${cap} is below production stockTargets[${i + 1}].${field} ${highWater}`);
+                }
+            });
+        }
+    }
+    if (config.collection.enabled) {
+        // Machines of the other tasks are collected through their own outputChest
+        const located = (section: string, machines: MachineConfig[]): LocatedMachine[] =>
+            machines.map((machine, i) => ({ section, path: `machines[${i + 1}]`, machine }));
+        const taskMachines = [
+            ...(config.production.enabled ? located("production", config.production.machines) : []),
+            ...(config.distribution.enabled ? located("distribution", config.distribution.machines) : []),
+        ];
+
+        validateCollectionConfig(config.collection, report, taskMachines.map((m) => m.machine.id));
+        if (config.collection.targetSource !== undefined && reserved.get(config.collection.targetSource) !== "material source") {
+            report.error("collection", "targetSource", `"${config.collection.targetSource}" is not a material source`);
+        }
+
+        // Output chests are drained: they must not be another role's chest or a machine input
+        const outputMachines = [...taskMachines, ...located("collection", config.collection.machines ?? [])];
+        for (const { section, path, machine } of outputMachines) {
+            if (!machine.outputChest) continue;
+            const role = reserved.get(machine.outputChest);
+            if (role) {
+                report.error(section, `${path}.outputChest`, `"${machine.outputChest}" is the ${role}`);
+            }
+            const owner = chestOwners.get(machine.outputChest);
+            if (owner) {
+                report.error(section, `${path}.outputChest`, `"${machine.outputChest}" is already used by ${owner}`);
+            }
+            chestOwners.set(machine.outputChest, `${section} machine "${machine.id}"`);
+        }
+    }
+    if (config.sorting.enabled) {
+        validateSortingConfig(config.sorting, report);
+
+        // Inboxes are emptied: they must not be the material source or another task's chest
+        config.sorting.inboxes.forEach((inbox, i) => {
+            const path = `inboxes[${i + 1}]`;
+            const role = reserved.get(inbox);
+            if (role) {
+                report.error("sorting", path, `"${inbox}" is the ${role}`);
+            }
+            const owner = chestOwners.get(inbox);
+            if (owner) {
+                report.error("sorting", path, `"${inbox}" is already used by ${owner}`);
+            }
+        });
+    }
+
+    return report;
+}
@@ -0,0 +1,226 @@
+import { MachineConfig, MachineDiscoveryRule, MachineOverrides, RefillPolicy } from "@lib/orchestrator/types";
+import { SchedulerSources } from "@lib/scheduler/factory";
+import { SchedulerStageConfig } from "@lib/scheduler/types";
+import { ConfigReport } from "./report";
+
+/**
+ * Report an error unless value > 0.
+ */
+export function checkPositive(report: ConfigReport, section: string, path: string, value: number): void {
+    if (!(value > 0)) {
+        report.error(section, path, `must be greater than 0 (got ${tostring(value)})`);
+    }
+}
+
+/**
+ * Report an error if value < 0.
+ */
+export function checkNonNegative(report: ConfigReport, section: string, path: string, value: number): void {
+    if (!(value >= 0)) {
+        report.error(section, path, `must not be negative (got ${tostring(value)})`);
+    }
+}
+
+/**
+ * Check machine IDs, chest names and machine types of one task.
+ * Chests shared between tasks are checked by the caller (cross-task).
+ *
+ * @param knownTypes - Machine types the task has recipes/definitions for
+ * @param knownItems - Input item IDs the task schedules (for the machine overrides)
+ */
+export function checkMachines(
+    report: ConfigReport,
+    section: string,
+    machines: MachineConfig[],
+    knownTypes: string[],
+    knownItems: string[],
+): void {
+    const seenIds = new Set<string>();
+
+    machines.forEach((machine, i) => {
+        const path = `machines[${i + 1}]`;
+
+        if (machine.id === "") {
+            report.error(section, path, "machine ID is empty");
+        } else if (seenIds.has(machine.id)) {
+            report.error(section, path, `duplicate machine ID "${machine.id}"`);
+        }
+        seenIds.add(machine.id);
+
+        if (machine.inputChest === "") {
+            report.error(section, path, "inputChest is empty");
+        }
+        if (machine.outputChest === "") {
+            report.error(section, `${path}.outputChest`, "outputChest is empty");
+        } else if (machine.outputChest !== undefined && machine.outputChest === machine.inputChest) {
+            report.error(section, `${path}.outputChest`, "outputChest is the machine's inputChest");
+        }
+
+        if (!knownTypes.includes(machine.type)) {
+            report.error(section, path, `unknown machine type "${machine.type}"`);
+        }
+
+        checkOverrides(report, section, path, machine, knownItems);
+    });
+}
+
+/**
+ * Check machine or machine type overrides: positive transfer amount,
+ * known items and an allowed list that leaves something to feed.
+ */
+export function checkOverrides(
+    report: ConfigReport,
+    section: string,
+    path: string,
+    overrides: MachineOverrides,
+    knownItems: string[],
+): void {
+    if (overrides.transferAmount !== undefined) {
+        checkPositive(report, section, `${path}.transferAmount`, overrides.transferAmount);
+    }
+
+    const lists: [string, string[] | undefined][] = [
+        ["allowedItems", overrides.allowedItems],
+        ["forbiddenItems", overrides.forbiddenItems],
+        ["weightMultipliers", overrides.weightMultipliers ? Object.keys(overrides.weightMultipliers) : undefined],
+    ];
+    for (const [field, items] of lists) {
+        for (const itemId of items ?? []) {
+            if (!knownItems.includes(itemId)) {
+                report.warn(section, `${path}.${field}`, `"${itemId}" is never scheduled by this task`);
+            }
+        }
+    }
+
+    for (const [itemId, factor] of Object.entries(overrides.weightMultipliers ?? {})) {
+        checkNonNegative(report, section, `${path}.weightMultipliers.${itemId}`, factor);
+    }
+
+    const allowed = overrides.allowedItems?.filter((itemId) => !overrides.forbiddenItems?.includes(itemId));
+    if (allowed && allowed.length === 0) {
+        report.error(section, `${path}.allowedItems`, "no item left after forbiddenItems, the machine would never be fed");
+    }
+}
+
+/**
+ * Check discovery rules of one task.
+ * Rule IDs must be unique across tasks; pass the IDs seen so far in `seenRuleIds`.
+ */
+export function checkDiscoveryRules(
+    report: ConfigReport,
+    section: string,
+    rules: MachineDiscoveryRule[],
+    knownTypes: string[],
+    seenRuleIds: Set<string>,
+): void {
+    rules.forEach((rule, i) => {
+        const path = `discover[${i + 1}]`;
+
+        if (seenRuleIds.has(rule.id)) {
+            report.error(section, path, `duplicate discovery rule ID "${rule.id}"`);
+        }
+        seenRuleIds.add(rule.id);
+
+        if (!rule.namePattern && !rule.peripheralType && !rule.markerItem) {
+            report.error(section, path, `rule "${rule.id}" has no criteria and never matches`);
+        }
+
+        if (rule.markerName !== undefined && !rule.markerItem) {
+            report.error(section, path, `rule "${rule.id}" has a markerName but no markerItem`);
+        }
+
+        if (!knownTypes.includes(rule.type)) {
+            report.error(section, path, `unknown machine type "${rule.type}"`);
+        }
+    });
+}
+
+/**
+ * Check refill policies: known machine types, non-negative counts and consistent bounds.
+ */
+export function checkRefillPolicies(
+    report: ConfigReport,
+    section: string,
+    policies: Record<string, RefillPolicy>,
+    knownTypes: string[],
+): void {
+    for (const [type, policy] of Object.entries(policies)) {
+        const path = `refillPolicies.${type}`;
+
+        if (!knownTypes.includes(type)) {
+            report.error(section, path, `unknown machine type "${type}"`);
+        }
+        if (policy.refillBelow !== undefined) {
+            checkPositive(report, section, `${path}.refillBelow`, policy.refillBelow);
+        }
+        if (policy.minBuffered !== undefined) {
+            checkNonNegative(report, section, `${path}.minBuffered`, policy.minBuffered);
+        }
+        if (policy.maxBuffered === undefined) continue;
+
+        checkPositive(report, section, `${path}.maxBuffered`, policy.maxBuffered);
+        if (policy.minBuffered !== undefined && policy.minBuffered > policy.maxBuffered) {
+            report.error(section, path, "minBuffered is greater than maxBuffered");
+        }
+        if ((policy.refillBelow ?? 1) > policy.maxBuffered) {
+            report.warn(section, path, "refillBelow is greater than maxBuffered, chests are refilled until full");
+        }
+    }
+}
+
+/**
+ * Check a task's scheduler chain: unique stage IDs, known machine types, and that
+ * every stage has what its strategy needs (from the stage or the task config).
+ *
+ * @param defaults - Recipes, stock targets and materials of the task itself
+ */
+export function checkSchedulerStages(
+    report: ConfigReport,
+    section: string,
+    stages: SchedulerStageConfig[],
+    knownTypes: string[],
+    defaults: Pick<SchedulerSources, "recipes" | "stockTargets" | "materials">,
+): void {
+    if (stages.length === 0) {
+        report.error(section, "schedulers", "no scheduler stages, no machine would ever be refilled");
+    }
+
+    const seenIds = new Set<string>();
+    stages.forEach((stage, i) => {
+        const path = `schedulers[${i + 1}]`;
+
+        if (seenIds.has(stage.id)) {
+            report.error(section, path, `duplicate stage ID "${stage.id}"`);
+        }
+        seenIds.add(stage.id);
+
+        for (const type of stage.machineTypes ?? []) {
+            if (!knownTypes.includes(type)) {
+                report.error(section, `${path}.machineTypes`, `unknown machine type "${type}"`);
+            }
+        }
+
+        let items: string[];
+        if (stage.kind === "stock-based") {
+            if (Object.keys(stage.recipes ?? defaults.recipes ?? {}).length === 0) {
+                report.error(section, path, `stage "${stage.id}" is stock-based but has no recipes`);
+            }
+            items = (stage.stockTargets ?? defaults.stockTargets ?? []).map((t) => t.itemId);
+        } else if (stage.kind === "weighted") {
+            const materials = stage.materials ?? defaults.materials ?? {};
+            if (Object.keys(materials).length === 0) {
+                report.error(section, path, `stage "${stage.id}" is weighted but has no materials`);
+            }
+            items = Object.keys(materials);
+        } else {
+            report.error(section, `${path}.kind`, `unknown scheduler kind "${tostring(stage.kind)}"`);
+            return;
+        }
+
+        for (const item of stage.items ?? []) {
+            if (!items.includes(item)) {
+                report.error(section, `${path}.items`, `"${item}" is not a ${stage.kind === "weighted" ? "material" : "stock target"}`);
+            }
+        }
+    });
+}
@@ -0,0 +1,98 @@
+import { Result, ok, err } from "@core/result";
+import { Logger } from "@core/logger";
+
+/**
+ * Severity of a config issue.
+ * Errors refuse the boot, warnings are only reported.
+ */
+export type ConfigIssueSeverity = "error" | "warning";
+
+/**
+ * A single finding of the config validation.
+ */
+export interface ConfigIssue {
+    severity: ConfigIssueSeverity;
+    /** Config section the issue belongs to (e.g. "production", "peripherals") */
+    section: string;
+    /** Config path inside the section (e.g. "recipes.hammer[2]") */
+    path: string;
+    message: string;
+}
+
+/**
+ * Collects config issues from all validators and prints them grouped by section.
+ */
+export class ConfigReport {
+    private issues: ConfigIssue[] = [];
+
+    error(section: string, path: string, message: string): void {
+        this.issues.push({ severity: "error", section, path, message });
+    }
+
+    warn(section: string, path: string, message: string): void {
+        this.issues.push({ severity: "warning", section, path, message });
+    }
+
+    hasErrors(): boolean {
+        return this.getErrors().length > 0;
+    }
+
+    getErrors(): ConfigIssue[] {
+        return this.issues.filter((i) => i.severity === "error");
+    }
+
+    getWarnings(): ConfigIssue[] {
+        return this.issues.filter((i) => i.severity === "warning");
+    }
+
+    getIssues(): ConfigIssue[] {
+        return [...this.issues];
+    }
+
+    /**
+     * Write the report to the log: one block per section, errors before warnings.
+     * Nothing is written for a clean config except the summary line.
+     */
+    write(log: Logger): void {
+        const errors = this.getErrors().length;
+        const warnings = this.getWarnings().length;
+
+        if (errors === 0 && warnings === 0) {
+            log.info("Config check passed");
+            return;
+        }
+
+        const sections: string[] = [];
+        for (const issue of this.issues) {
+            if (!sections.includes(issue.section)) sections.push(issue.section);
+        }
+
+        log.info("Config check finished", { errors, warnings });
+        for (const section of sections) {
+            log.info(`[${section}]`);
+            for (const issue of this.issues) {
+                if (issue.section === section && issue.severity === "error") {
+                    log.error(`  ${issue.path}: ${issue.message}`);
+                }
+            }
+            for (const issue of this.issues) {
+                if (issue.section === section && issue.severity === "warning") {
+                    log.warn(`  ${issue.path}: ${issue.message}`);
+                }
+            }
+        }
+    }
+
+    /**
+     * ERR_CONFIG_INVALID if any error was reported.
+     */
+    toResult(): Result<ConfigReport> {
+        if (this.hasErrors()) {
+            return err("ERR_CONFIG_INVALID", {
+                errors: this.getErrors().length,
+                warnings: this.getWarnings().length,
+            });
+        }
+        return ok(this);
+    }
+}
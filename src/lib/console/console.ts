@@ -0,0 +1,79 @@
+import { Logger } from "@core/logger";
+
+/**
+ * Command handler: receives the words after the command name, returns the lines to print.
+ */
+export type CommandHandler = (args: string[]) => string[];
+
+interface Command {
+    description: string;
+    handler: CommandHandler;
+}
+
+/**
+ * Line-based diagnostics console on the computer's terminal.
+ *
+ * Commands are registered by the entry point; "help" is built in.
+ * run() blocks on read() and is meant to run next to the main loop
+ * (parallel.waitForAny).
+ */
+export class CommandConsole {
+    private commands = new Map<string, Command>();
+
+    constructor(private log: Logger) {
+        this.register("help", "List commands", () => this.help());
+    }
+
+    register(name: string, description: string, handler: CommandHandler): void {
+        this.commands.set(name, { description, handler });
+    }
+
+    /**
+     * Run one command line.
+     * A crashing handler is reported as output instead of ending the console.
+     *
+     * @returns Lines to print
+     */
+    execute(line: string): string[] {
+        const words = line.split(" ").filter((w) => w !== "");
+        if (words.length === 0) return [];
+
+        const [name, ...args] = words;
+        const command = this.commands.get(name);
+        if (!command) {
+            return [`Unknown command "${name}", try "help"`];
+        }
+
+        const [success, result] = pcall(() => command.handler(args));
+        if (!success) {
+            this.log.error("Console command crashed", { command: name, error: tostring(result) });
+            return [`Command "${name}" failed: ${tostring(result)}`];
+        }
+        return result;
+    }
+
+    /**
+     * Read and execute commands forever.
+     */
+    run(): void {
+        while (true) {
+            write("> ");
+            const line = read();
+            for (const output of this.execute(line ?? "")) {
+                print(output);
+            }
+        }
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private help(): string[] {
+        const lines: string[] = [];
+        for (const [name, command] of this.commands) {
+            lines.push(`${name} - ${command.description}`);
+        }
+        return lines;
+    }
+}
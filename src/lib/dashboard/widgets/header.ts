@@ -1,9 +1,12 @@
+import { TaskTiming } from "@lib/task/types";
 import { DashboardWidget } from "../types";
 
 // MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
 
 /**
- * Header widget showing system title, cycle count, and uptime.
+ * Header widget showing system title, cycle count, uptime and the last and
+ * next run of every task.
+ * In dry run a red banner makes clear that no items are moved.
  */
 export class HeaderWidget implements DashboardWidget {
     id = "header";
@@ -12,8 +15,9 @@ export class HeaderWidget implements DashboardWidget {
     private title: string;
     private cycleCount = 0;
     private startTime = 0;
+    private tasks: TaskTiming[] = [];
 
-    constructor(title: string) {
+    constructor(title: string, private dryRun = false) {
         this.title = title;
     }
 
@@ -23,21 +27,53 @@ export class HeaderWidget implements DashboardWidget {
         this.startTime = startTime;
     }
 
+    /** Update per-task run times before render */
+    updateTasks(tasks: TaskTiming[]): void {
+        this.tasks = tasks;
+    }
+
     render(monitor: MonitorPeripheral, y: number, _width: number): number {
         monitor.setTextColor(colors.yellow);
         monitor.setCursorPos(1, y);
         monitor.write(`=== ${this.title} ===`);
         y++;
 
+        if (this.dryRun) {
+            monitor.setTextColor(colors.red);
+            monitor.setCursorPos(1, y);
+            monitor.write("*** DRY RUN - no items are moved ***");
+            y++;
+        }
+
         monitor.setTextColor(colors.white);
         monitor.setCursorPos(1, y);
         const uptime = this.formatUptime(this.startTime);
         monitor.write(`Cycle: ${this.cycleCount} | Up: ${uptime}`);
-        y += 2;
+        y++;
+
+        const now = os.epoch("utc");
+        const idWidth = this.tasks.reduce((max, t) => math.max(max, t.id.length), 0);
+        monitor.setTextColor(colors.lightGray);
+        for (const task of this.tasks) {
+            const last = task.lastRun !== undefined ? `${this.formatSeconds(now - task.lastRun)} ago` : "-";
+            const next = task.nextRun > now ? `in ${this.formatSeconds(task.nextRun - now)}` : "now";
+            monitor.setCursorPos(1, y);
+            monitor.write(`${task.id}${string.rep(" ", idWidth - task.id.length)}  last ${last}, next ${next}`);
+            y++;
+        }
+        y++;
 
         return y;
     }
 
+    private formatSeconds(ms: number): string {
+        const seconds = math.ceil(ms / 1000);
+        if (seconds >= 60) {
+            return `${math.floor(seconds / 60)}m${seconds % 60}s`;
+        }
+        return `${seconds}s`;
+    }
+
     private formatUptime(startTime: number): string {
         const elapsed = math.floor((os.epoch("utc") - startTime) / 1000);
         const hours = math.floor(elapsed / 3600);
@@ -0,0 +1,56 @@
+import { DashboardWidget } from "../types";
+import { SchedulingDecision } from "@lib/orchestrator/types";
+import { isIdleDecision, summarizeDecision } from "@lib/orchestrator/decisions";
+
+// MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Idle machines widget: every machine that got nothing in the last cycle,
+ * with the scheduler's reason (details via the "why" console command).
+ */
+export class IdleMachinesWidget implements DashboardWidget {
+    id = "idle-machines";
+    order: number;
+
+    private decisions: SchedulingDecision[] = [];
+
+    constructor(order: number) {
+        this.order = order;
+    }
+
+    /** Update decisions of all schedulers before render */
+    update(decisions: SchedulingDecision[]): void {
+        this.decisions = decisions.filter((d) => isIdleDecision(d));
+    }
+
+    render(monitor: MonitorPeripheral, y: number, width: number): number {
+        monitor.setTextColor(colors.yellow);
+        monitor.setCursorPos(1, y);
+        monitor.write("--- Idle ---");
+        y++;
+
+        if (this.decisions.length === 0) {
+            monitor.setTextColor(colors.lightGray);
+            monitor.setCursorPos(1, y);
+            monitor.write("All machines busy");
+            y++;
+        }
+
+        for (const decision of this.decisions) {
+            const offline = decision.reason === "offline" || decision.reason === "stalled";
+            monitor.setTextColor(offline ? colors.red : colors.orange);
+            monitor.setCursorPos(1, y);
+            const line = `${this.padRight(decision.machineId, 20)} ${summarizeDecision(decision)}`;
+            monitor.write(string.sub(line, 1, width));
+            y++;
+        }
+
+        y++;
+        return y;
+    }
+
+    private padRight(s: string, width: number): string {
+        if (s.length >= width) return string.sub(s, 1, width);
+        return s + string.rep(" ", width - s.length);
+    }
+}
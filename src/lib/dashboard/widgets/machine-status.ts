@@ -10,10 +10,20 @@ export interface MachineDisplayStatus {
     id: string;
     /** Whether the machine's input is empty */
     isEmpty: boolean;
+    /** Whether the machine's chest is missing or its circuit breaker is open */
+    isOffline?: boolean;
+    /** Whether the machine hasn't consumed its input for the stall timeout */
+    isStalled?: boolean;
     /** Item currently in the chest (undefined if empty) */
     currentItem?: string;
     /** Count of items currently in the chest */
     currentCount?: number;
+    /** Estimated seconds until the buffered input is processed (recipes with processingSeconds) */
+    etaSeconds?: number;
+    /** Item planned for this machine in the last cycle (dry run) */
+    plannedItem?: string;
+    /** Amount planned for this machine in the last cycle (dry run) */
+    plannedAmount?: number;
 }
 
 /**
@@ -46,7 +56,14 @@ export class MachineStatusWidget implements DashboardWidget {
         for (const machine of this.machines) {
             monitor.setCursorPos(1, y);
 
-            if (machine.isEmpty) {
+            if (machine.isOffline) {
+                monitor.setTextColor(colors.red);
+                monitor.write(`${this.padRight(machine.id, 20)} OFFLINE`);
+            } else if (machine.isStalled) {
+                monitor.setTextColor(colors.orange);
+                const itemName = this.extractShortName(machine.currentItem ?? "unknown");
+                monitor.write(`${this.padRight(machine.id, 20)} STALLED ${itemName}`);
+            } else if (machine.isEmpty) {
                 monitor.setTextColor(colors.yellow);
                 monitor.write(`${this.padRight(machine.id, 20)} EMPTY`);
             } else {
@@ -54,6 +71,15 @@ export class MachineStatusWidget implements DashboardWidget {
                 const itemName = this.extractShortName(machine.currentItem ?? "unknown");
                 const countStr = machine.currentCount ? `${machine.currentCount}x ` : "";
                 monitor.write(`${this.padRight(machine.id, 20)} ${countStr}${itemName}`);
+                if (machine.etaSeconds !== undefined) {
+                    monitor.setTextColor(colors.lightGray);
+                    monitor.write(` ~${this.formatDuration(machine.etaSeconds)}`);
+                }
+            }
+
+            if (machine.plannedItem) {
+                monitor.setTextColor(colors.lightBlue);
+                monitor.write(` -> ${machine.plannedAmount ?? 0}x ${this.extractShortName(machine.plannedItem)}`);
             }
             y++;
         }
@@ -68,6 +94,13 @@ export class MachineStatusWidget implements DashboardWidget {
         return parts[1] ?? itemId;
     }
 
+    /** Short duration: "45s", "12m", "3h" */
+    private formatDuration(seconds: number): string {
+        if (seconds < 60) return `${math.ceil(seconds)}s`;
+        if (seconds < 3600) return `${math.ceil(seconds / 60)}m`;
+        return `${math.ceil(seconds / 3600)}h`;
+    }
+
     private padRight(s: string, width: number): string {
         if (s.length >= width) return string.sub(s, 1, width);
         return s + string.rep(" ", width - s.length);
@@ -0,0 +1,73 @@
+import { DashboardWidget } from "../types";
+
+// MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Weight of one distribution material for display.
+ */
+export interface MaterialWeightDisplay {
+    /** Material ID */
+    id: string;
+    /** Configured weight */
+    weight: number;
+    /** Weight used in the last cycle (stock-driven) */
+    effectiveWeight: number;
+}
+
+/**
+ * Material weights widget: configured vs. effective (stock-driven) weight per material.
+ *
+ * - Green: fed more than configured (plenty of stock)
+ * - Orange: fed less than configured (scarce)
+ * - Gray: weight 0 (fallback only)
+ */
+export class MaterialWeightsWidget implements DashboardWidget {
+    id = "material-weights";
+    order: number;
+
+    private materials: MaterialWeightDisplay[] = [];
+
+    constructor(order: number) {
+        this.order = order;
+    }
+
+    /** Update weights before render */
+    update(materials: MaterialWeightDisplay[]): void {
+        this.materials = materials;
+    }
+
+    render(monitor: MonitorPeripheral, y: number, _width: number): number {
+        monitor.setTextColor(colors.yellow);
+        monitor.setCursorPos(1, y);
+        monitor.write("--- Weights ---");
+        y++;
+
+        for (const material of this.materials) {
+            monitor.setCursorPos(1, y);
+            if (material.weight <= 0) {
+                monitor.setTextColor(colors.gray);
+            } else if (material.effectiveWeight > material.weight) {
+                monitor.setTextColor(colors.green);
+            } else if (material.effectiveWeight < material.weight) {
+                monitor.setTextColor(colors.orange);
+            } else {
+                monitor.setTextColor(colors.white);
+            }
+            monitor.write(`${this.padRight(material.id, 16)} ${material.weight} -> ${this.formatWeight(material.effectiveWeight)}`);
+            y++;
+        }
+
+        y++;
+        return y;
+    }
+
+    /** Two decimals: 1.5 -> "1.50" */
+    private formatWeight(weight: number): string {
+        return string.format("%.2f", weight);
+    }
+
+    private padRight(s: string, width: number): string {
+        if (s.length >= width) return string.sub(s, 1, width);
+        return s + string.rep(" ", width - s.length);
+    }
+}
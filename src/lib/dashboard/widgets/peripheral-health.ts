@@ -0,0 +1,54 @@
+import { DashboardWidget } from "../types";
+import { PeripheralHealthEntry, summarizeHealth } from "@lib/peripheral/health";
+
+// MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Peripheral health widget: every peripheral whose circuit breaker isn't
+ * healthy (details via the "health" console command).
+ */
+export class PeripheralHealthWidget implements DashboardWidget {
+    id = "peripheral-health";
+    order: number;
+
+    private entries: PeripheralHealthEntry[] = [];
+
+    constructor(order: number) {
+        this.order = order;
+    }
+
+    /** Update peripheral health before render */
+    update(entries: PeripheralHealthEntry[]): void {
+        this.entries = entries.filter((e) => e.health.state !== "healthy");
+    }
+
+    render(monitor: MonitorPeripheral, y: number, width: number): number {
+        monitor.setTextColor(colors.yellow);
+        monitor.setCursorPos(1, y);
+        monitor.write("--- Peripherals ---");
+        y++;
+
+        if (this.entries.length === 0) {
+            monitor.setTextColor(colors.lightGray);
+            monitor.setCursorPos(1, y);
+            monitor.write("All peripherals healthy");
+            y++;
+        }
+
+        for (const entry of this.entries) {
+            monitor.setTextColor(entry.health.state === "open" ? colors.red : colors.orange);
+            monitor.setCursorPos(1, y);
+            const line = `${this.padRight(entry.name, 20)} ${summarizeHealth(entry.health)}`;
+            monitor.write(string.sub(line, 1, width));
+            y++;
+        }
+
+        y++;
+        return y;
+    }
+
+    private padRight(s: string, width: number): string {
+        if (s.length >= width) return string.sub(s, 1, width);
+        return s + string.rep(" ", width - s.length);
+    }
+}
@@ -0,0 +1,72 @@
+import { DashboardWidget } from "../types";
+
+// MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Routing counters for display.
+ */
+export interface RoutingDisplayStats {
+    /** Items routed per rule ID (config order) */
+    rules: { id: string; count: number }[];
+    /** Items sent to the default destination */
+    defaultCount: number;
+    /** Items sent to the overflow destination */
+    overflowCount: number;
+    /** Items left in the inboxes after the last cycle */
+    unrouted: number;
+}
+
+/**
+ * Routing statistics widget: items routed per rule, default and overflow.
+ */
+export class RoutingStatsWidget implements DashboardWidget {
+    id = "routing-stats";
+    order: number;
+
+    private stats: RoutingDisplayStats = { rules: [], defaultCount: 0, overflowCount: 0, unrouted: 0 };
+
+    constructor(order: number) {
+        this.order = order;
+    }
+
+    /** Update routing counters before render */
+    update(stats: RoutingDisplayStats): void {
+        this.stats = stats;
+    }
+
+    render(monitor: MonitorPeripheral, y: number, _width: number): number {
+        monitor.setTextColor(colors.yellow);
+        monitor.setCursorPos(1, y);
+        monitor.write("--- Sorting ---");
+        y++;
+
+        monitor.setTextColor(colors.white);
+        for (const rule of this.stats.rules) {
+            y = this.writeRow(monitor, y, rule.id, rule.count);
+        }
+        monitor.setTextColor(colors.lightGray);
+        y = this.writeRow(monitor, y, "(default)", this.stats.defaultCount);
+
+        monitor.setTextColor(this.stats.overflowCount > 0 ? colors.orange : colors.lightGray);
+        y = this.writeRow(monitor, y, "(overflow)", this.stats.overflowCount);
+
+        if (this.stats.unrouted > 0) {
+            monitor.setTextColor(colors.red);
+            y = this.writeRow(monitor, y, "STUCK in inbox", this.stats.unrouted);
+        }
+
+        y++;
+        return y;
+    }
+
+    private writeRow(monitor: MonitorPeripheral, y: number, label: string, count: number): number {
+        monitor.setCursorPos(1, y);
+        monitor.write(`${this.padRight(label, 20)} ${count}`);
+        return y + 1;
+    }
+
+    private padRight(s: string, width: number): string {
+        if (s.length >= width) return string.sub(s, 1, width);
+        return s + string.rep(" ", width - s.length);
+    }
+}
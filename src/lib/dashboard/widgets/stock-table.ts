@@ -1,5 +1,6 @@
 import { DashboardWidget } from "../types";
 import { InventoryItemInfo } from "@lib/inventory/types";
+import { StockBand } from "@lib/scheduler/stock-based";
 
 // MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
 
@@ -15,18 +16,23 @@ export interface StockEntry {
     minStock: number;
     /** If true, uses 4-color production logic (green/yellow/red/white) */
     isProductionOutput?: boolean;
+    /** Hysteresis band of a production output (shown instead of min when set) */
+    lowWater?: number;
+    highWater?: number;
 }
 
 /**
  * Stock table widget showing material inventory levels.
  *
  * Production items use 4-color status:
- * - Green: target reached
+ * - Green: target reached (with hysteresis: band is satisfied)
  * - Yellow: actively being produced (items in hammer chests)
  * - Red: input below craftingMinimum (can't produce)
  * - White: idle, could produce
  *
  * Non-production items use simple red/white based on minStock.
+ * Items with a lowWater/highWater band show the band, where the stock is in it (LOW/MID/HIGH)
+ * and the tracked band state (producing/satisfied), which inside the band depends on history.
  */
 export class StockTableWidget implements DashboardWidget {
     id = "stock-table";
@@ -34,10 +40,12 @@ export class StockTableWidget implements DashboardWidget {
 
     private entries: StockEntry[] = [];
     private inventory = new Map<string, InventoryItemInfo>();
-    /** Map of output itemId -> count of items in hammer chests being processed into this output */
+    /** Map of output itemId -> expected output of the items in hammer chests (recipe yields applied) */
     private inProduction = new Map<string, number>();
     /** Set of output itemIds that are blocked (input below craftingMinimum) */
     private blockedOutputs = new Set<string>();
+    /** Hysteresis state per production output (from the scheduler) */
+    private bands = new Map<string, StockBand>();
 
     /** Set stock entries to display */
     setEntries(entries: StockEntry[]): void {
@@ -58,6 +66,11 @@ export class StockTableWidget implements DashboardWidget {
         this.blockedOutputs = blockedOutputs;
     }
 
+    /** Update hysteresis bands of production outputs */
+    updateBands(bands: Map<string, StockBand>): void {
+        this.bands = bands;
+    }
+
     render(monitor: MonitorPeripheral, y: number, _width: number): number {
         monitor.setTextColor(colors.yellow);
         monitor.setCursorPos(1, y);
@@ -78,8 +91,24 @@ export class StockTableWidget implements DashboardWidget {
 
             const name = this.shortenName(entry.name, 16);
             const countStr = this.formatNumber(count);
-            const minStr = this.formatNumber(entry.minStock);
-            monitor.write(`${name} ${countStr}  (min: ${minStr})`);
+            if (entry.lowWater !== undefined || entry.highWater !== undefined) {
+                const low = entry.lowWater ?? entry.minStock;
+                const high = entry.highWater ?? entry.minStock;
+                const position = count < low ? "LOW" : count >= high ? "HIGH" : "MID";
+                const band = this.bands.get(entry.itemId);
+                const state = band !== undefined ? ` ${band}` : "";
+                monitor.write(`${name} ${countStr}  (${this.formatNumber(low)}-${this.formatNumber(high)}) ${position}${state}`);
+            } else {
+                const minStr = this.formatNumber(entry.minStock);
+                monitor.write(`${name} ${countStr}  (min: ${minStr})`);
+            }
+
+            // Projection: expected output of the items buffered in machines
+            const producing = entry.isProductionOutput ? this.inProduction.get(entry.itemId) ?? 0 : 0;
+            if (producing > 0) {
+                monitor.setTextColor(colors.lightGray);
+                monitor.write(` +${math.ceil(producing)}`);
+            }
             y++;
         }
 
@@ -89,8 +118,9 @@ export class StockTableWidget implements DashboardWidget {
 
     /** Determine color for a production output item */
     private getProductionColor(entry: StockEntry, count: number): number {
-        // Green: target reached
-        if (count >= entry.minStock) {
+        // Green: target reached (hysteresis: satisfied until the stock drops below lowWater)
+        const band = this.bands.get(entry.itemId);
+        if (band !== undefined ? band === "satisfied" : count >= entry.minStock) {
             return colors.green;
         }
         // Yellow: items in hammer chests being processed into this material
@@ -0,0 +1,201 @@
+import { Result, ok, err } from "@core/result";
+import { InventoryItemInfo, Reservation, SlotInfo } from "./types";
+
+/**
+ * Cycle-scoped inventory ledger.
+ *
+ * Created once per main loop cycle from a fresh scan and shared by all tasks.
+ * Tasks read through the ledger and debit what they actually moved, so a
+ * transfer made by one task is visible to the next one without a rescan.
+ *
+ * Reservations let a task claim items before executing a transfer:
+ * reserved items are excluded from snapshot() and getAvailable() until the
+ * reservation is committed (debited) or released.
+ *
+ * Slots are identified by (source, slot): with a composite material source
+ * the same slot number exists once per member inventory.
+ */
+export class InventoryLedger {
+    private items = new Map<string, InventoryItemInfo>();
+    private reservations = new Map<number, Reservation>();
+    private nextReservationId = 1;
+
+    constructor(scan: Map<string, InventoryItemInfo>) {
+        this.rebase(scan);
+    }
+
+    /**
+     * Replace the stock with a fresh scan (mid-cycle rescan).
+     * Debits are dropped - the scan already reflects the moved items.
+     * Only call between tasks, when no reservations are open.
+     */
+    rebase(scan: Map<string, InventoryItemInfo>): void {
+        this.items = new Map();
+        for (const [itemId, info] of scan) {
+            this.items.set(itemId, {
+                totalCount: info.totalCount,
+                slots: info.slots.map((s: SlotInfo) => ({ slot: s.slot, count: s.count, source: s.source })),
+            });
+        }
+    }
+
+    /**
+     * Total count of an item after debits (reservations NOT subtracted).
+     */
+    getTotal(itemId: string): number {
+        return this.items.get(itemId)?.totalCount ?? 0;
+    }
+
+    /**
+     * Count of an item that is neither debited nor reserved.
+     */
+    getAvailable(itemId: string): number {
+        let reserved = 0;
+        for (const [, r] of this.reservations) {
+            if (r.itemId === itemId) reserved += r.amount;
+        }
+        return math.max(0, this.getTotal(itemId) - reserved);
+    }
+
+    /**
+     * Deep copy of the currently available inventory (debits and reservations applied).
+     * Safe to mutate - schedulers use this as their local planning copy.
+     */
+    snapshot(): Map<string, InventoryItemInfo> {
+        const result = new Map<string, InventoryItemInfo>();
+
+        for (const [itemId, info] of this.items) {
+            const slots: SlotInfo[] = [];
+            let totalCount = 0;
+
+            for (const s of info.slots) {
+                const count = s.count - this.getReservedInSlot(itemId, s.slot, s.source);
+                if (count <= 0) continue;
+                slots.push({ slot: s.slot, count, source: s.source });
+                totalCount += count;
+            }
+
+            if (totalCount > 0) {
+                result.set(itemId, { totalCount, slots });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Claim items in a specific slot.
+     * Fails with ERR_INSUFFICIENT_STOCK if the slot doesn't hold enough unreserved items.
+     *
+     * @param source - Peripheral holding the slot (composite material source)
+     */
+    reserve(owner: string, itemId: string, slot: number, amount: number, source?: string): Result<Reservation> {
+        const slotInfo = this.findSlot(itemId, slot, source);
+        const free = (slotInfo?.count ?? 0) - this.getReservedInSlot(itemId, slot, source);
+
+        if (free <= 0) {
+            return err("ERR_INSUFFICIENT_STOCK", { itemId, slot, source, requested: amount, free: 0 });
+        }
+
+        const reservation: Reservation = {
+            id: this.nextReservationId++,
+            owner,
+            itemId,
+            slot,
+            source,
+            amount: math.min(amount, free),
+        };
+        this.reservations.set(reservation.id, reservation);
+        return ok(reservation);
+    }
+
+    /**
+     * Finish a reservation: debit the amount that was actually moved and drop the claim.
+     */
+    commit(reservation: Reservation, actualAmount: number): void {
+        this.reservations.delete(reservation.id);
+        this.debit(reservation.itemId, reservation.slot, actualAmount, reservation.source);
+    }
+
+    /**
+     * Drop a reservation without debiting anything (e.g. transfer failed).
+     */
+    release(reservation: Reservation): void {
+        this.reservations.delete(reservation.id);
+    }
+
+    /**
+     * Drop all reservations held by an owner.
+     *
+     * @returns Number of released reservations
+     */
+    releaseAll(owner: string): number {
+        let released = 0;
+        for (const [id, r] of this.reservations) {
+            if (r.owner === owner) {
+                this.reservations.delete(id);
+                released++;
+            }
+        }
+        return released;
+    }
+
+    /**
+     * Remove items that left the inventory.
+     * Empty slots and items are dropped from the ledger.
+     */
+    debit(itemId: string, slot: number, amount: number, source?: string): void {
+        if (amount <= 0) return;
+
+        const info = this.items.get(itemId);
+        if (!info) return;
+
+        const slotInfo = info.slots.find((s: SlotInfo) => s.slot === slot && s.source === source);
+        if (!slotInfo) return;
+
+        const taken = math.min(amount, slotInfo.count);
+        slotInfo.count -= taken;
+        info.totalCount -= taken;
+
+        if (slotInfo.count <= 0) {
+            info.slots = info.slots.filter((s: SlotInfo) => s !== slotInfo);
+        }
+        if (info.totalCount <= 0) {
+            this.items.delete(itemId);
+        }
+    }
+
+    /**
+     * Count of an item in one slot after debits (reservations NOT subtracted).
+     */
+    getSlotCount(itemId: string, slot: number, source?: string): number {
+        return this.findSlot(itemId, slot, source)?.count ?? 0;
+    }
+
+    /**
+     * Active reservations (for diagnostics).
+     */
+    getReservations(): Reservation[] {
+        const result: Reservation[] = [];
+        for (const [, r] of this.reservations) {
+            result.push(r);
+        }
+        return result;
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private findSlot(itemId: string, slot: number, source?: string): SlotInfo | undefined {
+        return this.items.get(itemId)?.slots.find((s: SlotInfo) => s.slot === slot && s.source === source);
+    }
+
+    private getReservedInSlot(itemId: string, slot: number, source?: string): number {
+        let reserved = 0;
+        for (const [, r] of this.reservations) {
+            if (r.itemId === itemId && r.slot === slot && r.source === source) reserved += r.amount;
+        }
+        return reserved;
+    }
+}
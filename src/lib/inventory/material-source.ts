@@ -0,0 +1,116 @@
+import { Result, ok, err } from "@core/result";
+import { Logger } from "@core/logger";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { getInventoryContents } from "./scanner";
+import { InventoryItemInfo } from "./types";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * A single inventory that is part of the material source.
+ */
+export interface MaterialSourceMember {
+    peripheral: SafePeripheral<InventoryPeripheral>;
+    /** Higher priority is listed (and therefore drained) first */
+    priority: number;
+}
+
+/**
+ * Composite material source: several inventories seen as one logical storage.
+ *
+ * scan() merges all members into one itemId -> InventoryItemInfo map.
+ * Every slot remembers the peripheral it lives in (SlotInfo.source), so
+ * transfers can be routed back to the right inventory via get().
+ *
+ * Slots are ordered by member priority, so schedulers that take the first
+ * matching slot drain high-priority sources (e.g. an overflow chest) first.
+ */
+export class MaterialSource {
+    private readonly members: MaterialSourceMember[];
+
+    constructor(
+        members: MaterialSourceMember[],
+        private readonly log: Logger,
+    ) {
+        // Stable by config order for equal priorities (table.sort is not stable)
+        const indexed = members.map((member, index) => ({ member, index }));
+        indexed.sort((a, b) => {
+            if (a.member.priority !== b.member.priority) {
+                return b.member.priority - a.member.priority;
+            }
+            return a.index - b.index;
+        });
+        this.members = indexed.map((entry) => entry.member);
+    }
+
+    /**
+     * Scan all members and merge their contents.
+     * Unreachable members are skipped; fails only if no member could be scanned.
+     */
+    scan(): Result<Map<string, InventoryItemInfo>> {
+        const contents = new Map<string, InventoryItemInfo>();
+        const failed: string[] = [];
+
+        for (const member of this.members) {
+            const name = member.peripheral.getName();
+            const scanRes = getInventoryContents(member.peripheral);
+            if (!scanRes.ok) {
+                failed.push(name);
+                continue;
+            }
+
+            for (const [itemId, info] of scanRes.value) {
+                let merged = contents.get(itemId);
+                if (!merged) {
+                    merged = { totalCount: 0, slots: [] };
+                    contents.set(itemId, merged);
+                }
+                merged.totalCount += info.totalCount;
+                for (const s of info.slots) {
+                    merged.slots.push({ slot: s.slot, count: s.count, source: name });
+                }
+            }
+        }
+
+        if (failed.length === this.members.length) {
+            return err("ERR_SCAN_FAILED", { sources: failed });
+        }
+        if (failed.length > 0) {
+            this.log.debug("Material source partially scanned", { failed });
+        }
+
+        return ok(contents);
+    }
+
+    /**
+     * Member by peripheral name.
+     * Without a name the highest-priority member is returned (single-source setups).
+     */
+    get(name?: string): SafePeripheral<InventoryPeripheral> | undefined {
+        if (name === undefined) {
+            return this.members[0]?.peripheral;
+        }
+        return this.members.find((m) => m.peripheral.getName() === name)?.peripheral;
+    }
+
+    /**
+     * Member peripherals in priority order.
+     */
+    getMembers(): SafePeripheral<InventoryPeripheral>[] {
+        return this.members.map((m) => m.peripheral);
+    }
+
+    /**
+     * Member names in priority order.
+     */
+    getNames(): string[] {
+        return this.members.map((m) => m.peripheral.getName());
+    }
+
+    /**
+     * Whether a peripheral name belongs to this material source.
+     */
+    has(name: string): boolean {
+        return this.get(name) !== undefined;
+    }
+}
@@ -1,6 +1,6 @@
 import { Result, ok, err } from "@core/result";
 import { SafePeripheral } from "@core/safe-peripheral";
-import { InventoryItemInfo } from "./types";
+import { InventoryItemInfo, SlotItem } from "./types";
 
 // Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
 
@@ -41,6 +41,55 @@ export function getInventoryContents(
     return ok(contents);
 }
 
+/**
+ * List occupied slots in slot order, keeping the NBT hash that
+ * getInventoryContents() drops (stacks of one item ID may differ in NBT).
+ *
+ * Calls ensureConnected() before reading.
+ */
+export function listSlots(
+    inv: SafePeripheral<InventoryPeripheral>,
+): Result<SlotItem[]> {
+    inv.ensureConnected();
+    const items = inv.call((p) => p.list(), undefined);
+
+    if (!items) {
+        return err("ERR_SCAN_FAILED");
+    }
+
+    const slots: SlotItem[] = [];
+    for (const [slot, item] of pairs(items)) {
+        if (item && item.name && item.count > 0) {
+            slots.push({ slot: slot as number, name: item.name, count: item.count, nbt: item.nbt });
+        }
+    }
+    slots.sort((a, b) => a.slot - b.slot);
+
+    return ok(slots);
+}
+
+/**
+ * Get the tags of the item in a slot (getItemDetail).
+ * Does NOT call ensureConnected() - caller must do this.
+ */
+export function getItemTags(
+    inv: SafePeripheral<InventoryPeripheral>,
+    slot: number,
+): Result<string[]> {
+    const detail = inv.call((p) => p.getItemDetail(slot), undefined);
+
+    if (!detail) {
+        return err("ERR_SCAN_FAILED", { slot });
+    }
+
+    // CC reports tags as a set ({ ["c:ores"] = true }), not the array craftos-types declares
+    const tags: string[] = [];
+    for (const [tag] of pairs((detail.tags ?? {}) as LuaTable<string, boolean>)) {
+        tags.push(tag);
+    }
+    return ok(tags);
+}
+
 /**
  * Check if an inventory is empty.
  * Does NOT call ensureConnected() - caller must do this.
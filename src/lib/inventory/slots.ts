@@ -0,0 +1,29 @@
+import { InventoryItemInfo, SlotInfo } from "./types";
+
+/**
+ * Take up to `amount` items of one item type from a (local planning) inventory entry.
+ * Walks the slots in order - for a MaterialSource scan that is priority order -
+ * and assembles the amount across partial stacks.
+ *
+ * Mutates `info`: slot counts and totalCount are reduced, emptied slots removed.
+ *
+ * @returns Slots with the count taken from each (sum may be below amount if stock runs out)
+ */
+export function takeSlots(info: InventoryItemInfo, amount: number): SlotInfo[] {
+    const taken: SlotInfo[] = [];
+    let remaining = amount;
+
+    for (const slotInfo of info.slots) {
+        if (remaining <= 0) break;
+        const count = math.min(remaining, slotInfo.count);
+        if (count <= 0) continue;
+
+        taken.push({ slot: slotInfo.slot, count, source: slotInfo.source });
+        slotInfo.count -= count;
+        info.totalCount -= count;
+        remaining -= count;
+    }
+
+    info.slots = info.slots.filter((s: SlotInfo) => s.count > 0);
+    return taken;
+}
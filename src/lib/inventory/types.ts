@@ -2,6 +2,18 @@
 export interface SlotInfo {
     slot: number;
     count: number;
+    /** Peripheral holding the slot (set by MaterialSource; undefined = single inventory) */
+    source?: string;
+}
+
+/** Contents of a single inventory slot (as returned by list()) */
+export interface SlotItem {
+    slot: number;
+    /** Item ID */
+    name: string;
+    count: number;
+    /** NBT hash (undefined = no NBT) */
+    nbt?: string;
 }
 
 /**
@@ -14,3 +26,22 @@ export interface InventoryItemInfo {
     /** Slots containing this item, with per-slot count */
     slots: SlotInfo[];
 }
+
+/**
+ * A claim on items in the inventory ledger.
+ * Reserved items are hidden from other readers until committed or released.
+ */
+export interface Reservation {
+    /** Ledger-unique reservation ID */
+    id: number;
+    /** Who made the reservation (usually a task ID) */
+    owner: string;
+    /** Minecraft item ID */
+    itemId: string;
+    /** Source slot the items are claimed from */
+    slot: number;
+    /** Peripheral holding the slot (composite material source) */
+    source?: string;
+    /** Number of items claimed */
+    amount: number;
+}
@@ -0,0 +1,72 @@
+import { DecisionReason, SchedulingDecision } from "./types";
+
+const REASON_TEXT: Record<DecisionReason, string> = {
+    offline: "input chest offline",
+    stalled: "stalled, input not consumed",
+    no_refill_needed: "input chest doesn't need a refill",
+    no_inventory: "material source scan failed",
+    unknown_machine_type: "unknown machine type (no recipes/materials)",
+    no_refill_amount: "no room below maxBuffered",
+    no_viable_candidate: "no viable candidate",
+    not_current_item: "chest holds a different item",
+    no_stock_target: "no stock target",
+    zero_urgency: "no demand (target met)",
+    out_of_stock: "not in stock",
+    below_min_reserve: "input below minReserve",
+    below_min_stock: "stock below minStock",
+    below_input_count: "refill amount below inputCount",
+    not_allowed: "excluded by machine overrides",
+    not_selected: "another candidate was chosen",
+};
+
+/**
+ * Human-readable text of a decision reason.
+ */
+export function describeReason(reason: DecisionReason): string {
+    return REASON_TEXT[reason];
+}
+
+/**
+ * Whether a machine got nothing this cycle although it could take input.
+ */
+export function isIdleDecision(decision: SchedulingDecision): boolean {
+    return decision.assignedItem === undefined
+        && decision.reason !== undefined
+        && decision.reason !== "no_refill_needed";
+}
+
+/**
+ * One-line summary: what was assigned, or why nothing was.
+ * For "no viable candidate" the rejection of the best-scored candidate is named
+ * (candidates for other items than the one in the chest are skipped).
+ */
+export function summarizeDecision(decision: SchedulingDecision): string {
+    if (decision.assignedItem !== undefined) {
+        return `assigned ${decision.assignedAmount ?? 0}x ${decision.assignedItem}`;
+    }
+    if (decision.reason === undefined) return "no decision";
+    if (decision.reason !== "no_viable_candidate") return describeReason(decision.reason);
+
+    const considered = decision.candidates.filter((c) => c.rejected !== "not_current_item");
+    let best = considered[0];
+    for (const candidate of considered) {
+        if (candidate.score > best.score) best = candidate;
+    }
+    if (!best?.rejected) return describeReason(decision.reason);
+    const detail = best.detail ? ` (${best.detail})` : "";
+    return `${best.label}: ${describeReason(best.rejected)}${detail}`;
+}
+
+/**
+ * Full decision record: summary plus every candidate with score and rejection.
+ */
+export function formatDecision(decision: SchedulingDecision): string[] {
+    const lines = [`${decision.machineId}: ${summarizeDecision(decision)}`];
+    for (const candidate of decision.candidates) {
+        const score = string.format("%.2f", candidate.score);
+        const outcome = candidate.rejected ? describeReason(candidate.rejected) : "ASSIGNED";
+        const detail = candidate.detail ? ` (${candidate.detail})` : "";
+        lines.push(`  ${candidate.label} [${score}]: ${outcome}${detail}`);
+    }
+    return lines;
+}
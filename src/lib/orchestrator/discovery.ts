@@ -0,0 +1,64 @@
+import { MachineConfig, MachineDiscoveryRule } from "./types";
+
+/**
+ * Create the machine config for a chest found by a discovery rule.
+ * "minecraft:chest_12" with rule "hammer_auto" -> "hammer_auto_chest_12",
+ * with `fullName` -> "hammer_auto_minecraft_chest_12".
+ */
+export function createDiscoveredMachine(rule: MachineDiscoveryRule, chestName: string, fullName = false): MachineConfig {
+    const parts = chestName.split(":");
+    const suffix = fullName ? parts.join("_") : parts[parts.length - 1];
+    return {
+        id: `${rule.id}_${suffix}`,
+        type: rule.type,
+        inputChest: chestName,
+        markerItem: rule.markerItem,
+    };
+}
+
+/**
+ * Add the machine for a discovered chest to `machines`.
+ * A machine whose short ID is taken (same chest name in another namespace,
+ * or a configured machine) gets an ID from the full chest name.
+ *
+ * @returns The added machine, undefined if the rule is not ours or the chest already has a machine
+ */
+export function addDiscoveredMachine(
+    machines: MachineConfig[],
+    rules: MachineDiscoveryRule[] | undefined,
+    chestName: string,
+    ruleId: string,
+): MachineConfig | undefined {
+    const rule = rules?.find((r) => r.id === ruleId);
+    if (!rule) return undefined;
+    if (machines.some((m) => m.inputChest === chestName)) return undefined;
+
+    const short = createDiscoveredMachine(rule, chestName);
+    const taken = machines.some((m) => m.id === short.id);
+    const machine = taken ? createDiscoveredMachine(rule, chestName, true) : short;
+    machines.push(machine);
+    return machine;
+}
+
+/**
+ * Combine configured machines with machines for discovered chests
+ * (unique IDs, see addDiscoveredMachine).
+ *
+ * @param machines - Statically configured machines
+ * @param rules - The task's discovery rules
+ * @param discoveredChests - Chest name -> matching rule ID (from peripheral validation)
+ */
+export function resolveMachines(
+    machines: MachineConfig[],
+    rules: MachineDiscoveryRule[] | undefined,
+    discoveredChests: Map<string, string>,
+): MachineConfig[] {
+    const resolved = [...machines];
+    if (!rules || rules.length === 0) return resolved;
+
+    for (const [chestName, ruleId] of discoveredChests) {
+        addDiscoveredMachine(resolved, rules, chestName, ruleId);
+    }
+
+    return resolved;
+}
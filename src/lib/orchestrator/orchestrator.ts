@@ -2,15 +2,23 @@ import { Result, ok } from "@core/result";
 import { Logger } from "@core/logger";
 import { SafePeripheral } from "@core/safe-peripheral";
 import { getInventoryContents } from "@lib/inventory/scanner";
-import { executeTransfer } from "@lib/transfer/transfer";
-import { InventoryItemInfo } from "@lib/inventory/types";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { executeMultiSlotTransfer } from "@lib/transfer/transfer";
+import { JournalRef, TransferSlot } from "@lib/transfer/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { Reservation } from "@lib/inventory/types";
+import { evaluateRefill } from "./refill";
+import { pickOverrides } from "./overrides";
+import { StallDetector } from "./stall";
 import {
     MachineConfig,
     MachineState,
     Assignment,
     Scheduler,
+    SchedulingDecision,
     OrchestratorTransferResult,
     OrchestratorRunResult,
+    OrchestratorOptions,
 } from "./types";
 
 // Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
@@ -19,74 +27,145 @@ import {
  * Generic orchestrator for machine-based item distribution.
  *
  * Responsibilities:
- * - Scan machines (check if input chests are empty)
- * - Get inventory contents from material source
+ * - Scan machines (check if input chests need a refill according to their refill policy)
+ * - Track consumption per machine and flag stalled machines
+ * - Get inventory contents from material source (via the cycle ledger)
  * - Ask scheduler for assignments
- * - Execute transfers
+ * - Reserve, execute and debit transfers in the ledger (dry run: plan and debit only)
+ * - Journal every transfer if a TransferJournal is configured
+ * - Keep the scheduling decision per machine of the latest cycle ("why is it idle?")
  *
  * Does NOT know about recipes, priorities, or business logic.
  * All decisions come from the Scheduler.
  */
 export class Orchestrator {
+    private stallDetector?: StallDetector;
+    private decisions: SchedulingDecision[] = [];
+
     constructor(
         private scheduler: Scheduler,
         private log: Logger,
-    ) {}
+        private ownerId = "orchestrator",
+        private options: OrchestratorOptions = {},
+    ) {
+        if (options.stallDetection) {
+            this.stallDetector = new StallDetector(options.stallDetection, log);
+        }
+    }
+
+    /**
+     * Scheduling decision per machine of the latest cycle.
+     */
+    getDecisions(): SchedulingDecision[] {
+        return this.decisions;
+    }
 
     /**
      * Run a complete orchestration cycle.
      *
      * @param machines - Machine configurations
      * @param machineChests - Map of chest name -> SafePeripheral
-     * @param materialSource - Central material source
-     * @param preScannedInventory - Optional pre-scanned inventory to avoid redundant scans
+     * @param materialSource - Central material source (one or more inventories)
+     * @param sharedLedger - Optional cycle ledger shared with other tasks (avoids redundant scans)
      * @returns Machine states and transfer results
      */
     run(
         machines: MachineConfig[],
         machineChests: Map<string, SafePeripheral<InventoryPeripheral>>,
-        materialSource: SafePeripheral<InventoryPeripheral>,
-        preScannedInventory?: Map<string, InventoryItemInfo>,
+        materialSource: MaterialSource,
+        sharedLedger?: InventoryLedger,
     ): Result<OrchestratorRunResult> {
         // 1. Scan all machines
         const states = this.scanMachines(machines, machineChests);
 
-        const emptyCount = states.filter((s) => s.isEmpty).length;
-        if (emptyCount === 0) {
-            this.log.debug("No empty machines, skipping cycle");
-            return ok({ machineStates: states, transfers: [] });
+        const refillCount = states.filter((s) => s.needsRefill).length;
+        if (refillCount === 0) {
+            this.log.debug("No machines need a refill, skipping cycle");
+            if (this.scheduler.observe && sharedLedger) {
+                this.scheduler.observe(sharedLedger.snapshot());
+            }
+            this.decisions = this.explain(states, [], []);
+            return ok({ machineStates: states, transfers: [], planned: [], decisions: this.decisions });
         }
-        this.log.debug("Machines scanned", { total: states.length, empty: emptyCount });
+        this.log.debug("Machines scanned", { total: states.length, refill: refillCount });
 
-        // 2. Get inventory contents (use pre-scanned if provided)
-        let inventory: Map<string, InventoryItemInfo>;
-        if (preScannedInventory) {
-            inventory = preScannedInventory;
+        // 2. Get inventory ledger (use shared one if provided)
+        let ledger: InventoryLedger;
+        if (sharedLedger) {
+            ledger = sharedLedger;
         } else {
-            const inventoryRes = getInventoryContents(materialSource);
+            const inventoryRes = materialSource.scan();
             if (!inventoryRes.ok) {
                 this.log.warn("Failed to get inventory contents");
-                return ok({ machineStates: states, transfers: [] });
+                this.decisions = this.explain(states, [], [], "no_inventory");
+                return ok({ machineStates: states, transfers: [], planned: [], decisions: this.decisions });
             }
-            inventory = inventoryRes.value;
+            ledger = new InventoryLedger(inventoryRes.value);
         }
 
-        // 3. Ask scheduler for assignments (scheduler makes its own inventory copy)
-        const assignments = this.scheduler.schedule(states, inventory);
+        // 3. Ask scheduler for assignments (snapshot excludes items debited/reserved by other tasks)
+        let assignments: Assignment[];
+        if (this.scheduler.scheduleWithDecisions) {
+            const scheduleResult = this.scheduler.scheduleWithDecisions(states, ledger.snapshot());
+            assignments = scheduleResult.assignments;
+            this.decisions = this.explain(states, scheduleResult.decisions, assignments);
+        } else {
+            assignments = this.scheduler.schedule(states, ledger.snapshot());
+            this.decisions = this.explain(states, [], assignments);
+        }
         if (assignments.length === 0) {
             this.log.debug("Scheduler returned no assignments");
-            return ok({ machineStates: states, transfers: [] });
+            return ok({ machineStates: states, transfers: [], planned: [], decisions: this.decisions });
         }
         this.log.debug("Scheduler created assignments", { count: assignments.length });
 
-        // 4. Execute assignments
-        const results = this.executeAssignments(assignments, materialSource);
+        // 4. Execute assignments (dry run: only reserve and debit the ledger)
+        const { transfers, planned } = this.executeAssignments(assignments, states, materialSource, ledger);
 
-        if (results.length > 0) {
-            this.log.info("Orchestrator cycle complete", { transfers: results.length });
+        if (transfers.length > 0) {
+            this.log.info("Orchestrator cycle complete", { transfers: transfers.length });
         }
 
-        return ok({ machineStates: states, transfers: results });
+        return ok({ machineStates: states, transfers, planned, decisions: this.decisions });
+    }
+
+    /**
+     * One decision per machine: the scheduler's record, or the reason the
+     * machine wasn't handed to the scheduler at all.
+     * Schedulers without decision records only get their assignments listed.
+     *
+     * @param refillReason - Reason for machines that needed a refill but got no scheduler record
+     */
+    private explain(
+        states: MachineState[],
+        scheduled: SchedulingDecision[],
+        assignments: Assignment[],
+        refillReason: SchedulingDecision["reason"] = "no_viable_candidate",
+    ): SchedulingDecision[] {
+        return states.map((state) => {
+            const decision = scheduled.find((d) => d.machineId === state.id);
+            if (decision) return decision;
+
+            const assignment = assignments.find((a) => a.machineId === state.id);
+            if (assignment) {
+                return {
+                    machineId: state.id,
+                    assignedItem: assignment.itemId,
+                    assignedAmount: assignment.amount,
+                    candidates: [],
+                };
+            }
+
+            let reason = refillReason;
+            if (state.isOffline) {
+                reason = "offline";
+            } else if (state.isStalled && !state.needsRefill) {
+                reason = "stalled";
+            } else if (!state.needsRefill) {
+                reason = "no_refill_needed";
+            }
+            return { machineId: state.id, reason, candidates: [] };
+        });
     }
 
     /**
@@ -106,16 +185,33 @@ export class Orchestrator {
                     chest: machine.inputChest,
                 });
                 // Treat as non-empty (don't try to fill unknown chests)
+                this.stallDetector?.forget(machine.id);
                 states.push({
                     id: machine.id,
                     type: machine.type,
                     inputChest: machine.inputChest,
                     isEmpty: false,
+                    isOffline: true,
+                    needsRefill: false,
                 });
                 continue;
             }
 
             chest.ensureConnected();
+            if (!chest.isAvailable()) {
+                // Circuit open: don't scan or fill until the breaker probe succeeds
+                this.stallDetector?.forget(machine.id);
+                states.push({
+                    id: machine.id,
+                    type: machine.type,
+                    inputChest: machine.inputChest,
+                    isEmpty: false,
+                    isOffline: true,
+                    needsRefill: false,
+                });
+                continue;
+            }
+
             const contentsRes = getInventoryContents(chest);
 
             if (!contentsRes.ok) {
@@ -124,6 +220,7 @@ export class Orchestrator {
                     type: machine.type,
                     inputChest: machine.inputChest,
                     isEmpty: false,
+                    needsRefill: false,
                 });
                 continue;
             }
@@ -132,22 +229,35 @@ export class Orchestrator {
             let isEmpty = true;
             let currentItem: string | undefined;
             let currentCount = 0;
+            let buffered = 0;
 
             for (const [itemId, info] of contents) {
+                // Discovery marker stays in the chest and doesn't count as content
+                if (itemId === machine.markerItem) continue;
                 isEmpty = false;
+                buffered += info.totalCount;
                 if (info.totalCount > currentCount) {
                     currentItem = itemId;
                     currentCount = info.totalCount;
                 }
             }
 
+            const refill = evaluateRefill(this.options.refillPolicies?.[machine.type], buffered);
+            const isStalled = this.stallDetector?.observe(machine.id, currentItem, buffered) ?? false;
+            if (isStalled && this.options.stallDetection?.skipStalled) {
+                refill.needsRefill = false;
+            }
+
             states.push({
                 id: machine.id,
                 type: machine.type,
                 inputChest: machine.inputChest,
                 isEmpty,
+                isStalled,
                 currentItem: isEmpty ? undefined : currentItem,
                 currentCount: isEmpty ? undefined : currentCount,
+                ...refill,
+                overrides: pickOverrides(machine),
             });
         }
 
@@ -156,30 +266,121 @@ export class Orchestrator {
 
     /**
      * Execute a list of assignments using race-condition-safe transfers.
+     * Each source slot is reserved in the ledger first and debited with the real amount moved.
+     * Slots are pushed from the material source member that holds them.
+     *
+     * In dry run the reserved amount is debited as if it had been moved (so later
+     * tasks plan against the same stock), but executeTransfer is never called.
+     *
+     * With a journal, the intent (incl. slot and target counts before the transfer)
+     * is written before the first item moves and closed with a commit or abort.
      */
     private executeAssignments(
         assignments: Assignment[],
-        materialSource: SafePeripheral<InventoryPeripheral>,
-    ): OrchestratorTransferResult[] {
-        const results: OrchestratorTransferResult[] = [];
+        states: MachineState[],
+        materialSource: MaterialSource,
+        ledger: InventoryLedger,
+    ): { transfers: OrchestratorTransferResult[]; planned: Assignment[] } {
+        const transfers: OrchestratorTransferResult[] = [];
+        const planned: Assignment[] = [];
 
         for (const assignment of assignments) {
-            const transferRes = executeTransfer({
-                source: materialSource,
+            // Reserve every source slot; slots claimed by other tasks are skipped
+            const reservations: Reservation[] = [];
+            const slots: TransferSlot[] = [];
+            for (const sourceSlot of assignment.sourceSlots) {
+                const source = materialSource.get(sourceSlot.source);
+                if (!source) {
+                    this.log.warn("Source slot skipped, unknown material source", {
+                        machine: assignment.machineId,
+                        source: sourceSlot.source,
+                    });
+                    continue;
+                }
+
+                const reservationRes = ledger.reserve(
+                    this.ownerId,
+                    assignment.itemId,
+                    sourceSlot.slot,
+                    sourceSlot.count,
+                    sourceSlot.source,
+                );
+                if (!reservationRes.ok) continue;
+
+                reservations.push(reservationRes.value);
+                slots.push({ source, slot: sourceSlot.slot, amount: reservationRes.value.amount });
+            }
+
+            if (reservations.length === 0) {
+                this.log.warn("Assignment skipped, stock already claimed", {
+                    machine: assignment.machineId,
+                    item: assignment.itemId,
+                    slots: assignment.sourceSlots.length,
+                });
+                continue;
+            }
+
+            let reservedAmount = 0;
+            for (const r of reservations) reservedAmount += r.amount;
+            planned.push({
+                ...assignment,
+                sourceSlots: reservations.map((r) => ({ slot: r.slot, count: r.amount, source: r.source })),
+                amount: reservedAmount,
+            });
+
+            if (this.options.dryRun) {
+                for (const r of reservations) ledger.commit(r, r.amount);
+                this.log.info("Dry run: planned transfer", {
+                    machine: assignment.machineId,
+                    item: assignment.itemId,
+                    amount: reservedAmount,
+                    slots: reservations.length,
+                });
+                continue;
+            }
+
+            const journal = this.options.journal;
+            const journalRef: JournalRef | undefined = journal && {
+                journal,
+                id: journal.begin({
+                    owner: this.ownerId,
+                    machineId: assignment.machineId,
+                    target: assignment.targetChest,
+                    itemId: assignment.itemId,
+                    amount: reservedAmount,
+                    targetBefore: this.getTargetCount(states, assignment),
+                    slots: reservations.map((r) => ({
+                        source: r.source,
+                        slot: r.slot,
+                        amount: r.amount,
+                        before: ledger.getSlotCount(r.itemId, r.slot, r.source),
+                    })),
+                }),
+            };
+
+            const transferRes = executeMultiSlotTransfer({
                 targetName: assignment.targetChest,
-                sourceSlot: assignment.sourceSlot,
                 expectedItemId: assignment.itemId,
-                amount: assignment.amount,
+                slots,
+                journal: journalRef,
             });
 
             if (transferRes.ok) {
-                results.push({
+                journalRef?.journal.commit(journalRef.id, transferRes.value.transferred);
+                const { perSlot } = transferRes.value;
+                reservations.forEach((r, i) => ledger.commit(r, perSlot[i]));
+                this.stallDetector?.recordTransfer(assignment.machineId, assignment.itemId, transferRes.value.transferred);
+                transfers.push({
                     machineId: assignment.machineId,
                     itemId: assignment.itemId,
                     itemsTransferred: transferRes.value.transferred,
-                    sourceSlot: assignment.sourceSlot,
+                    sourceSlots: reservations
+                        .map((r, i) => ({ slot: r.slot, count: perSlot[i], source: r.source }))
+                        .filter((s) => s.count > 0),
                 });
             } else {
+                journalRef?.journal.abort(journalRef.id, transferRes.code);
+                for (const r of reservations) ledger.release(r);
                 this.log.warn("Assignment transfer failed", {
                     machine: assignment.machineId,
                     item: assignment.itemId,
@@ -188,6 +389,16 @@ export class Orchestrator {
             }
         }
 
-        return results;
+        return { transfers, planned };
+    }
+
+    /**
+     * Items of the assigned type in the target chest at scan time.
+     * Partially filled chests only get their current item, so the dominant
+     * item's count is the count of the assigned item (or 0 for other items).
+     */
+    private getTargetCount(states: MachineState[], assignment: Assignment): number {
+        const state = states.find((s) => s.id === assignment.machineId);
+        return state?.currentItem === assignment.itemId ? state.currentCount ?? 0 : 0;
     }
 }
@@ -0,0 +1,56 @@
+import { MachineOverrides } from "./types";
+
+/**
+ * Override fields of a machine config or machine type definition (undefined if none is set).
+ */
+export function pickOverrides(source: MachineOverrides): MachineOverrides | undefined {
+    const { transferAmount, allowedItems, forbiddenItems, weightMultipliers } = source;
+    if (transferAmount === undefined && !allowedItems && !forbiddenItems && !weightMultipliers) {
+        return undefined;
+    }
+    return { transferAmount, allowedItems, forbiddenItems, weightMultipliers };
+}
+
+/**
+ * Combine machine type and machine overrides: the machine's transfer amount and
+ * allowed items win, forbidden items add up, multipliers are merged per item.
+ */
+export function mergeOverrides(typeOverrides?: MachineOverrides, machineOverrides?: MachineOverrides): MachineOverrides {
+    return {
+        transferAmount: machineOverrides?.transferAmount ?? typeOverrides?.transferAmount,
+        allowedItems: machineOverrides?.allowedItems ?? typeOverrides?.allowedItems,
+        forbiddenItems: [...(typeOverrides?.forbiddenItems ?? []), ...(machineOverrides?.forbiddenItems ?? [])],
+        weightMultipliers: { ...(typeOverrides?.weightMultipliers ?? {}), ...(machineOverrides?.weightMultipliers ?? {}) },
+    };
+}
+
+/**
+ * Whether the overrides let a machine take an input item.
+ */
+export function isItemAllowed(overrides: MachineOverrides, itemId: string): boolean {
+    if (overrides.forbiddenItems?.includes(itemId)) return false;
+    return !overrides.allowedItems || overrides.allowedItems.includes(itemId);
+}
+
+/**
+ * Weight/urgency factor of an input item (default 1).
+ */
+export function getWeightMultiplier(overrides: MachineOverrides, itemId: string): number {
+    return overrides.weightMultipliers?.[itemId] ?? 1;
+}
+
+/**
+ * Short description for diagnostics, e.g. "amount=256, only=minecraft:cobblestone, x2 minecraft:sand".
+ */
+export function describeOverrides(overrides: MachineOverrides): string {
+    const parts: string[] = [];
+    if (overrides.transferAmount !== undefined) parts.push(`amount=${overrides.transferAmount}`);
+    if (overrides.allowedItems) parts.push(`only=${overrides.allowedItems.join("/")}`);
+    if (overrides.forbiddenItems && overrides.forbiddenItems.length > 0) {
+        parts.push(`never=${overrides.forbiddenItems.join("/")}`);
+    }
+    for (const [itemId, factor] of Object.entries(overrides.weightMultipliers ?? {})) {
+        parts.push(`x${factor} ${itemId}`);
+    }
+    return parts.join(", ");
+}
@@ -0,0 +1,37 @@
+import { MachineState, RefillPolicy } from "./types";
+
+/**
+ * Refill fields of a MachineState.
+ */
+export type RefillDecision = Pick<MachineState, "needsRefill" | "refillAmount" | "refillLimit">;
+
+/**
+ * Apply a refill policy to the number of items buffered in a machine chest.
+ * Without a policy only empty chests need a refill.
+ */
+export function evaluateRefill(policy: RefillPolicy | undefined, buffered: number): RefillDecision {
+    const refillBelow = policy?.refillBelow ?? 1;
+    const refillLimit = policy?.maxBuffered !== undefined
+        ? math.max(0, policy.maxBuffered - buffered)
+        : undefined;
+    const refillAmount = policy?.minBuffered !== undefined
+        ? math.max(0, policy.minBuffered - buffered)
+        : undefined;
+
+    return {
+        needsRefill: buffered < refillBelow && refillLimit !== 0,
+        refillAmount,
+        refillLimit,
+    };
+}
+
+/**
+ * Items to transfer into a machine: the top-up amount (or the scheduler's
+ * default amount), capped at what still fits below maxBuffered.
+ */
+export function getRefillAmount(machine: MachineState, defaultAmount: number): number {
+    const amount = machine.refillAmount !== undefined && machine.refillAmount > 0
+        ? machine.refillAmount
+        : defaultAmount;
+    return machine.refillLimit !== undefined ? math.min(amount, machine.refillLimit) : amount;
+}
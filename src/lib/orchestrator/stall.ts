@@ -0,0 +1,88 @@
+import { Logger } from "@core/logger";
+import { StallDetectionOptions } from "./types";
+
+/**
+ * Per-machine consumption history (internal).
+ */
+interface MachineHistory {
+    item?: string;
+    /** Buffered count at the last scan */
+    lastCount: number;
+    /** Epoch (ms) of the last observed consumption */
+    lastProgressAt: number;
+    stalled: boolean;
+}
+
+/**
+ * Tracks machine chest contents across scans and flags machines whose
+ * input count hasn't decreased for `timeoutSeconds`.
+ *
+ * - Empty chests are never stalled (the machine waits for us, not the other way round)
+ * - Our own transfers raise the baseline (recordTransfer), so a machine that
+ *   consumes about what it's given each cycle still shows progress
+ * - Any other count increase updates the baseline without counting as progress
+ * - A different item resets the history
+ */
+export class StallDetector {
+    private history = new Map<string, MachineHistory>();
+
+    constructor(
+        private options: StallDetectionOptions,
+        private log: Logger,
+    ) {}
+
+    /**
+     * Record a scan result and return whether the machine is stalled.
+     *
+     * @param buffered - Items in the chest (0 = empty)
+     */
+    observe(machineId: string, item: string | undefined, buffered: number): boolean {
+        const now = os.epoch("utc");
+        const previous = this.history.get(machineId);
+
+        if (buffered === 0 || !previous || previous.item !== item) {
+            if (previous?.stalled) this.logResumed(machineId);
+            this.history.set(machineId, { item, lastCount: buffered, lastProgressAt: now, stalled: false });
+            return false;
+        }
+
+        if (buffered < previous.lastCount) {
+            if (previous.stalled) this.logResumed(machineId);
+            previous.lastProgressAt = now;
+            previous.stalled = false;
+        }
+        previous.lastCount = buffered;
+
+        const idleSeconds = (now - previous.lastProgressAt) / 1000;
+        if (!previous.stalled && idleSeconds >= this.options.timeoutSeconds) {
+            previous.stalled = true;
+            this.log.warn("Machine stalled", { id: machineId, item, count: buffered, idleSeconds });
+        }
+        return previous.stalled;
+    }
+
+    /**
+     * Add items we moved into the chest after the scan to the baseline.
+     */
+    recordTransfer(machineId: string, item: string, amount: number): void {
+        const previous = this.history.get(machineId);
+        if (!previous) return;
+        previous.item = previous.item ?? item;
+        previous.lastCount += amount;
+    }
+
+    /**
+     * Drop the history of a machine (e.g. chest went offline).
+     */
+    forget(machineId: string): void {
+        this.history.delete(machineId);
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private logResumed(machineId: string): void {
+        this.log.info("Machine resumed", { id: machineId });
+    }
+}
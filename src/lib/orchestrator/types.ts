@@ -1,15 +1,84 @@
-import { InventoryItemInfo } from "@lib/inventory/types";
+import { InventoryItemInfo, SlotInfo } from "@lib/inventory/types";
+import { ChestDiscoveryRule } from "@lib/peripheral/types";
+import { TransferJournal } from "@lib/transfer/journal";
+
+/**
+ * Scheduling overrides of one machine or machine type.
+ * Item lists and multipliers use Minecraft item IDs, so they apply to recipe
+ * inputs and materials alike. Machine settings win over machine type settings.
+ */
+export interface MachineOverrides {
+    /** Items per transfer (default: the task's transferAmount) */
+    transferAmount?: number;
+    /** Only ever feed these input items (default: everything the type supports) */
+    allowedItems?: string[];
+    /** Never feed these input items */
+    forbiddenItems?: string[];
+    /** Factor on the weight (weighted) or urgency (stock-based) per input item ID (default 1) */
+    weightMultipliers?: Record<string, number>;
+}
 
 /**
  * Configuration for a single machine (unearther, hammer, etc.).
  */
-export interface MachineConfig {
+export interface MachineConfig extends MachineOverrides {
     /** Unique machine identifier */
     id: string;
     /** Machine type (e.g., "hammer", "brusher") */
     type: string;
     /** CC:Tweaked peripheral name of the input chest */
     inputChest: string;
+    /** CC:Tweaked peripheral name of the output chest (drained by the collection task) */
+    outputChest?: string;
+    /** Marker item kept in the chest for discovery (ignored when scanning) */
+    markerItem?: string;
+}
+
+/**
+ * Discovery rule that turns every matching chest into a machine.
+ * Discovered machines get the ID `<rule id>_<chest name without namespace>`.
+ */
+export interface MachineDiscoveryRule extends ChestDiscoveryRule {
+    /** Machine type of discovered machines */
+    type: string;
+}
+
+/**
+ * When and how much to refill the input chests of one machine type.
+ * Without a policy machines are only fed when their chest is empty.
+ */
+export interface RefillPolicy {
+    /** Refill when the chest holds fewer items than this (default 1 = only when empty) */
+    refillBelow?: number;
+    /** Top up to at least this many items per refill (default: the task's transferAmount per refill) */
+    minBuffered?: number;
+    /** Never fill the chest above this many items */
+    maxBuffered?: number;
+}
+
+/**
+ * Stalled-machine detection: a machine whose input count hasn't decreased
+ * for timeoutSeconds is flagged as stalled (unpowered, output full, broken).
+ */
+export interface StallDetectionOptions {
+    /** Seconds without consumption before a machine counts as stalled */
+    timeoutSeconds: number;
+    /** Don't refill stalled machines (keeps stock out of dead chests) */
+    skipStalled?: boolean;
+}
+
+/**
+ * Orchestrator tuning, set per task.
+ */
+export interface OrchestratorOptions {
+    /** Refill policies per machine type */
+    refillPolicies?: Record<string, RefillPolicy>;
+    /** Stalled-machine detection (disabled if not set) */
+    stallDetection?: StallDetectionOptions;
+    /** Plan and log assignments without moving any items */
+    dryRun?: boolean;
+    /** Record intent/commit of every transfer (crash recovery) */
+    journal?: TransferJournal;
 }
 
 /**
@@ -24,10 +93,22 @@ export interface MachineState {
     inputChest: string;
     /** Whether the input chest is empty (machine needs refill) */
     isEmpty: boolean;
+    /** Whether the input chest is missing or its circuit breaker is open */
+    isOffline?: boolean;
+    /** Whether the input count hasn't decreased for the stall timeout */
+    isStalled?: boolean;
     /** Minecraft item ID currently in the chest (undefined if empty) */
     currentItem?: string;
     /** Count of items currently in the chest */
     currentCount?: number;
+    /** Whether the chest is below its refill threshold (empty, or partially full with a refill policy) */
+    needsRefill: boolean;
+    /** Items needed to reach the policy's minBuffered (undefined = scheduler default amount) */
+    refillAmount?: number;
+    /** Items that still fit below the policy's maxBuffered (undefined = no limit) */
+    refillLimit?: number;
+    /** Overrides of the machine's config (machine type overrides are applied by the scheduler) */
+    overrides?: MachineOverrides;
 }
 
 /**
@@ -41,9 +122,12 @@ export interface Assignment {
     targetChest: string;
     /** Minecraft item ID to transfer */
     itemId: string;
-    /** Source slot in material source */
-    sourceSlot: number;
-    /** Number of items to transfer */
+    /**
+     * Material source slots to take the items from, with the count taken from each.
+     * SlotInfo.source names the material source member (undefined = primary source).
+     */
+    sourceSlots: SlotInfo[];
+    /** Number of items to transfer (sum of sourceSlots counts) */
     amount: number;
 }
 
@@ -54,9 +138,10 @@ export interface Assignment {
  */
 export interface Scheduler {
     /**
-     * Create assignments for empty machines.
+     * Create assignments for machines that need a refill.
+     * Partially filled machines must keep getting their currentItem.
      *
-     * @param machines - Current state of all machines (including non-empty ones for context)
+     * @param machines - Current state of all machines (including ones that need no refill, for context)
      * @param inventory - Current inventory contents
      * @returns List of assignments to execute
      */
@@ -64,6 +149,85 @@ export interface Scheduler {
         machines: MachineState[],
         inventory: Map<string, InventoryItemInfo>,
     ): Assignment[];
+
+    /**
+     * Optional: same as schedule(), plus a decision record per machine that needs a refill.
+     * The orchestrator prefers this method when a scheduler implements it.
+     */
+    scheduleWithDecisions?(
+        machines: MachineState[],
+        inventory: Map<string, InventoryItemInfo>,
+    ): ScheduleResult;
+
+    /**
+     * Optional: see the stock of a cycle in which no machine needs a refill
+     * (schedule() isn't called then). For schedulers that track stock over
+     * time, e.g. hysteresis bands. Called with the shared cycle ledger only.
+     */
+    observe?(inventory: Map<string, InventoryItemInfo>): void;
+}
+
+/**
+ * Why a machine or a candidate (recipe/material) was not used.
+ */
+export type DecisionReason =
+    // Machine-level
+    | "offline"
+    | "stalled"
+    | "no_refill_needed"
+    | "no_inventory"
+    | "unknown_machine_type"
+    | "no_refill_amount"
+    | "no_viable_candidate"
+    // Candidate-level
+    | "not_current_item"
+    | "no_stock_target"
+    | "zero_urgency"
+    | "out_of_stock"
+    | "below_min_reserve"
+    | "below_min_stock"
+    | "below_input_count"
+    | "not_allowed"
+    | "not_selected";
+
+/**
+ * One recipe/material a scheduler considered for a machine.
+ */
+export interface CandidateDecision {
+    /** Display label (recipe "input -> outputs" or material ID) */
+    label: string;
+    /** Input item the candidate would transfer */
+    itemId: string;
+    /** Urgency (stock-based) or weight (weighted) */
+    score: number;
+    /** Why it wasn't assigned (undefined = assigned) */
+    rejected?: DecisionReason;
+    /** Numbers behind the rejection (e.g. "have 200, need 384") */
+    detail?: string;
+}
+
+/**
+ * Scheduling decision for one machine in one cycle.
+ */
+export interface SchedulingDecision {
+    /** Machine ID */
+    machineId: string;
+    /** Item assigned this cycle (undefined = machine stays idle) */
+    assignedItem?: string;
+    /** Amount assigned this cycle */
+    assignedAmount?: number;
+    /** Why nothing was assigned (machine-level) */
+    reason?: DecisionReason;
+    /** Candidates in the order they were considered */
+    candidates: CandidateDecision[];
+}
+
+/**
+ * Assignments plus the decisions behind them.
+ */
+export interface ScheduleResult {
+    assignments: Assignment[];
+    decisions: SchedulingDecision[];
 }
 
 /**
@@ -76,8 +240,8 @@ export interface OrchestratorTransferResult {
     itemId: string;
     /** Number of items transferred */
     itemsTransferred: number;
-    /** Source slot used */
-    sourceSlot: number;
+    /** Slots the items actually came from, with the count moved from each */
+    sourceSlots: SlotInfo[];
 }
 
 /**
@@ -87,6 +251,10 @@ export interface OrchestratorTransferResult {
 export interface OrchestratorRunResult {
     /** Scanned machine states (with real isEmpty) */
     machineStates: MachineState[];
-    /** Transfer results */
+    /** Transfer results (always empty in dry run) */
     transfers: OrchestratorTransferResult[];
+    /** Assignments that passed reservation, with the reserved amount (executed unless dry run) */
+    planned: Assignment[];
+    /** Scheduling decision per machine (latest cycle) */
+    decisions: SchedulingDecision[];
 }
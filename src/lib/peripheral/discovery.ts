@@ -0,0 +1,73 @@
+import { Logger } from "@core/logger";
+import { ChestDiscoveryRule } from "./types";
+
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/**
+ * Check whether a remote peripheral matches a discovery rule.
+ * Cheap criteria (name, type) are checked before the marker item scan.
+ */
+export function matchesDiscoveryRule(name: string, rule: ChestDiscoveryRule, log: Logger): boolean {
+    if (!rule.namePattern && !rule.peripheralType && !rule.markerItem) {
+        return false;
+    }
+
+    if (rule.namePattern && string.find(name, rule.namePattern)[0] === undefined) {
+        return false;
+    }
+
+    if (rule.peripheralType && !peripheral.hasType(name, rule.peripheralType)) {
+        return false;
+    }
+
+    if (rule.markerItem && !hasMarkerItem(name, rule.markerItem, rule.markerName, log)) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Find the first rule matching a remote peripheral.
+ *
+ * @returns Matching rule, or undefined
+ */
+export function findDiscoveryRule(
+    name: string,
+    rules: ChestDiscoveryRule[],
+    log: Logger,
+): ChestDiscoveryRule | undefined {
+    for (const rule of rules) {
+        if (matchesDiscoveryRule(name, rule, log)) {
+            return rule;
+        }
+    }
+    return undefined;
+}
+
+// ========================================
+// Private helpers
+// ========================================
+
+/**
+ * Look for the marker item; with `markerName` only a marker with that display
+ * name counts (one getItemDetail call per marker candidate).
+ */
+function hasMarkerItem(name: string, markerItem: string, markerName: string | undefined, log: Logger): boolean {
+    const [success, found] = pcall(() => {
+        const inv = peripheral.wrap(name) as InventoryPeripheral | undefined;
+        if (!inv || typeof inv.list !== "function") return false;
+
+        for (const [slot, item] of pairs(inv.list())) {
+            if (!item || item.name !== markerItem) continue;
+            if (markerName === undefined || inv.getItemDetail(slot)?.displayName === markerName) return true;
+        }
+        return false;
+    });
+
+    if (!success) {
+        log.debug("Marker scan failed", { name, error: tostring(found) });
+        return false;
+    }
+    return found;
+}
@@ -0,0 +1,43 @@
+import { PeripheralHealth } from "@core/safe-peripheral";
+import { PeripheralRole, ValidatedPeripherals } from "./types";
+
+/**
+ * Circuit breaker state of one validated peripheral.
+ */
+export interface PeripheralHealthEntry {
+    name: string;
+    role: PeripheralRole;
+    health: PeripheralHealth;
+}
+
+/**
+ * Health of every validated peripheral: material sources, monitor, chests.
+ */
+export function collectPeripheralHealth(peripherals: ValidatedPeripherals): PeripheralHealthEntry[] {
+    const entries: PeripheralHealthEntry[] = peripherals.materialSource.getMembers().map((member) => ({
+        name: member.getName(),
+        role: "materialSource",
+        health: member.getHealth(),
+    }));
+    if (peripherals.monitor) {
+        entries.push({ name: peripherals.monitor.getName(), role: "monitor", health: peripherals.monitor.getHealth() });
+    }
+    for (const [name, chest] of peripherals.machineChests) {
+        entries.push({ name, role: "chest", health: chest.getHealth() });
+    }
+    return entries;
+}
+
+/**
+ * Short health text: "healthy", "degraded (2 failures)", "open, probe in 10s".
+ */
+export function summarizeHealth(health: PeripheralHealth, now = os.epoch("utc")): string {
+    if (health.state === "open") {
+        const wait = math.max(0, math.ceil(((health.nextProbeAt ?? now) - now) / 1000));
+        return wait > 0 ? `open, probe in ${wait}s` : "open, probe due";
+    }
+    if (health.consecutiveFailures > 0) {
+        return `${health.state} (${health.consecutiveFailures} failures)`;
+    }
+    return health.state;
+}
@@ -1,6 +1,8 @@
 import { Result, ok, err, forwardErr } from "@core/result";
 import { Logger } from "@core/logger";
 import { SafePeripheral, wrapPeripheral } from "@core/safe-peripheral";
+import { MaterialSource, MaterialSourceMember } from "@lib/inventory/material-source";
+import { findDiscoveryRule } from "./discovery";
 import {
     Side,
     ValidatedPeripherals,
@@ -11,7 +13,8 @@ import {
 
 /**
  * Generic peripheral validator.
- * Validates modem, material source, monitor, and a list of chest names.
+ * Validates modem, material source inventories, monitor, a list of chest names and
+ * any remote chests matching the discovery rules.
  * Has NO task-specific knowledge.
  */
 export function validatePeripherals(
@@ -33,17 +36,21 @@ export function validatePeripherals(
     const remotes = modem.getNamesRemote();
     log.debug("Remote peripherals found", { count: remotes.length, names: remotes });
 
-    // 3. Validate material source
-    const materialSourceRes = validateInventory(modem, req.materialSourceName, log);
-    if (!materialSourceRes.ok) {
-        log.error("Failed to get material source", {
-            name: req.materialSourceName,
-            code: materialSourceRes.code,
-        });
-        return forwardErr(materialSourceRes);
+    // 3. Validate material source inventories
+    const members: MaterialSourceMember[] = [];
+    for (const source of req.materialSources) {
+        const sourceRes = validateInventory(modem, source.name, log);
+        if (!sourceRes.ok) {
+            log.error("Failed to get material source", {
+                name: source.name,
+                code: sourceRes.code,
+            });
+            return forwardErr(sourceRes);
+        }
+        members.push({ peripheral: sourceRes.value, priority: source.priority ?? 0 });
     }
-    const materialSource = materialSourceRes.value;
-    log.info("Material source validated", { name: req.materialSourceName });
+    const materialSource = new MaterialSource(members, log);
+    log.info("Material source validated", { names: materialSource.getNames() });
 
     // 4. Validate all chests
     const machineChests = new Map<string, SafePeripheral<InventoryPeripheral>>();
@@ -60,7 +67,30 @@ export function validatePeripherals(
         log.debug("Chest validated", { chest: chestName });
     }
 
-    // 5. Validate monitor (optional)
+    // 5. Discover additional chests via rules
+    const discoveredChests = new Map<string, string>();
+    if (req.discoveryRules && req.discoveryRules.length > 0) {
+        const reserved = new Set<string>([...materialSource.getNames(), ...req.chestNames]);
+        if (req.monitorName) reserved.add(req.monitorName);
+
+        for (const name of remotes) {
+            if (reserved.has(name)) continue;
+
+            const rule = findDiscoveryRule(name, req.discoveryRules, log);
+            if (!rule) continue;
+
+            const chestRes = validateInventory(modem, name, log);
+            if (!chestRes.ok) {
+                log.warn("Discovered chest failed validation", { chest: name, rule: rule.id, code: chestRes.code });
+                continue;
+            }
+            machineChests.set(name, chestRes.value);
+            discoveredChests.set(name, rule.id);
+            log.info("Chest discovered", { chest: name, rule: rule.id });
+        }
+    }
+
+    // 6. Validate monitor (optional)
     let monitor: SafePeripheral<MonitorPeripheral> | undefined;
     if (req.monitorName) {
         const monitorRes = validateMonitor(modem, req.monitorName, log);
@@ -77,6 +107,7 @@ export function validatePeripherals(
 
     log.info("All peripherals validated successfully", {
         machineChests: machineChests.size,
+        discovered: discoveredChests.size,
         hasMonitor: !!monitor,
     });
 
@@ -85,6 +116,7 @@ export function validatePeripherals(
         materialSource,
         monitor,
         machineChests,
+        discoveredChests,
     });
 }
 
@@ -102,53 +134,10 @@ export function isRemotePresent(modem: WiredModemPeripheral, name: string): bool
 }
 
 /**
- * Retry connecting chests that were missing at boot.
- * Checks all chest names and adds any newly available ones to the map.
- *
- * @returns Number of recovered chests
+ * Validate and wrap a single remote inventory.
+ * Used at boot and by the peripheral watcher when a chest is attached.
  */
-export function retryMissingChests(
-    modem: WiredModemPeripheral,
-    allChestNames: string[],
-    existingChests: Map<string, SafePeripheral<InventoryPeripheral>>,
-    log: Logger,
-): number {
-    let recovered = 0;
-    for (const name of allChestNames) {
-        if (existingChests.has(name)) continue;
-        const res = validateInventory(modem, name, log);
-        if (res.ok) {
-            existingChests.set(name, res.value);
-            log.info("Recovered peripheral", { chest: name });
-            recovered++;
-        }
-    }
-    return recovered;
-}
-
-// ========================================
-// Private helpers
-// ========================================
-
-function getWiredModem(side: Side): Result<WiredModemPeripheral> {
-    if (!peripheral.hasType(side, "modem")) {
-        const pType = peripheral.getType(side) as unknown as string | undefined;
-        return err("ERR_MODEM_MISSING", { side, foundType: pType });
-    }
-
-    const modem = peripheral.wrap(side) as WiredModemPeripheral;
-    if (!modem) {
-        return err("ERR_MODEM_MISSING", { side });
-    }
-
-    if (modem.isWireless()) {
-        return err("ERR_MODEM_WIRELESS", { side });
-    }
-
-    return ok(modem);
-}
-
-function validateInventory(
+export function validateInventory(
     modem: WiredModemPeripheral,
     name: string,
     log: Logger,
@@ -169,7 +158,10 @@ function validateInventory(
     return ok(wrapPeripheral(modem, name, inv, log));
 }
 
-function validateMonitor(
+/**
+ * Validate and wrap a single remote monitor.
+ */
+export function validateMonitor(
     modem: WiredModemPeripheral,
     name: string,
     log: Logger,
@@ -189,3 +181,25 @@ function validateMonitor(
 
     return ok(wrapPeripheral(modem, name, mon, log));
 }
+
+// ========================================
+// Private helpers
+// ========================================
+
+function getWiredModem(side: Side): Result<WiredModemPeripheral> {
+    if (!peripheral.hasType(side, "modem")) {
+        const pType = peripheral.getType(side) as unknown as string | undefined;
+        return err("ERR_MODEM_MISSING", { side, foundType: pType });
+    }
+
+    const modem = peripheral.wrap(side) as WiredModemPeripheral;
+    if (!modem) {
+        return err("ERR_MODEM_MISSING", { side });
+    }
+
+    if (modem.isWireless()) {
+        return err("ERR_MODEM_WIRELESS", { side });
+    }
+
+    return ok(modem);
+}
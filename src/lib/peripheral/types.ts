@@ -1,4 +1,5 @@
 import { SafePeripheral } from "@core/safe-peripheral";
+import { MaterialSource } from "@lib/inventory/material-source";
 
 // Types from @jackmacwindows/craftos-types are globally declared
 
@@ -13,16 +14,44 @@ export interface PeripheralConfig {
     type: string;
 }
 
+/**
+ * Inventory that is part of the (composite) material source.
+ */
+export interface MaterialSourceConfig extends PeripheralConfig {
+    /** Higher priority is drained first (default 0, ties keep config order) */
+    priority?: number;
+}
+
 /**
  * Generic validated peripherals.
  * Task-agnostic: only knows about modem, material source, monitor, and generic chests.
  */
 export interface ValidatedPeripherals {
     modem: WiredModemPeripheral;
-    materialSource: SafePeripheral<InventoryPeripheral>;
+    /** All material source inventories merged into one logical storage */
+    materialSource: MaterialSource;
     monitor?: SafePeripheral<MonitorPeripheral>;
     /** All machine/chest peripherals keyed by their CC:Tweaked name */
     machineChests: Map<string, SafePeripheral<InventoryPeripheral>>;
+    /** Chests found by discovery rules: chest name -> rule ID */
+    discoveredChests: Map<string, string>;
+}
+
+/**
+ * Rule that matches chests on the wired network.
+ * All criteria that are set must match; at least one should be set.
+ */
+export interface ChestDiscoveryRule {
+    /** Rule ID */
+    id: string;
+    /** Lua pattern matched against the peripheral name (e.g. "^minecraft:barrel_%d+$") */
+    namePattern?: string;
+    /** Required peripheral type (checked via peripheral.hasType, e.g. "minecraft:barrel") */
+    peripheralType?: string;
+    /** Item that must be present in the chest (e.g. a renamed paper as label) */
+    markerItem?: string;
+    /** Display name the marker item must have (anvil label, e.g. "Hammer"); needs markerItem */
+    markerName?: string;
 }
 
 /**
@@ -32,10 +61,43 @@ export interface ValidatedPeripherals {
 export interface PeripheralValidationRequest {
     /** Modem side (e.g., "left") */
     modemSide: Side;
-    /** Material source peripheral name */
-    materialSourceName: string;
+    /** Inventories forming the material source (all must be present) */
+    materialSources: MaterialSourceConfig[];
     /** Optional monitor peripheral name */
     monitorName?: string;
     /** List of chest peripheral names to validate */
     chestNames: string[];
+    /** Rules for discovering additional chests among the remote peripherals */
+    discoveryRules?: ChestDiscoveryRule[];
+}
+
+/**
+ * Role of a watched peripheral.
+ */
+export type PeripheralRole = "materialSource" | "monitor" | "chest";
+
+/**
+ * A watched peripheral was attached to or detached from the wired network.
+ */
+export interface PeripheralChangeEvent {
+    kind: "attach" | "detach";
+    /** CC:Tweaked peripheral name */
+    name: string;
+    role: PeripheralRole;
+    /** Discovery rule that matched the chest (only for discovered chests) */
+    discoveryRuleId?: string;
+}
+
+/**
+ * Peripherals the watcher keeps ValidatedPeripherals in sync with.
+ */
+export interface PeripheralWatchRequest {
+    /** Peripheral names of all material source inventories */
+    materialSourceNames: string[];
+    /** Optional monitor peripheral name */
+    monitorName?: string;
+    /** Chest peripheral names used by machines */
+    chestNames: string[];
+    /** Rules for discovering chests attached at runtime */
+    discoveryRules?: ChestDiscoveryRule[];
 }
@@ -0,0 +1,245 @@
+import { Logger } from "@core/logger";
+import { validateInventory, validateMonitor } from "./registry";
+import { findDiscoveryRule } from "./discovery";
+import {
+    PeripheralChangeEvent,
+    PeripheralRole,
+    PeripheralWatchRequest,
+    ValidatedPeripherals,
+} from "./types";
+
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/**
+ * Event-driven peripheral tracking.
+ *
+ * Listens for `peripheral` / `peripheral_detach` events and keeps
+ * ValidatedPeripherals up to date:
+ * - Chests get their presence updated; a chest missing at boot is added on attach
+ * - Unknown chests matching a discovery rule are added as discovered chests
+ * - Material source members and monitor get their presence updated (circuit breaker)
+ * - A monitor missing at boot is wrapped as soon as it is attached
+ *
+ * Replaces polling: SafePeripheral.isConnected() uses the tracked presence
+ * instead of walking modem.getNamesRemote() on every check.
+ */
+export class PeripheralWatcher {
+    private listeners: ((event: PeripheralChangeEvent) => void)[] = [];
+    private chestNames: Set<string>;
+    /** Events seen by listen() while the main loop was busy */
+    private pending: ["peripheral" | "peripheral_detach", string][] = [];
+    private sleeping = false;
+
+    constructor(
+        private peripherals: ValidatedPeripherals,
+        private req: PeripheralWatchRequest,
+        private log: Logger,
+    ) {
+        this.chestNames = new Set(req.chestNames);
+        for (const [name] of peripherals.discoveredChests) {
+            this.chestNames.add(name);
+        }
+
+        // Everything validated at boot is present - switch to event-tracked presence
+        for (const source of peripherals.materialSource.getMembers()) {
+            source.setPresence(true);
+        }
+        peripherals.monitor?.setPresence(true);
+        for (const [, chest] of peripherals.machineChests) {
+            chest.setPresence(true);
+        }
+    }
+
+    /**
+     * Subscribe to attach/detach events of watched peripherals.
+     */
+    onChange(listener: (event: PeripheralChangeEvent) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Sleep like sleep(), but handle peripheral events while waiting.
+     * (sleep() would silently discard them.)
+     */
+    sleep(seconds: number): void {
+        this.processPending();
+        const timerId = os.startTimer(seconds);
+        this.sleeping = true;
+
+        while (true) {
+            const [event, param] = os.pullEvent();
+            if (event === "timer" && param === timerId) {
+                this.sleeping = false;
+                return;
+            }
+            if (event === "peripheral" || event === "peripheral_detach") {
+                this.handleEvent(event, param as string);
+            }
+        }
+    }
+
+    /**
+     * Collect peripheral events that arrive while the main loop is busy.
+     * Run next to the main loop (parallel.waitForAny): a task cycle pulls
+     * events with a filter (peripheral calls wait for their result), which
+     * would drop attach/detach events before sleep() sees them.
+     */
+    listen(): void {
+        while (true) {
+            const [event, param] = os.pullEvent();
+            this.observe(event, param);
+        }
+    }
+
+    /**
+     * Queue a peripheral event seen by listen(). While sleep() is waiting it
+     * handles the event itself.
+     */
+    observe(event: string, param: unknown): void {
+        if (this.sleeping) return;
+        if (event === "peripheral" || event === "peripheral_detach") {
+            this.pending.push([event, param as string]);
+        }
+    }
+
+    /**
+     * Handle the events queued by listen(). Call before each task cycle.
+     */
+    processPending(): void {
+        while (this.pending.length > 0) {
+            const [event, name] = this.pending.shift()!;
+            this.handleEvent(event, name);
+        }
+    }
+
+    /**
+     * Process a single peripheral event.
+     * Unwatched peripherals are ignored.
+     */
+    handleEvent(event: "peripheral" | "peripheral_detach", name: string): void {
+        const kind = event === "peripheral" ? "attach" : "detach";
+        const role = this.getRole(name);
+
+        if (!role) {
+            if (kind === "attach") this.tryDiscover(name);
+            return;
+        }
+
+        if (kind === "attach") {
+            this.handleAttach(name, role);
+        } else {
+            this.handleDetach(name, role);
+        }
+
+        this.emit({ kind, name, role, discoveryRuleId: this.peripherals.discoveredChests.get(name) });
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private getRole(name: string): PeripheralRole | undefined {
+        if (this.req.materialSourceNames.includes(name)) return "materialSource";
+        if (name === this.req.monitorName) return "monitor";
+        if (this.chestNames.has(name)) return "chest";
+        return undefined;
+    }
+
+    private handleAttach(name: string, role: PeripheralRole): void {
+        const { modem } = this.peripherals;
+
+        if (role === "materialSource") {
+            this.peripherals.materialSource.get(name)?.setPresence(true);
+            this.log.info("Material source attached", { name });
+            return;
+        }
+
+        if (role === "monitor") {
+            if (this.peripherals.monitor) {
+                this.peripherals.monitor.setPresence(true);
+            } else {
+                const monitorRes = validateMonitor(modem, name, this.log);
+                if (!monitorRes.ok) {
+                    this.log.warn("Attached monitor failed validation", { name, code: monitorRes.code });
+                    return;
+                }
+                monitorRes.value.setPresence(true);
+                this.peripherals.monitor = monitorRes.value;
+            }
+            this.log.info("Monitor attached", { name });
+            return;
+        }
+
+        const existing = this.peripherals.machineChests.get(name);
+        if (existing) {
+            existing.setPresence(true);
+            this.log.info("Chest attached", { chest: name });
+            return;
+        }
+
+        const chestRes = validateInventory(modem, name, this.log);
+        if (!chestRes.ok) {
+            this.log.warn("Attached chest failed validation", { chest: name, code: chestRes.code });
+            return;
+        }
+        chestRes.value.setPresence(true);
+        this.peripherals.machineChests.set(name, chestRes.value);
+        this.log.info("Chest attached", { chest: name });
+    }
+
+    /**
+     * Check an unknown attached peripheral against the discovery rules.
+     * A match is watched from now on like a configured chest.
+     */
+    private tryDiscover(name: string): void {
+        const rules = this.req.discoveryRules;
+        if (!rules || rules.length === 0) return;
+
+        const rule = findDiscoveryRule(name, rules, this.log);
+        if (!rule) return;
+
+        const chestRes = validateInventory(this.peripherals.modem, name, this.log);
+        if (!chestRes.ok) {
+            this.log.warn("Discovered chest failed validation", { chest: name, rule: rule.id, code: chestRes.code });
+            return;
+        }
+
+        chestRes.value.setPresence(true);
+        this.chestNames.add(name);
+        this.peripherals.machineChests.set(name, chestRes.value);
+        this.peripherals.discoveredChests.set(name, rule.id);
+        this.log.info("Chest discovered", { chest: name, rule: rule.id });
+
+        this.emit({ kind: "attach", name, role: "chest", discoveryRuleId: rule.id });
+    }
+
+    private handleDetach(name: string, role: PeripheralRole): void {
+        if (role === "materialSource") {
+            this.peripherals.materialSource.get(name)?.setPresence(false);
+            this.log.warn("Material source detached", { name });
+            return;
+        }
+
+        if (role === "monitor") {
+            this.peripherals.monitor?.setPresence(false);
+            this.log.warn("Monitor detached", { name });
+            return;
+        }
+
+        // Keep the wrapper: its breaker reports the chest offline and probes for it
+        this.peripherals.machineChests.get(name)?.setPresence(false);
+        this.log.warn("Chest detached", { chest: name });
+    }
+
+    private emit(event: PeripheralChangeEvent): void {
+        for (const listener of this.listeners) {
+            const [success, error] = pcall(() => listener(event));
+            if (!success) {
+                this.log.error("Peripheral listener crashed", {
+                    name: event.name,
+                    error: tostring(error),
+                });
+            }
+        }
+    }
+}
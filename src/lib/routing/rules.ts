@@ -0,0 +1,69 @@
+import { RoutedItem, RoutingRule } from "./types";
+
+/**
+ * Check whether an item matches a routing rule.
+ * A rule without criteria never matches (use the default destination instead).
+ */
+export function matchesRoutingRule(item: RoutedItem, rule: RoutingRule): boolean {
+    if (!hasCriteria(rule)) {
+        return false;
+    }
+
+    if (rule.itemId !== undefined && item.name !== rule.itemId) {
+        return false;
+    }
+
+    if (rule.namespace !== undefined && getNamespace(item.name) !== rule.namespace) {
+        return false;
+    }
+
+    if (rule.tag !== undefined && !(item.tags ?? []).includes(rule.tag)) {
+        return false;
+    }
+
+    if (rule.hasNbt !== undefined && (item.nbt !== undefined) !== rule.hasNbt) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Find the first rule matching an item.
+ *
+ * @returns Matching rule, or undefined
+ */
+export function findRoutingRule(item: RoutedItem, rules: RoutingRule[]): RoutingRule | undefined {
+    for (const rule of rules) {
+        if (matchesRoutingRule(item, rule)) {
+            return rule;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether any rule matches on tags (tags cost a getItemDetail call per item type).
+ */
+export function rulesNeedTags(rules: RoutingRule[]): boolean {
+    return rules.some((r) => r.tag !== undefined);
+}
+
+/**
+ * Whether a rule has at least one criterion.
+ */
+export function hasCriteria(rule: RoutingRule): boolean {
+    return rule.itemId !== undefined
+        || rule.namespace !== undefined
+        || rule.tag !== undefined
+        || rule.hasNbt !== undefined;
+}
+
+// ========================================
+// Private helpers
+// ========================================
+
+/** "occultism:otherstone" -> "occultism" */
+function getNamespace(itemId: string): string {
+    return itemId.split(":")[0];
+}
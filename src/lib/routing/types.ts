@@ -0,0 +1,30 @@
+/**
+ * Routing rule: items matching every given criterion go to `destination`.
+ * Rules are checked in config order, the first match wins.
+ */
+export interface RoutingRule {
+    /** Rule ID (used in routing statistics) */
+    id: string;
+    /** Peripheral name of the destination inventory */
+    destination: string;
+    /** Exact item ID (e.g. "minecraft:bone") */
+    itemId?: string;
+    /** Item namespace (e.g. "occultism" for all "occultism:*" items) */
+    namespace?: string;
+    /** Item tag reported by getItemDetail (e.g. "c:ores") */
+    tag?: string;
+    /** true: only items with NBT data, false: only items without */
+    hasNbt?: boolean;
+}
+
+/**
+ * Item in an inbox slot as seen by the router.
+ */
+export interface RoutedItem {
+    /** Item ID */
+    name: string;
+    /** NBT hash from list() (undefined = no NBT) */
+    nbt?: string;
+    /** Item tags (only loaded if a rule needs them) */
+    tags?: string[];
+}
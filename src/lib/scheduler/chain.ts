@@ -0,0 +1,89 @@
+import { InventoryItemInfo } from "@lib/inventory/types";
+import { RecipeDefinition, StockTarget } from "./stock-based";
+import { getExpectedYield, getRecipeOutputIds } from "./recipes";
+
+/**
+ * Demand of one item in the recipe graph.
+ */
+export interface ItemDemand {
+    /** Own stock target (0 if the item has none or it is currently satisfied) */
+    target: number;
+    /** Items needed as input by downstream recipes */
+    downstream: number;
+    /** Current stock */
+    current: number;
+    /** Items still to produce: max(0, target + downstream - current) */
+    net: number;
+}
+
+/**
+ * Propagate stock demand through the recipe graph (outputs to inputs).
+ *
+ * The net demand of an item is its own deficit plus everything downstream
+ * recipes still have to produce from it: a dust shortage creates sand
+ * demand, which creates dirt demand, and so on up the chain.
+ *
+ * - Demand is converted to input items with the recipe's expected yield
+ * - An input used by several recipes adds up the demand of all of them
+ * - An output produced by several recipes splits its demand evenly across them
+ * - A recipe with several outputs needs enough input for its most demanding output
+ * - Cycles (rejected by the config validator) are cut where they close
+ *
+ * @param recipes - All recipes, regardless of machine type
+ * @returns Demand per item ID, for every item that appears in a recipe or target
+ */
+export function computeChainDemand(
+    recipes: RecipeDefinition[],
+    stockTargets: StockTarget[],
+    inventory: Map<string, InventoryItemInfo>,
+): Map<string, ItemDemand> {
+    const consumers = new Map<string, RecipeDefinition[]>();
+    const producerCount = new Map<string, number>();
+    for (const recipe of recipes) {
+        const list = consumers.get(recipe.input) ?? [];
+        list.push(recipe);
+        consumers.set(recipe.input, list);
+        for (const itemId of getRecipeOutputIds(recipe)) {
+            producerCount.set(itemId, (producerCount.get(itemId) ?? 0) + 1);
+        }
+    }
+
+    const demand = new Map<string, ItemDemand>();
+    const visiting = new Set<string>();
+
+    const visit = (itemId: string): number => {
+        const known = demand.get(itemId);
+        if (known) return known.net;
+        if (visiting.has(itemId)) return 0;
+        visiting.add(itemId);
+
+        let downstream = 0;
+        for (const recipe of consumers.get(itemId) ?? []) {
+            let inputNeeded = 0;
+            for (const outputId of getRecipeOutputIds(recipe)) {
+                const share = visit(outputId) / (producerCount.get(outputId) ?? 1);
+                const perInput = getExpectedYield(recipe, outputId);
+                if (perInput > 0) inputNeeded = math.max(inputNeeded, share / perInput);
+            }
+            downstream += inputNeeded;
+        }
+
+        const target = stockTargets.find((t) => t.itemId === itemId)?.targetCount ?? 0;
+        const current = inventory.get(itemId)?.totalCount ?? 0;
+        const net = math.max(0, target + downstream - current);
+
+        visiting.delete(itemId);
+        demand.set(itemId, { target, downstream, current, net });
+        return net;
+    };
+
+    for (const recipe of recipes) {
+        visit(recipe.input);
+        for (const itemId of getRecipeOutputIds(recipe)) visit(itemId);
+    }
+    for (const target of stockTargets) {
+        visit(target.itemId);
+    }
+
+    return demand;
+}
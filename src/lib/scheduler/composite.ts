@@ -0,0 +1,158 @@
+import { Logger } from "@core/logger";
+import { InventoryItemInfo, SlotInfo } from "@lib/inventory/types";
+import {
+    MachineState,
+    Assignment,
+    Scheduler,
+    ScheduleResult,
+    SchedulingDecision,
+} from "@lib/orchestrator/types";
+
+/**
+ * One strategy in a CompositeScheduler chain.
+ */
+export interface SchedulerStage {
+    /** Stage ID (prefixes the candidate labels of decision records) */
+    id: string;
+    scheduler: Scheduler;
+    /** Only machines of these types (default: all) */
+    machineTypes?: string[];
+}
+
+/**
+ * Chains several schedulers in priority order.
+ *
+ * Every stage sees the machines the previous stages left without an assignment
+ * (assigned machines are passed with needsRefill = false, for context) and the
+ * inventory minus everything the previous stages assigned.
+ *
+ * Decision records of all stages are merged per machine: candidates of every
+ * stage (labelled "<stage>: ..."), the assignment of the stage that got the
+ * machine, otherwise the reason of the last stage that saw it.
+ */
+export class CompositeScheduler implements Scheduler {
+    constructor(
+        private stages: SchedulerStage[],
+        private log: Logger,
+    ) {}
+
+    /**
+     * Stages in priority order.
+     */
+    getStages(): SchedulerStage[] {
+        return this.stages;
+    }
+
+    schedule(
+        machines: MachineState[],
+        inventory: Map<string, InventoryItemInfo>,
+    ): Assignment[] {
+        return this.scheduleWithDecisions(machines, inventory).assignments;
+    }
+
+    observe(inventory: Map<string, InventoryItemInfo>): void {
+        for (const stage of this.stages) {
+            stage.scheduler.observe?.(inventory);
+        }
+    }
+
+    scheduleWithDecisions(
+        machines: MachineState[],
+        inventory: Map<string, InventoryItemInfo>,
+    ): ScheduleResult {
+        const assignments: Assignment[] = [];
+        const decisions = new Map<string, SchedulingDecision>();
+        const assigned = new Set<string>();
+
+        // Create local inventory copy for tracking (deep copy slots)
+        const remaining = new Map<string, InventoryItemInfo>();
+        for (const [key, value] of inventory) {
+            remaining.set(key, {
+                totalCount: value.totalCount,
+                slots: value.slots.map((s: SlotInfo) => ({ slot: s.slot, count: s.count, source: s.source })),
+            });
+        }
+
+        for (const stage of this.stages) {
+            const stageMachines = machines.map((m) => ({
+                ...m,
+                needsRefill: m.needsRefill && !assigned.has(m.id) && this.appliesTo(stage, m),
+            }));
+            if (!stageMachines.some((m) => m.needsRefill)) continue;
+
+            const result = stage.scheduler.scheduleWithDecisions
+                ? stage.scheduler.scheduleWithDecisions(stageMachines, remaining)
+                : { assignments: stage.scheduler.schedule(stageMachines, remaining), decisions: [] };
+
+            for (const decision of result.decisions) {
+                this.mergeDecision(decisions, stage.id, decision);
+            }
+            for (const assignment of result.assignments) {
+                if (assigned.has(assignment.machineId)) continue;
+                assigned.add(assignment.machineId);
+                assignments.push(assignment);
+                this.debit(remaining, assignment);
+
+                const decision = this.getDecision(decisions, assignment.machineId);
+                decision.assignedItem = assignment.itemId;
+                decision.assignedAmount = assignment.amount;
+                decision.reason = undefined;
+            }
+
+            this.log.debug("Scheduler stage done", { stage: stage.id, assignments: result.assignments.length });
+        }
+
+        return { assignments, decisions: [...decisions.values()] };
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private appliesTo(stage: SchedulerStage, machine: MachineState): boolean {
+        return !stage.machineTypes || stage.machineTypes.includes(machine.type);
+    }
+
+    private getDecision(decisions: Map<string, SchedulingDecision>, machineId: string): SchedulingDecision {
+        let decision = decisions.get(machineId);
+        if (!decision) {
+            decision = { machineId, candidates: [] };
+            decisions.set(machineId, decision);
+        }
+        return decision;
+    }
+
+    /**
+     * Add a stage's decision record to the merged record of its machine.
+     */
+    private mergeDecision(decisions: Map<string, SchedulingDecision>, stageId: string, decision: SchedulingDecision): void {
+        const merged = this.getDecision(decisions, decision.machineId);
+        for (const candidate of decision.candidates) {
+            merged.candidates.push({ ...candidate, label: `${stageId}: ${candidate.label}` });
+        }
+        if (merged.assignedItem === undefined && decision.assignedItem === undefined) {
+            merged.reason = decision.reason;
+        }
+    }
+
+    /**
+     * Remove the slots of an assignment from the remaining inventory.
+     */
+    private debit(remaining: Map<string, InventoryItemInfo>, assignment: Assignment): void {
+        const info = remaining.get(assignment.itemId);
+        if (!info) return;
+
+        for (const taken of assignment.sourceSlots) {
+            const slotInfo = info.slots.find((s) => s.slot === taken.slot && s.source === taken.source);
+            if (!slotInfo) continue;
+            const count = math.min(slotInfo.count, taken.count);
+            slotInfo.count -= count;
+            info.totalCount -= count;
+        }
+
+        info.slots = info.slots.filter((s: SlotInfo) => s.count > 0);
+        if (info.totalCount <= 0) {
+            remaining.delete(assignment.itemId);
+        }
+    }
+}
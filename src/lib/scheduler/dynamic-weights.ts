@@ -0,0 +1,31 @@
+import { DynamicWeightOptions, MaterialDefinition } from "./types";
+
+/**
+ * Effective weight of a material for its current stock.
+ *
+ * The stock ratio is stock / minStock (stock capped at softMax, minStock at
+ * least 1), so a material twice above its minimum gets twice the linear weight.
+ * Weight 0 materials stay at 0 (fallback only).
+ */
+export function computeEffectiveWeight(
+    material: MaterialDefinition,
+    stock: number,
+    options: DynamicWeightOptions,
+): number {
+    if (material.weight <= 0) return 0;
+
+    const capped = material.softMax !== undefined ? math.min(stock, material.softMax) : stock;
+    const ratio = math.max(0, capped) / math.max(material.minStock, 1);
+
+    let factor = ratio;
+    if (options.curve === "sqrt") {
+        factor = math.sqrt(ratio);
+    } else if (options.curve === "log") {
+        factor = math.log(1 + ratio) / math.log(2);
+    }
+    if (options.maxFactor !== undefined) {
+        factor = math.min(factor, options.maxFactor);
+    }
+
+    return material.weight * factor;
+}
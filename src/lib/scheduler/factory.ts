@@ -0,0 +1,154 @@
+import { Logger } from "@core/logger";
+import { MachineOverrides, Scheduler } from "@lib/orchestrator/types";
+import { CompositeScheduler, SchedulerStage } from "./composite";
+import { PlanningMode, RecipeDefinition, StockBasedScheduler, StockTarget } from "./stock-based";
+import { WeightedScheduler } from "./weighted";
+import {
+    DynamicWeightOptions,
+    MachineTypeDefinition,
+    MaterialDefinition,
+    SchedulerKind,
+    SchedulerStageConfig,
+    SelectionStrategy,
+} from "./types";
+
+/**
+ * Scheduler settings of a task, used by every stage that doesn't bring its own.
+ */
+export interface SchedulerSources {
+    transferAmount: number;
+    recipes?: Record<string, RecipeDefinition[]>;
+    stockTargets?: StockTarget[];
+    planning?: PlanningMode;
+    materials?: Record<string, MaterialDefinition>;
+    machineTypes?: Record<string, MachineTypeDefinition>;
+    /** Machine type overrides of a task without machine type definitions */
+    typeOverrides?: Record<string, MachineOverrides>;
+    selection?: SelectionStrategy;
+    seed?: number;
+    dynamicWeights?: DynamicWeightOptions;
+}
+
+/**
+ * Build the scheduler of a task from its stage list (validated config).
+ * A single stage for all machines is returned as is, several are chained
+ * in a CompositeScheduler.
+ */
+export function createScheduler(
+    stages: SchedulerStageConfig[],
+    sources: SchedulerSources,
+    log: Logger,
+): Scheduler {
+    const built: SchedulerStage[] = stages.map((stage) => ({
+        id: stage.id,
+        scheduler: createStageScheduler(stage, sources, log),
+        machineTypes: stage.machineTypes,
+    }));
+
+    if (built.length === 1 && !built[0].machineTypes) return built[0].scheduler;
+    return new CompositeScheduler(built, log);
+}
+
+/**
+ * Scheduler of the given class: the scheduler itself or one of its composite stages.
+ *
+ * @param stageId - Composite stage to look at (default: the first stage of that class)
+ */
+export function findScheduler<T extends Scheduler>(
+    scheduler: Scheduler,
+    type: new (...args: never[]) => T,
+    stageId?: string,
+): T | undefined {
+    if (scheduler instanceof type) return scheduler;
+    if (scheduler instanceof CompositeScheduler) {
+        for (const stage of scheduler.getStages()) {
+            if (stageId !== undefined && stage.id !== stageId) continue;
+            if (stage.scheduler instanceof type) return stage.scheduler;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Stage that stands for a strategy in a task's state: the first one of that kind
+ * without an item filter, else the first one of that kind.
+ */
+export function findPrimaryStage(stages: SchedulerStageConfig[], kind: SchedulerKind): SchedulerStageConfig | undefined {
+    return stages.find((s) => s.kind === kind && !s.items) ?? stages.find((s) => s.kind === kind);
+}
+
+/**
+ * One-line description of a stage list for diagnostics.
+ */
+export function describeStages(stages: SchedulerStageConfig[]): string {
+    return stages.map((stage) => {
+        const filters: string[] = [];
+        if (stage.machineTypes) filters.push(`types: ${stage.machineTypes.join(", ")}`);
+        if (stage.items) filters.push(`items: ${stage.items.join(", ")}`);
+        return `${stage.id} (${stage.kind}${filters.length > 0 ? `; ${filters.join("; ")}` : ""})`;
+    }).join(" -> ");
+}
+
+// ========================================
+// Private helpers
+// ========================================
+
+function createStageScheduler(stage: SchedulerStageConfig, sources: SchedulerSources, log: Logger): Scheduler {
+    const recipes = stage.recipes ?? sources.recipes ?? {};
+
+    if (stage.kind === "stock-based") {
+        const stockTargets = stage.stockTargets ?? sources.stockTargets ?? [];
+        return new StockBasedScheduler(
+            {
+                recipes,
+                stockTargets: stage.items ? stockTargets.filter((t) => stage.items!.includes(t.itemId)) : stockTargets,
+                transferAmount: sources.transferAmount,
+                planning: sources.planning,
+                machineTypes: sources.machineTypes ?? sources.typeOverrides,
+            },
+            log,
+        );
+    }
+
+    let materials = stage.materials ?? sources.materials ?? {};
+    if (stage.items) {
+        const filtered: Record<string, MaterialDefinition> = {};
+        for (const id of stage.items) {
+            if (materials[id]) filtered[id] = materials[id];
+        }
+        materials = filtered;
+    }
+    return new WeightedScheduler(
+        {
+            materials,
+            machineTypes: sources.machineTypes ?? deriveMachineTypes(recipes, materials, sources.typeOverrides ?? {}),
+            transferAmount: sources.transferAmount,
+            selection: sources.selection,
+            seed: sources.seed,
+            dynamicWeights: sources.dynamicWeights,
+        },
+        log,
+    );
+}
+
+/**
+ * Machine types for a weighted stage without machine type definitions:
+ * every machine type supports the materials its recipes take as input.
+ */
+function deriveMachineTypes(
+    recipes: Record<string, RecipeDefinition[]>,
+    materials: Record<string, MaterialDefinition>,
+    typeOverrides: Record<string, MachineOverrides>,
+): Record<string, MachineTypeDefinition> {
+    const machineTypes: Record<string, MachineTypeDefinition> = {};
+    for (const [type, typeRecipes] of Object.entries(recipes)) {
+        machineTypes[type] = {
+            ...(typeOverrides[type] ?? {}),
+            id: type,
+            supportedMaterials: Object.values(materials)
+                .filter((m) => typeRecipes.some((r) => r.input === m.itemId))
+                .map((m) => m.id),
+        };
+    }
+    return machineTypes;
+}
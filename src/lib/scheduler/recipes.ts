@@ -0,0 +1,53 @@
+import { RecipeDefinition, RecipeOutput } from "./stock-based";
+
+/**
+ * Outputs of a recipe; the `output` shorthand becomes one output with count 1 and chance 1.
+ */
+export function getRecipeOutputs(recipe: RecipeDefinition): RecipeOutput[] {
+    if (recipe.outputs) return recipe.outputs;
+    return recipe.output !== undefined ? [{ itemId: recipe.output }] : [];
+}
+
+/**
+ * Item IDs a recipe can produce (in declaration order).
+ */
+export function getRecipeOutputIds(recipe: RecipeDefinition): string[] {
+    return getRecipeOutputs(recipe).map((o) => o.itemId);
+}
+
+/**
+ * Expected items of `itemId` per input item: count * chance / inputCount (0 if not an output).
+ */
+export function getExpectedYield(recipe: RecipeDefinition, itemId: string): number {
+    let perOperation = 0;
+    for (const output of getRecipeOutputs(recipe)) {
+        if (output.itemId === itemId) {
+            perOperation += (output.count ?? 1) * (output.chance ?? 1);
+        }
+    }
+    return perOperation / (recipe.inputCount ?? 1);
+}
+
+/**
+ * Expected output of processing `inputItems` input items.
+ * Leftover inputs below inputCount can't be processed and yield nothing.
+ *
+ * @returns Expected count per output item ID
+ */
+export function getExpectedOutputs(recipe: RecipeDefinition, inputItems: number): Map<string, number> {
+    const operations = math.floor(inputItems / (recipe.inputCount ?? 1));
+    const expected = new Map<string, number>();
+    for (const output of getRecipeOutputs(recipe)) {
+        const count = operations * (output.count ?? 1) * (output.chance ?? 1);
+        expected.set(output.itemId, (expected.get(output.itemId) ?? 0) + count);
+    }
+    return expected;
+}
+
+/**
+ * Seconds a machine needs to process `inputItems` input items, undefined if the recipe has no processing time.
+ */
+export function getProcessingSeconds(recipe: RecipeDefinition, inputItems: number): number | undefined {
+    if (recipe.processingSeconds === undefined) return undefined;
+    return math.ceil(inputItems / (recipe.inputCount ?? 1)) * recipe.processingSeconds;
+}
@@ -0,0 +1,25 @@
+const MODULUS = 2147483647;
+const MULTIPLIER = 16807;
+
+/**
+ * Seedable pseudo-random number generator (Park-Miller minimal standard LCG).
+ *
+ * Uses float arithmetic only (products stay below 2^53), so a seed gives the
+ * same sequence in CC:Tweaked and under plain Lua.
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = math.floor(math.abs(seed)) % MODULUS;
+        if (this.state === 0) this.state = 1;
+    }
+
+    /**
+     * Next number in [0, 1).
+     */
+    next(): number {
+        this.state = (this.state * MULTIPLIER) % MODULUS;
+        return (this.state - 1) / (MODULUS - 1);
+    }
+}
@@ -1,15 +1,48 @@
 import { Logger } from "@core/logger";
 import { InventoryItemInfo, SlotInfo } from "@lib/inventory/types";
-import { MachineState, Assignment, Scheduler } from "@lib/orchestrator/types";
+import {
+    MachineState,
+    Assignment,
+    CandidateDecision,
+    DecisionReason,
+    MachineOverrides,
+    Scheduler,
+    ScheduleResult,
+    SchedulingDecision,
+} from "@lib/orchestrator/types";
+import { getRefillAmount } from "@lib/orchestrator/refill";
+import { getWeightMultiplier, isItemAllowed, mergeOverrides } from "@lib/orchestrator/overrides";
+import { takeSlots } from "@lib/inventory/slots";
+import { ItemDemand, computeChainDemand } from "./chain";
+import { getExpectedYield, getRecipeOutputIds, getRecipeOutputs } from "./recipes";
+
+/**
+ * One output of a recipe.
+ */
+export interface RecipeOutput {
+    /** Output Minecraft item ID */
+    itemId: string;
+    /** Items produced per operation when the output drops (default: 1) */
+    count?: number;
+    /** Probability that the output drops per operation, 0-1 (default: 1) */
+    chance?: number;
+}
 
 /**
  * A recipe that a machine can process.
+ * Set either `output` (one item per input item) or `outputs`.
  */
 export interface RecipeDefinition {
     /** Input Minecraft item ID */
     input: string;
-    /** Output Minecraft item ID */
-    output: string;
+    /** Input items consumed per operation (default: 1) */
+    inputCount?: number;
+    /** Output Minecraft item ID (shorthand for outputs: [{ itemId: output }]) */
+    output?: string;
+    /** Outputs with expected counts/chances (e.g. sieve drops) */
+    outputs?: RecipeOutput[];
+    /** Seconds one operation takes (optional, used for dashboard estimates) */
+    processingSeconds?: number;
 }
 
 /**
@@ -25,8 +58,26 @@ export interface StockTarget {
     /** Minimum stock before this material can be consumed as input for the next chain step.
      *  Defaults to 0 if not set (no reserve). */
     minReserve?: number;
+    /** Start producing when stock drops below this count (default: targetCount) */
+    lowWater?: number;
+    /** Stop producing once stock reaches this count (default: targetCount) */
+    highWater?: number;
 }
 
+/**
+ * Production state of a stock target (hysteresis between lowWater and highWater).
+ * - "producing": dropped below lowWater, produced until highWater is reached
+ * - "satisfied": reached highWater, not produced until it drops below lowWater again
+ */
+export type StockBand = "producing" | "satisfied";
+
+/**
+ * How recipe urgency is calculated.
+ * - "direct": deficit of the recipe's own output only
+ * - "chain": demand propagated through the recipe graph (see computeChainDemand)
+ */
+export type PlanningMode = "direct" | "chain";
+
 /**
  * Configuration for the StockBasedScheduler.
  */
@@ -37,6 +88,10 @@ export interface StockBasedSchedulerConfig {
     stockTargets: StockTarget[];
     /** Items per transfer */
     transferAmount: number;
+    /** Urgency calculation (default: "direct") */
+    planning?: PlanningMode;
+    /** Overrides per machine type (transfer amount, allowed inputs, urgency multipliers) */
+    machineTypes?: Record<string, MachineOverrides>;
 }
 
 /**
@@ -45,121 +100,231 @@ export interface StockBasedSchedulerConfig {
 interface ScoredRecipe {
     recipe: RecipeDefinition;
     urgency: number;
+    /** Why the urgency is 0, if it isn't just a met target */
+    reason?: DecisionReason;
 }
 
 /**
  * Stock-based scheduler for production systems.
  *
  * Algorithm:
- * 1. For each StockTarget: urgency = max(0, (target - current) / target) * weight
- * 2. For each empty machine: find recipe whose OUTPUT has highest urgency
- * 3. Check if INPUT material is available (above minReserve + transferAmount)
+ * 1. For each StockTarget that is "producing": urgency = max(0, (highWater - current) / highWater) * weight
+ *    (satisfied targets have urgency 0 until they drop below lowWater)
+ * 2. For each machine needing a refill: find recipe whose OUTPUTS have the highest urgency,
+ *    each output counted with its expected yield per input item
+ *    (partially filled machines only consider recipes for their current input)
+ * 3. Check if INPUT material is available (above minReserve + refill amount,
+ *    rounded down to whole operations of inputCount)
  * 4. Distribute machines proportionally to urgency
+ *
+ * Machine overrides (per type and per machine) restrict the recipes by input,
+ * scale the urgency per input and replace the transfer amount.
+ *
+ * Chain planning replaces step 1: urgency = open demand of the outputs (own
+ * deficit + downstream demand, minus the expected yield of this cycle's assignments) * weight.
+ * Upstream steps collect the demand of the whole chain below them and get
+ * machines first, so the chain fills up from the top instead of draining it.
  */
 export class StockBasedScheduler implements Scheduler {
+    private demand = new Map<string, ItemDemand>();
+    private bands = new Map<string, StockBand>();
+
     constructor(
         private config: StockBasedSchedulerConfig,
         private log: Logger,
     ) {}
 
+    /**
+     * Demand per item from the last chain-planned schedule (empty in direct mode).
+     */
+    getDemand(): Map<string, ItemDemand> {
+        return this.demand;
+    }
+
+    /**
+     * Band of every stock target as of the last schedule.
+     */
+    getBands(): Map<string, StockBand> {
+        return this.bands;
+    }
+
     schedule(
         machines: MachineState[],
         inventory: Map<string, InventoryItemInfo>,
     ): Assignment[] {
+        return this.scheduleWithDecisions(machines, inventory).assignments;
+    }
+
+    /**
+     * Cycle without refills: keep bands and chain demand in step with the stock.
+     */
+    observe(inventory: Map<string, InventoryItemInfo>): void {
+        this.updateBands(inventory);
+        if (this.config.planning === "chain") this.planDemand(inventory);
+    }
+
+    scheduleWithDecisions(
+        machines: MachineState[],
+        inventory: Map<string, InventoryItemInfo>,
+    ): ScheduleResult {
         const assignments: Assignment[] = [];
+        const decisions: SchedulingDecision[] = [];
 
         // Create local inventory copy for tracking (deep copy slots)
         const localInventory = new Map<string, InventoryItemInfo>();
         for (const [key, value] of inventory) {
             localInventory.set(key, {
                 totalCount: value.totalCount,
-                slots: value.slots.map((s: SlotInfo) => ({ slot: s.slot, count: s.count })),
+                slots: value.slots.map((s: SlotInfo) => ({ slot: s.slot, count: s.count, source: s.source })),
             });
         }
 
-        // Get empty machines
-        const emptyMachines = machines.filter((m) => m.isEmpty);
-        if (emptyMachines.length === 0) return assignments;
+        // Cycles without refills reach the bands through observe()
+        this.updateBands(inventory);
+
+        // Get machines that need a refill
+        const refillMachines = machines.filter((m) => m.needsRefill);
+        if (refillMachines.length === 0) return { assignments, decisions };
+
+        // Chain planning: open demand per output, reduced by every assignment
+        const openDemand = this.config.planning === "chain" ? this.planDemand(inventory) : undefined;
+
+        // For each machine, find best recipe
+        for (const machine of refillMachines) {
+            const decision: SchedulingDecision = { machineId: machine.id, candidates: [] };
+            decisions.push(decision);
 
-        // For each empty machine, find best recipe
-        for (const machine of emptyMachines) {
             const recipes = this.config.recipes[machine.type];
             if (!recipes || recipes.length === 0) {
                 this.log.debug("No recipes for machine type", { type: machine.type });
+                decision.reason = "unknown_machine_type";
                 continue;
             }
 
-            // Score each recipe by output urgency
-            const scored = this.scoreRecipes(recipes, localInventory);
-            if (scored.length === 0) continue;
+            const overrides = mergeOverrides(this.config.machineTypes?.[machine.type], machine.overrides);
 
-            // Sort by urgency descending (tiebreaker by output name for stability)
+            // Partially filled chest: keep feeding the same input (don't mix materials)
+            const candidates = recipes.filter((r) =>
+                (!machine.currentItem || r.input === machine.currentItem) && isItemAllowed(overrides, r.input),
+            );
+            for (const recipe of recipes) {
+                if (candidates.includes(recipe)) continue;
+                const allowed = isItemAllowed(overrides, recipe.input);
+                decision.candidates.push({
+                    label: this.describeRecipe(recipe),
+                    itemId: recipe.input,
+                    score: 0,
+                    rejected: allowed ? "not_current_item" : "not_allowed",
+                    detail: allowed ? `chest holds ${machine.currentItem}` : undefined,
+                });
+            }
+
+            const refillAmount = getRefillAmount(machine, overrides.transferAmount ?? this.config.transferAmount);
+            if (refillAmount <= 0) {
+                decision.reason = "no_refill_amount";
+                continue;
+            }
+
+            // Score each recipe by output urgency (times the machine's multiplier for its input)
+            const scored = openDemand
+                ? this.scoreRecipesByDemand(candidates, openDemand)
+                : this.scoreRecipes(candidates, localInventory);
+            for (const entry of scored) {
+                entry.urgency *= getWeightMultiplier(overrides, entry.recipe.input);
+            }
+
+            // Sort by urgency descending (tiebreaker by first output name for stability)
             scored.sort((a, b) => {
                 if (b.urgency !== a.urgency) return b.urgency - a.urgency;
-                return a.recipe.output < b.recipe.output ? -1 : 1;
+                return (getRecipeOutputIds(a.recipe)[0] ?? "") < (getRecipeOutputIds(b.recipe)[0] ?? "") ? -1 : 1;
             });
 
             // Try recipes in urgency order until we find one with available input
-            let assigned = false;
-            for (const { recipe, urgency } of scored) {
-                if (urgency <= 0) continue;
+            for (const { recipe, urgency, reason } of scored) {
+                const candidate: CandidateDecision = {
+                    label: this.describeRecipe(recipe),
+                    itemId: recipe.input,
+                    score: urgency,
+                };
+                decision.candidates.push(candidate);
+
+                if (decision.assignedItem !== undefined) {
+                    candidate.rejected = "not_selected";
+                    continue;
+                }
+                if (urgency <= 0) {
+                    candidate.rejected = reason ?? "zero_urgency";
+                    continue;
+                }
+
+                // Whole operations only: leftovers below inputCount would never be processed
+                const inputCount = recipe.inputCount ?? 1;
+                const amount = refillAmount - (refillAmount % inputCount);
+                if (amount <= 0) {
+                    candidate.rejected = "below_input_count";
+                    candidate.detail = `refill ${refillAmount}, input count ${inputCount}`;
+                    continue;
+                }
 
                 const inputInfo = localInventory.get(recipe.input);
-                if (!inputInfo) continue;
+                if (!inputInfo) {
+                    candidate.rejected = "out_of_stock";
+                    continue;
+                }
 
                 // Check per-material minReserve (0 if not set, e.g. for Cobblestone)
                 const inputTarget = this.config.stockTargets.find(
                     (t) => t.itemId === recipe.input,
                 );
                 const reserve = inputTarget?.minReserve ?? 0;
-                const required = reserve + this.config.transferAmount;
-                if (inputInfo.totalCount < required) continue;
+                const required = reserve + amount;
+                if (inputInfo.totalCount < required) {
+                    candidate.rejected = "below_min_reserve";
+                    candidate.detail = `have ${inputInfo.totalCount}, need ${required}`;
+                    continue;
+                }
 
-                // Find a slot with enough items, fallback to first slot
-                const slotInfo = inputInfo.slots.find(
-                    (s: SlotInfo) => s.count >= this.config.transferAmount,
-                ) ?? inputInfo.slots[0];
-                if (!slotInfo) continue;
+                // Assemble the amount across partial stacks (updates the local inventory)
+                const sourceSlots = takeSlots(inputInfo, amount);
+                if (inputInfo.totalCount <= 0) {
+                    localInventory.delete(recipe.input);
+                }
+                if (openDemand) {
+                    for (const itemId of getRecipeOutputIds(recipe)) {
+                        const produced = amount * getExpectedYield(recipe, itemId);
+                        openDemand.set(itemId, math.max(0, (openDemand.get(itemId) ?? 0) - produced));
+                    }
+                }
 
                 assignments.push({
                     machineId: machine.id,
                     targetChest: machine.inputChest,
                     itemId: recipe.input,
-                    sourceSlot: slotInfo.slot,
-                    amount: this.config.transferAmount,
+                    sourceSlots,
+                    amount,
                 });
-
-                // Update local inventory: reduce slot count, remove empty slots
-                slotInfo.count -= this.config.transferAmount;
-                inputInfo.totalCount -= this.config.transferAmount;
-                if (slotInfo.count <= 0) {
-                    inputInfo.slots = inputInfo.slots.filter((s: SlotInfo) => s !== slotInfo);
-                }
-                if (inputInfo.totalCount <= 0) {
-                    localInventory.delete(recipe.input);
-                }
+                decision.assignedItem = recipe.input;
+                decision.assignedAmount = amount;
 
                 this.log.debug("Assigned recipe to machine", {
                     machine: machine.id,
                     input: recipe.input,
-                    output: recipe.output,
+                    outputs: getRecipeOutputIds(recipe).join(","),
                     urgency,
                 });
-
-                assigned = true;
-                break;
             }
 
-            if (!assigned) {
+            if (decision.assignedItem === undefined) {
+                decision.reason = "no_viable_candidate";
                 this.log.debug("No viable recipe for machine", { id: machine.id });
             }
         }
 
-        return assignments;
+        return { assignments, decisions };
     }
 
     /**
-     * Score recipes by the urgency of their output material.
+     * Score recipes by the urgency of their output materials, weighted by the expected yield per input item.
      */
     private scoreRecipes(
         recipes: RecipeDefinition[],
@@ -168,20 +333,102 @@ export class StockBasedScheduler implements Scheduler {
         const scored: ScoredRecipe[] = [];
 
         for (const recipe of recipes) {
-            // Find stock target for this recipe's output
-            const target = this.config.stockTargets.find((t) => t.itemId === recipe.output);
-            if (!target) {
-                this.log.warn("Recipe output has no stock target", { output: recipe.output });
-                scored.push({ recipe, urgency: 0 });
-                continue;
-            }
+            let urgency = 0;
+            let hasTarget = false;
+            for (const output of getRecipeOutputs(recipe)) {
+                // Find stock target for this output
+                const target = this.config.stockTargets.find((t) => t.itemId === output.itemId);
+                if (!target) {
+                    // Reported once at boot by the config validator
+                    this.log.debug("Recipe output has no stock target", { output: output.itemId });
+                    continue;
+                }
+                hasTarget = true;
+                if (this.bands.get(output.itemId) !== "producing") continue;
 
-            const currentCount = inventory.get(recipe.output)?.totalCount ?? 0;
-            const urgency = math.max(0, (target.targetCount - currentCount) / target.targetCount) * target.weight;
+                const highWater = target.highWater ?? target.targetCount;
+                const currentCount = inventory.get(output.itemId)?.totalCount ?? 0;
+                const deficit = math.max(0, (highWater - currentCount) / highWater);
+                urgency += deficit * target.weight * getExpectedYield(recipe, output.itemId);
+            }
 
-            scored.push({ recipe, urgency });
+            scored.push({ recipe, urgency, reason: hasTarget ? undefined : "no_stock_target" });
         }
 
         return scored;
     }
+
+    /**
+     * Score recipes by the open chain demand of their outputs (in items, times the target weight).
+     */
+    private scoreRecipesByDemand(
+        recipes: RecipeDefinition[],
+        openDemand: Map<string, number>,
+    ): ScoredRecipe[] {
+        return recipes.map((recipe) => {
+            let urgency = 0;
+            for (const itemId of getRecipeOutputIds(recipe)) {
+                const weight = this.config.stockTargets.find((t) => t.itemId === itemId)?.weight ?? 1;
+                urgency += (openDemand.get(itemId) ?? 0) * weight;
+            }
+            return { recipe, urgency };
+        });
+    }
+
+    /**
+     * Compute the chain demand for this cycle and keep it for getDemand().
+     *
+     * @returns Open demand per item ID
+     */
+    private planDemand(inventory: Map<string, InventoryItemInfo>): Map<string, number> {
+        const recipes: RecipeDefinition[] = [];
+        for (const list of Object.values(this.config.recipes)) {
+            recipes.push(...list);
+        }
+        // Satisfied targets add no own demand, producing ones are filled up to highWater
+        const targets = this.config.stockTargets.map((t) => ({
+            ...t,
+            targetCount: this.bands.get(t.itemId) === "producing" ? t.highWater ?? t.targetCount : 0,
+        }));
+        this.demand = computeChainDemand(recipes, targets, inventory);
+
+        const openDemand = new Map<string, number>();
+        for (const [itemId, d] of this.demand) {
+            openDemand.set(itemId, d.net);
+            if (d.net > 0) {
+                this.log.debug("Chain demand", { item: itemId, net: d.net, downstream: d.downstream });
+            }
+        }
+        return openDemand;
+    }
+
+    /**
+     * Recipe label for decision records: "minecraft:gravel -> minecraft:dirt".
+     */
+    private describeRecipe(recipe: RecipeDefinition): string {
+        return `${recipe.input} -> ${getRecipeOutputIds(recipe).join(", ")}`;
+    }
+
+    /**
+     * Move targets between bands: below lowWater starts production, highWater stops it,
+     * in between the previous band is kept (new targets start as satisfied).
+     */
+    private updateBands(inventory: Map<string, InventoryItemInfo>): void {
+        for (const target of this.config.stockTargets) {
+            const current = inventory.get(target.itemId)?.totalCount ?? 0;
+            const previous = this.bands.get(target.itemId);
+
+            let band: StockBand = previous ?? "satisfied";
+            if (current < (target.lowWater ?? target.targetCount)) {
+                band = "producing";
+            } else if (current >= (target.highWater ?? target.targetCount)) {
+                band = "satisfied";
+            }
+
+            if (previous !== undefined && band !== previous) {
+                this.log.debug("Stock band changed", { item: target.itemId, band, current });
+            }
+            this.bands.set(target.itemId, band);
+        }
+    }
 }
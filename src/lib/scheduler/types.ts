@@ -1,3 +1,6 @@
+import { MachineOverrides } from "@lib/orchestrator/types";
+import { RecipeDefinition, StockTarget } from "./stock-based";
+
 // Re-export Scheduler interface from orchestrator
 export type { Scheduler } from "@lib/orchestrator/types";
 
@@ -13,15 +16,85 @@ export interface MaterialDefinition {
     minStock: number;
     /** Weight for selection probability (higher = more likely) */
     weight: number;
+    /** Dynamic weights: stock above this count no longer raises the weight (default: no ceiling) */
+    softMax?: number;
 }
 
 /**
  * Definition of a machine type for scheduling.
- * Maps machine type IDs to the materials they can process.
+ * Maps machine type IDs to the materials they can process; overrides apply to every machine of the type.
  */
-export interface MachineTypeDefinition {
+export interface MachineTypeDefinition extends MachineOverrides {
     /** Machine type ID (e.g., "brusher") */
     id: string;
     /** Material IDs this type can process */
     supportedMaterials: string[];
 }
+
+/**
+ * How the WeightedScheduler picks among available materials.
+ * - "random": weighted random selection (seedable)
+ * - "round-robin": smooth weighted round-robin, each material gets its
+ *   weight-proportional share of selections over time
+ */
+export type SelectionStrategy = "random" | "round-robin";
+
+/**
+ * Selection counters of one material, kept by the WeightedScheduler instance
+ * (they start at zero with every new scheduler).
+ */
+export interface SelectionCounter {
+    /** Times the material was selected */
+    selected: number;
+    /** Round-robin credit: grows by the weight while waiting, drops when selected */
+    credit: number;
+}
+
+/**
+ * Curve that turns the stock ratio (stock / minStock) into a weight factor.
+ * - "linear": factor = ratio
+ * - "sqrt": factor = sqrt(ratio), damps large stocks
+ * - "log": factor = log2(1 + ratio), damps large stocks even more
+ */
+export type WeightCurve = "linear" | "sqrt" | "log";
+
+/**
+ * Stock-driven weights: effective weight = weight * curve(stock / minStock).
+ */
+export interface DynamicWeightOptions {
+    /** Curve applied to the stock ratio */
+    curve: WeightCurve;
+    /** Upper limit for the factor (default: no limit) */
+    maxFactor?: number;
+}
+
+/**
+ * Scheduling strategy of a scheduler stage.
+ * - "stock-based": recipes by output urgency (StockBasedScheduler)
+ * - "weighted": materials by weight (WeightedScheduler)
+ */
+export type SchedulerKind = "stock-based" | "weighted";
+
+/**
+ * One stage of a task's scheduler chain. Stages run in list order; each one
+ * only gets the machines and stock the previous stages left over.
+ *
+ * Recipes, stock targets and materials default to the task's own config,
+ * so a task only needs them here for a strategy it doesn't normally use.
+ */
+export interface SchedulerStageConfig {
+    /** Stage ID (logs, decision records) */
+    id: string;
+    /** Strategy of this stage */
+    kind: SchedulerKind;
+    /** Only machines of these types (default: all) */
+    machineTypes?: string[];
+    /** Only these stock target item IDs (stock-based) or material IDs (weighted) (default: all) */
+    items?: string[];
+    /** Stock-based: recipes per machine type */
+    recipes?: Record<string, RecipeDefinition[]>;
+    /** Stock-based: stock targets */
+    stockTargets?: StockTarget[];
+    /** Weighted: material definitions (machine types without a definition support every material a recipe takes as input) */
+    materials?: Record<string, MaterialDefinition>;
+}
@@ -1,14 +1,34 @@
 import { Logger } from "@core/logger";
 import { InventoryItemInfo, SlotInfo } from "@lib/inventory/types";
-import { MachineState, Assignment, Scheduler } from "@lib/orchestrator/types";
-import { MaterialDefinition, MachineTypeDefinition } from "./types";
+import {
+    MachineState,
+    Assignment,
+    CandidateDecision,
+    MachineOverrides,
+    Scheduler,
+    ScheduleResult,
+    SchedulingDecision,
+} from "@lib/orchestrator/types";
+import { getRefillAmount } from "@lib/orchestrator/refill";
+import { getWeightMultiplier, isItemAllowed, mergeOverrides } from "@lib/orchestrator/overrides";
+import { takeSlots } from "@lib/inventory/slots";
+import { SeededRandom } from "./rng";
+import { computeEffectiveWeight } from "./dynamic-weights";
+import {
+    DynamicWeightOptions,
+    MaterialDefinition,
+    MachineTypeDefinition,
+    SelectionCounter,
+    SelectionStrategy,
+} from "./types";
 
 /**
  * Available material for selection (internal).
  */
 interface AvailableMaterial {
     definition: MaterialDefinition;
-    slots: SlotInfo[];
+    /** Weight multiplier of the machine for this material */
+    multiplier: number;
 }
 
 /**
@@ -21,107 +41,186 @@ export interface WeightedSchedulerConfig {
     machineTypes: Record<string, MachineTypeDefinition>;
     /** Items per transfer */
     transferAmount: number;
+    /** Selection strategy (default: "random") */
+    selection?: SelectionStrategy;
+    /** Seed for random selection, makes decisions reproducible (default: math.random) */
+    seed?: number;
+    /** Scale weights by the current stock (default: static weights) */
+    dynamicWeights?: DynamicWeightOptions;
 }
 
 /**
  * Weighted random scheduler for material distribution.
  *
- * For each empty machine:
+ * For each machine needing a refill:
  * 1. Get supported materials for that machine type
- * 2. Filter to materials with enough stock
- * 3. Weighted random selection
+ * 2. Filter to materials with enough stock (partially filled machines: only their current material)
+ * 3. Weighted random selection, or smooth weighted round-robin:
+ *    every candidate earns its weight as credit, the one with the most credit
+ *    is selected and pays the total weight of all candidates
  * 4. Create assignment
+ *
+ * Machine overrides (machine type definition and machine config) restrict the
+ * materials, scale their weights per machine and replace the transfer amount.
+ *
+ * Selection counters live in the scheduler instance, so round-robin credit carries
+ * over between cycles but not to a new scheduler (e.g. after a restart).
+ * With dynamic weights, the weights are recomputed from the stock at the start of every cycle.
  */
 export class WeightedScheduler implements Scheduler {
+    private random?: SeededRandom;
+    private counters = new Map<string, SelectionCounter>();
+    private effectiveWeights = new Map<string, number>();
+
     constructor(
         private config: WeightedSchedulerConfig,
         private log: Logger,
-    ) {}
+    ) {
+        if (config.seed !== undefined) {
+            this.random = new SeededRandom(config.seed);
+        }
+    }
+
+    /**
+     * Selection counters per material ID (only materials that were candidates so far).
+     */
+    getCounters(): Map<string, SelectionCounter> {
+        return this.counters;
+    }
+
+    /**
+     * Weight per material ID used in the last cycle (configured weights without dynamic weights).
+     */
+    getEffectiveWeights(): Map<string, number> {
+        return this.effectiveWeights;
+    }
 
     schedule(
         machines: MachineState[],
         inventory: Map<string, InventoryItemInfo>,
     ): Assignment[] {
+        return this.scheduleWithDecisions(machines, inventory).assignments;
+    }
+
+    scheduleWithDecisions(
+        machines: MachineState[],
+        inventory: Map<string, InventoryItemInfo>,
+    ): ScheduleResult {
         const assignments: Assignment[] = [];
+        const decisions: SchedulingDecision[] = [];
 
         // Create local inventory copy for tracking (deep copy slots)
         const localInventory = new Map<string, InventoryItemInfo>();
         for (const [key, value] of inventory) {
             localInventory.set(key, {
                 totalCount: value.totalCount,
-                slots: value.slots.map((s: SlotInfo) => ({ slot: s.slot, count: s.count })),
+                slots: value.slots.map((s: SlotInfo) => ({ slot: s.slot, count: s.count, source: s.source })),
             });
         }
 
+        this.updateEffectiveWeights(inventory);
+
         for (const machine of machines) {
-            if (!machine.isEmpty) continue;
+            if (!machine.needsRefill) continue;
+
+            const decision: SchedulingDecision = { machineId: machine.id, candidates: [] };
+            decisions.push(decision);
 
             const machineType = this.config.machineTypes[machine.type];
             if (!machineType) {
                 this.log.warn("Unknown machine type", { id: machine.id, type: machine.type });
+                decision.reason = "unknown_machine_type";
+                continue;
+            }
+
+            const overrides = mergeOverrides(machineType, machine.overrides);
+            const amount = getRefillAmount(machine, overrides.transferAmount ?? this.config.transferAmount);
+            if (amount <= 0) {
+                decision.reason = "no_refill_amount";
                 continue;
             }
 
             // Filter to available materials
-            const available = this.getAvailableMaterials(
+            let available = this.getAvailableMaterials(
                 machineType,
+                overrides,
                 localInventory,
-                this.config.transferAmount,
+                amount,
+                decision.candidates,
             );
 
+            // Partially filled chest: keep feeding the same material (don't mix)
+            if (machine.currentItem) {
+                for (const mat of available) {
+                    if (mat.definition.itemId === machine.currentItem) continue;
+                    decision.candidates.push({
+                        ...this.describeMaterial(mat),
+                        rejected: "not_current_item",
+                        detail: `chest holds ${machine.currentItem}`,
+                    });
+                }
+                available = available.filter((m) => m.definition.itemId === machine.currentItem);
+            }
+
             if (available.length === 0) {
                 this.log.debug("No materials available for machine", {
                     id: machine.id,
                     type: machine.type,
                 });
+                decision.reason = "no_viable_candidate";
                 continue;
             }
 
-            // Weighted random selection
-            const selected = this.weightedSelect(available);
+            const selected = this.config.selection === "round-robin"
+                ? this.roundRobinSelect(available)
+                : this.weightedSelect(available);
             if (!selected) continue;
+            this.getCounter(selected.definition.id).selected++;
 
-            // Find a slot with enough items, fallback to first slot
-            const slotInfo = selected.slots.find(
-                (s: SlotInfo) => s.count >= this.config.transferAmount,
-            ) ?? selected.slots[0];
-            if (!slotInfo) continue;
+            for (const mat of available) {
+                decision.candidates.push({
+                    ...this.describeMaterial(mat),
+                    rejected: mat === selected ? undefined : "not_selected",
+                });
+            }
+
+            // Assemble the amount across partial stacks (updates the local inventory)
+            const itemInfo = localInventory.get(selected.definition.itemId);
+            if (!itemInfo) continue;
+            const sourceSlots = takeSlots(itemInfo, amount);
+            if (itemInfo.totalCount <= 0) {
+                localInventory.delete(selected.definition.itemId);
+            }
 
             assignments.push({
                 machineId: machine.id,
                 targetChest: machine.inputChest,
                 itemId: selected.definition.itemId,
-                sourceSlot: slotInfo.slot,
-                amount: this.config.transferAmount,
+                sourceSlots,
+                amount,
             });
-
-            // Update local inventory: reduce slot count, remove empty slots
-            const itemInfo = localInventory.get(selected.definition.itemId);
-            if (itemInfo) {
-                slotInfo.count -= this.config.transferAmount;
-                itemInfo.totalCount -= this.config.transferAmount;
-                if (slotInfo.count <= 0) {
-                    itemInfo.slots = itemInfo.slots.filter((s: SlotInfo) => s !== slotInfo);
-                }
-                if (itemInfo.totalCount <= 0) {
-                    localInventory.delete(selected.definition.itemId);
-                }
-            }
+            decision.assignedItem = selected.definition.itemId;
+            decision.assignedAmount = amount;
 
             this.log.debug("Assigned material to machine", {
                 machine: machine.id,
                 material: selected.definition.id,
-                slot: slotInfo.slot,
+                slots: sourceSlots.length,
             });
         }
 
-        return assignments;
+        return { assignments, decisions };
     }
 
+    /**
+     * Supported materials with enough stock; the others are added to `rejected`.
+     */
     private getAvailableMaterials(
         machineType: MachineTypeDefinition,
+        overrides: MachineOverrides,
         inventory: Map<string, InventoryItemInfo>,
         transferAmount: number,
+        rejected: CandidateDecision[],
     ): AvailableMaterial[] {
         const available: AvailableMaterial[] = [];
 
@@ -129,16 +228,29 @@ export class WeightedScheduler implements Scheduler {
             const matDef = this.config.materials[matId];
             if (!matDef) continue;
 
+            const material = { definition: matDef, multiplier: getWeightMultiplier(overrides, matDef.itemId) };
+            if (!isItemAllowed(overrides, matDef.itemId)) {
+                rejected.push({ ...this.describeMaterial(material), rejected: "not_allowed" });
+                continue;
+            }
+
             const invEntry = inventory.get(matDef.itemId);
-            if (!invEntry) continue;
+            if (!invEntry) {
+                rejected.push({ ...this.describeMaterial(material), rejected: "out_of_stock" });
+                continue;
+            }
 
             const required = matDef.minStock + transferAmount;
-            if (invEntry.totalCount < required) continue;
+            if (invEntry.totalCount < required) {
+                rejected.push({
+                    ...this.describeMaterial(material),
+                    rejected: "below_min_stock",
+                    detail: `have ${invEntry.totalCount}, need ${required}`,
+                });
+                continue;
+            }
 
-            available.push({
-                definition: matDef,
-                slots: invEntry.slots,
-            });
+            available.push(material);
         }
 
         return available;
@@ -150,14 +262,14 @@ export class WeightedScheduler implements Scheduler {
 
         let totalWeight = 0;
         for (const mat of materials) {
-            totalWeight += mat.definition.weight;
+            totalWeight += this.getWeight(mat);
         }
 
-        const random = math.random() * totalWeight;
+        const random = (this.random ? this.random.next() : math.random()) * totalWeight;
 
         let cumulative = 0;
         for (const mat of materials) {
-            cumulative += mat.definition.weight;
+            cumulative += this.getWeight(mat);
             if (random < cumulative) {
                 return mat;
             }
@@ -165,4 +277,75 @@ export class WeightedScheduler implements Scheduler {
 
         return materials[0];
     }
+
+    /**
+     * Smooth weighted round-robin over the available materials.
+     * Weight 0 materials only get selected when nothing else is available.
+     */
+    private roundRobinSelect(materials: AvailableMaterial[]): AvailableMaterial | null {
+        const weighted = materials.filter((m) => this.getWeight(m) > 0);
+        if (weighted.length === 0) return materials[0] ?? null;
+
+        let totalWeight = 0;
+        let best: AvailableMaterial | null = null;
+        for (const mat of weighted) {
+            const weight = this.getWeight(mat);
+            const counter = this.getCounter(mat.definition.id);
+            counter.credit += weight;
+            totalWeight += weight;
+            if (!best || counter.credit > this.getCounter(best.definition.id).credit) {
+                best = mat;
+            }
+        }
+
+        if (best) this.getCounter(best.definition.id).credit -= totalWeight;
+        return best;
+    }
+
+    private getCounter(materialId: string): SelectionCounter {
+        let counter = this.counters.get(materialId);
+        if (!counter) {
+            counter = { selected: 0, credit: 0 };
+            this.counters.set(materialId, counter);
+        }
+        return counter;
+    }
+
+    /**
+     * Candidate fields of a material for decision records (score = effective weight).
+     */
+    private describeMaterial(material: AvailableMaterial): Omit<CandidateDecision, "rejected"> {
+        return {
+            label: material.definition.id,
+            itemId: material.definition.itemId,
+            score: this.getWeight(material),
+        };
+    }
+
+    private getWeight(material: AvailableMaterial): number {
+        return (this.effectiveWeights.get(material.definition.id) ?? material.definition.weight) * material.multiplier;
+    }
+
+    /**
+     * Recompute the weight of every material for this cycle's stock.
+     */
+    private updateEffectiveWeights(inventory: Map<string, InventoryItemInfo>): void {
+        this.effectiveWeights = new Map();
+        const options = this.config.dynamicWeights;
+        const logged: Record<string, number> = {};
+
+        for (const [id, material] of Object.entries(this.config.materials)) {
+            if (!options) {
+                this.effectiveWeights.set(id, material.weight);
+                continue;
+            }
+
+            const stock = inventory.get(material.itemId)?.totalCount ?? 0;
+            const weight = computeEffectiveWeight(material, stock, options);
+            this.effectiveWeights.set(id, weight);
+            logged[id] = math.floor(weight * 100) / 100;
+        }
+
+        if (options) this.log.debug("Effective weights", logged);
+    }
 }
@@ -1,27 +1,102 @@
+import { Result, ok, err } from "@core/result";
 import { Logger } from "@core/logger";
-import { InventoryItemInfo } from "@lib/inventory/types";
-import { Task, TaskContext, RegisteredTask } from "./types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { PeripheralChangeEvent } from "@lib/peripheral/types";
+import { Task, TaskContext, RegisteredTask, InventoryRescan, TaskSchedule, TaskTiming } from "./types";
 
 /**
  * Central task registry for managing task lifecycle.
- * Tasks are executed in registration order with pcall isolation.
+ *
+ * Tasks are executed with pcall isolation in phase order; inside a phase,
+ * dependencies (dependsOn) run first and registration order breaks ties.
+ * Registering a task whose dependencies form a cycle or point to a later
+ * phase is rejected.
+ *
+ * Every task can have its own run interval: a cycle only runs the tasks that
+ * are due, and getNextDueTime() tells the main loop how long it may sleep.
  */
 export class TaskRegistry {
+    /** Execution order (re-sorted on every registration) */
     private tasks: RegisteredTask[] = [];
 
     constructor(private log: Logger) {}
 
+    /**
+     * Register a task.
+     * Fails with ERR_TASK_DUPLICATE for a known task ID and with ERR_TASK_ORDER
+     * if the dependencies can't be satisfied (cycle, dependency in a later phase).
+     *
+     * @param schedule - Run interval (default: every cycle)
+     */
     register<TConfig, TState>(
         task: Task<TConfig, TState>,
         config: TConfig,
-    ): void {
-        this.tasks.push({
+        schedule?: TaskSchedule,
+    ): Result<void> {
+        if (this.tasks.some((t) => t.task.id === task.id)) {
+            this.log.error("Task already registered", { id: task.id });
+            return err("ERR_TASK_DUPLICATE", { id: task.id });
+        }
+
+        const entry: RegisteredTask = {
             task: task as Task<unknown, unknown>,
             config,
             state: null,
             enabled: true,
-        });
-        this.log.info("Task registered", { id: task.id, name: task.name });
+            schedule,
+            nextRun: 0,
+        };
+
+        const conflict = this.findPhaseConflict(entry);
+        if (conflict) {
+            this.log.error("Task depends on a later phase", { id: task.id, conflict });
+            return err("ERR_TASK_ORDER", { id: task.id, conflict });
+        }
+
+        const { sorted, unresolved } = this.sortTasks([...this.tasks, entry]);
+        if (unresolved.length > 0) {
+            this.log.error("Task dependency cycle", { id: task.id, cycle: unresolved.join(", ") });
+            return err("ERR_TASK_ORDER", { id: task.id, cycle: unresolved });
+        }
+
+        this.tasks = sorted;
+        this.log.info("Task registered", { id: task.id, name: task.name, phase: task.phase ?? 0 });
+        return ok(undefined);
+    }
+
+    /**
+     * Whether an enabled task is due.
+     */
+    hasDueTasks(now = os.epoch("utc")): boolean {
+        return this.tasks.some((t) => t.enabled && t.nextRun <= now);
+    }
+
+    /**
+     * Earliest next run of all enabled tasks (ms), undefined if no task is enabled.
+     */
+    getNextDueTime(): number | undefined {
+        let next: number | undefined;
+        for (const entry of this.tasks) {
+            if (!entry.enabled) continue;
+            if (next === undefined || entry.nextRun < next) next = entry.nextRun;
+        }
+        return next;
+    }
+
+    /**
+     * Last and next run of every enabled task, in execution order.
+     */
+    getTaskTimings(): TaskTiming[] {
+        return this.tasks
+            .filter((t) => t.enabled)
+            .map((t) => ({ id: t.task.id, lastRun: t.lastRun, nextRun: t.nextRun }));
+    }
+
+    /**
+     * Task IDs in execution order.
+     */
+    getExecutionOrder(): string[] {
+        return this.tasks.map((t) => t.task.id);
     }
 
     init(context: TaskContext): void {
@@ -53,14 +128,42 @@ export class TaskRegistry {
         }
     }
 
-    runCycle(inventory: Map<string, InventoryItemInfo>): void {
-        for (const entry of this.tasks) {
-            if (!entry.enabled) continue;
+    /**
+     * Run all enabled tasks that are due against the same cycle ledger.
+     * Debits made by earlier tasks are visible to later ones.
+     *
+     * With `rescan`, the ledger is rebased on a fresh scan at the start of a
+     * phase with a requiresFreshInventory task, if items were moved since the
+     * last scan (never in dry run, where nothing moves).
+     */
+    runCycle(ledger: InventoryLedger, rescan?: InventoryRescan): void {
+        let phase: number | undefined;
+        let movedSinceScan = false;
+        const now = os.epoch("utc");
+
+        // Fixed before the first run: running a task moves its nextRun into the future
+        const due = this.tasks.filter((t) => t.enabled && t.nextRun <= now);
+
+        for (const entry of due) {
+            // Failed and crashed runs count too (no retry loop on a broken task)
+            entry.lastRun = now;
+            entry.nextRun = this.computeNextRun(entry.schedule, now);
+
+            const entryPhase = entry.task.phase ?? 0;
+            if (entryPhase !== phase) {
+                phase = entryPhase;
+                if (rescan && movedSinceScan && this.phaseNeedsFreshInventory(due, entryPhase)) {
+                    movedSinceScan = !this.rescanLedger(ledger, rescan, entryPhase);
+                }
+            }
 
             const [success, result] = pcall(() =>
-                entry.task.execute(entry.state, inventory),
+                entry.task.execute(entry.state, ledger),
             );
 
+            // Drop claims a crashed or failed task left behind
+            ledger.releaseAll(entry.task.id);
+
             if (!success) {
                 this.log.error("Task crashed", {
                     id: entry.task.id,
@@ -80,6 +183,7 @@ export class TaskRegistry {
             entry.state = result.value.state;
 
             if (result.value.operationsCount > 0) {
+                movedSinceScan = true;
                 this.log.info("Task completed", {
                     id: entry.task.id,
                     operations: result.value.operationsCount,
@@ -89,6 +193,23 @@ export class TaskRegistry {
         }
     }
 
+    /**
+     * Forward a peripheral attach/detach event to all interested tasks.
+     */
+    notifyPeripheralChange(event: PeripheralChangeEvent): void {
+        for (const entry of this.tasks) {
+            if (!entry.enabled || !entry.task.onPeripheralChange) continue;
+
+            const [success, error] = pcall(() => entry.task.onPeripheralChange!(event));
+            if (!success) {
+                this.log.error("Task peripheral handler crashed", {
+                    id: entry.task.id,
+                    error: tostring(error),
+                });
+            }
+        }
+    }
+
     printDiagnostics(): void {
         for (const entry of this.tasks) {
             const diag = entry.task.getDiagnostics(entry.config);
@@ -120,4 +241,86 @@ export class TaskRegistry {
         }
         return states;
     }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private phaseNeedsFreshInventory(due: RegisteredTask[], phase: number): boolean {
+        return due.some((t) => (t.task.phase ?? 0) === phase && t.task.requiresFreshInventory);
+    }
+
+    /**
+     * Next run after `now`: interval plus a random share of the jitter (0 = every cycle).
+     */
+    private computeNextRun(schedule: TaskSchedule | undefined, now: number): number {
+        if (!schedule) return 0;
+        const jitter = (schedule.jitterSeconds ?? 0) * math.random();
+        return now + (schedule.intervalSeconds + jitter) * 1000;
+    }
+
+    /**
+     * Rebase the ledger on a fresh scan.
+     *
+     * @returns Whether the rescan succeeded (on failure the ledger keeps its debits)
+     */
+    private rescanLedger(ledger: InventoryLedger, rescan: InventoryRescan, phase: number): boolean {
+        const scanRes = rescan();
+        if (!scanRes.ok) {
+            this.log.warn("Mid-cycle rescan failed, continuing with ledger debits", { phase, code: scanRes.code });
+            return false;
+        }
+        ledger.rebase(scanRes.value);
+        this.log.debug("Inventory rescanned", { phase });
+        return true;
+    }
+
+    /**
+     * A registered dependency of `entry` in a later phase, or a registered task
+     * depending on `entry` from an earlier phase.
+     *
+     * @returns "<task> -> <dependency>" of the first conflict, undefined if none
+     */
+    private findPhaseConflict(entry: RegisteredTask): string | undefined {
+        const phase = entry.task.phase ?? 0;
+        for (const other of this.tasks) {
+            const otherPhase = other.task.phase ?? 0;
+            if (entry.task.dependsOn?.includes(other.task.id) && otherPhase > phase) {
+                return `${entry.task.id} -> ${other.task.id}`;
+            }
+            if (other.task.dependsOn?.includes(entry.task.id) && otherPhase < phase) {
+                return `${other.task.id} -> ${entry.task.id}`;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Stable topological sort: repeatedly take the first task (lowest phase,
+     * then registration order) whose registered dependencies have all been taken.
+     *
+     * @returns Tasks in execution order, and the IDs of tasks stuck in a cycle (empty if none)
+     */
+    private sortTasks(entries: RegisteredTask[]): { sorted: RegisteredTask[]; unresolved: string[] } {
+        const ids = new Set(entries.map((e) => e.task.id));
+        const remaining = [...entries];
+        const sorted: RegisteredTask[] = [];
+        const placed = new Set<string>();
+
+        while (remaining.length > 0) {
+            let next: RegisteredTask | undefined;
+            for (const entry of remaining) {
+                const ready = (entry.task.dependsOn ?? []).every((id) => !ids.has(id) || placed.has(id));
+                if (!ready) continue;
+                if (!next || (entry.task.phase ?? 0) < (next.task.phase ?? 0)) next = entry;
+            }
+            if (!next) break;
+
+            sorted.push(next);
+            placed.add(next.task.id);
+            remaining.splice(remaining.indexOf(next), 1);
+        }
+
+        return { sorted, unresolved: remaining.map((e) => e.task.id) };
+    }
 }
@@ -1,7 +1,9 @@
 import { Result } from "@core/result";
 import { Logger } from "@core/logger";
+import { InventoryLedger } from "@lib/inventory/ledger";
 import { InventoryItemInfo } from "@lib/inventory/types";
-import { ValidatedPeripherals } from "@lib/peripheral/types";
+import { ValidatedPeripherals, PeripheralChangeEvent } from "@lib/peripheral/types";
+import { TransferJournal } from "@lib/transfer/journal";
 
 // ============================================================
 // TASK INTERFACE
@@ -20,6 +22,21 @@ export interface Task<TConfig, TState> {
     /** Display name */
     readonly name: string;
 
+    /**
+     * Optional: IDs of tasks that must run before this one in every cycle.
+     * Dependencies that aren't registered (disabled tasks) are ignored.
+     */
+    readonly dependsOn?: string[];
+
+    /** Optional: execution phase, lower phases run first (default 0) */
+    readonly phase?: number;
+
+    /**
+     * Optional: rescan the material source before this task's phase when
+     * earlier tasks of the cycle moved items, instead of relying on ledger debits.
+     */
+    readonly requiresFreshInventory?: boolean;
+
     /**
      * Initialize the task.
      * Called once at startup.
@@ -29,16 +46,24 @@ export interface Task<TConfig, TState> {
     /**
      * Execute one cycle.
      * Called in every main loop iteration.
+     * The ledger is shared by all tasks of the cycle: read stock through it
+     * and debit (or reserve/commit) every item moved out of the material source.
      */
     execute(
         state: TState,
-        inventory: Map<string, InventoryItemInfo>,
+        ledger: InventoryLedger,
     ): Result<TaskExecutionResult<TState>>;
 
     /**
      * Generate startup diagnostics.
      */
     getDiagnostics(config: TConfig): TaskDiagnostics;
+
+    /**
+     * Optional: react to a watched peripheral being attached or detached.
+     * ValidatedPeripherals is already updated when this is called.
+     */
+    onPeripheralChange?(event: PeripheralChangeEvent): void;
 }
 
 // ============================================================
@@ -55,10 +80,15 @@ export interface TaskContext {
     /** Shared logger */
     logger: Logger;
 
+    /** Shared transfer journal (undefined = transfers are not journaled) */
+    journal?: TransferJournal;
+
     /** System configuration */
     systemConfig: {
         scanIntervalSeconds: number;
         logLevel: string;
+        /** Plan assignments without moving items */
+        dryRun: boolean;
     };
 }
 
@@ -99,4 +129,38 @@ export interface RegisteredTask {
     config: unknown;
     state: unknown;
     enabled: boolean;
+    /** Run interval (undefined = every cycle) */
+    schedule?: TaskSchedule;
+    /** Time of the last run (os.epoch("utc") ms, undefined = never ran) */
+    lastRun?: number;
+    /** Earliest time of the next run (0 = due now) */
+    nextRun: number;
 }
+
+// ============================================================
+// TASK SCHEDULING
+// ============================================================
+
+/**
+ * How often a task runs.
+ */
+export interface TaskSchedule {
+    /** Seconds between two runs */
+    intervalSeconds: number;
+    /** Random extra delay of up to this many seconds per run, spreads tasks with equal intervals (default 0) */
+    jitterSeconds?: number;
+}
+
+/**
+ * Last and next run of a task (dashboard, diagnostics).
+ */
+export interface TaskTiming {
+    id: string;
+    lastRun?: number;
+    nextRun: number;
+}
+
+/**
+ * Scan of the material source for a mid-cycle rescan.
+ */
+export type InventoryRescan = () => Result<Map<string, InventoryItemInfo>>;
@@ -0,0 +1,73 @@
+import { Result, ok, forwardErr } from "@core/result";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { getInventoryContents } from "@lib/inventory/scanner";
+import { executeTransfer } from "./transfer";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Result of draining an inventory.
+ */
+export interface DrainResult {
+    /** Items moved per item ID */
+    moved: Map<string, number>;
+    /** Total items moved */
+    total: number;
+    /** Items left in the source (item refused, slot changed or limit reached) */
+    remaining: number;
+}
+
+/**
+ * Move everything out of an inventory into a target, slot by slot.
+ *
+ * Every slot goes through executeTransfer (getItemDetail check + pushItems).
+ * Once the target refuses an item (nothing moved), the item's remaining slots
+ * are skipped; other items are still tried. Changed slots are skipped and
+ * picked up by the next drain.
+ *
+ * @param limit - Max items to move (default: no limit)
+ * @returns Moved/remaining counts, or the scan error of the source
+ */
+export function drainInventory(
+    source: SafePeripheral<InventoryPeripheral>,
+    targetName: string,
+    limit = math.huge,
+): Result<DrainResult> {
+    const contentsRes = getInventoryContents(source);
+    if (!contentsRes.ok) return forwardErr(contentsRes);
+
+    const moved = new Map<string, number>();
+    let total = 0;
+    let remaining = 0;
+    const refused = new Set<string>();
+
+    for (const [itemId, info] of contentsRes.value) {
+        for (const slot of info.slots) {
+            const amount = math.min(slot.count, limit - total);
+            if (refused.has(itemId) || amount <= 0) {
+                remaining += slot.count;
+                continue;
+            }
+
+            const res = executeTransfer({
+                source,
+                targetName,
+                sourceSlot: slot.slot,
+                expectedItemId: itemId,
+                amount,
+            });
+
+            if (!res.ok) {
+                if (res.code === "ERR_TRANSFER_FAILED") refused.add(itemId);
+                remaining += slot.count;
+                continue;
+            }
+
+            moved.set(itemId, (moved.get(itemId) ?? 0) + res.value.transferred);
+            total += res.value.transferred;
+            remaining += slot.count - res.value.transferred;
+        }
+    }
+
+    return ok({ moved, total, remaining });
+}
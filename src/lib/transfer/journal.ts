@@ -0,0 +1,274 @@
+import { Logger } from "@core/logger";
+import { ResultCode } from "@core/errors";
+
+/**
+ * One source slot of a journaled transfer.
+ */
+export interface JournalSlot {
+    /** Peripheral holding the slot */
+    source?: string;
+    slot: number;
+    /** Items planned from this slot */
+    amount: number;
+    /** Items of the planned type in the slot before the transfer */
+    before: number;
+}
+
+/**
+ * Written before the first item moves.
+ */
+export interface JournalIntent {
+    kind: "intent";
+    id: number;
+    /** Epoch (ms) */
+    at: number;
+    /** Task that planned the transfer */
+    owner: string;
+    machineId: string;
+    /** Target chest name */
+    target: string;
+    itemId: string;
+    /** Total items planned */
+    amount: number;
+    /** Items of the planned type in the target chest before the transfer */
+    targetBefore: number;
+    slots: JournalSlot[];
+}
+
+/**
+ * Written by executeTransfer after one slot was pushed.
+ */
+export interface JournalSlotDone {
+    kind: "slot";
+    id: number;
+    at: number;
+    source?: string;
+    slot: number;
+    moved: number;
+}
+
+/**
+ * Written after the transfer finished (at least one item moved).
+ */
+export interface JournalCommit {
+    kind: "commit";
+    id: number;
+    at: number;
+    transferred: number;
+}
+
+/**
+ * Written after the transfer failed without moving anything.
+ */
+export interface JournalAbort {
+    kind: "abort";
+    id: number;
+    at: number;
+    code: ResultCode;
+}
+
+/**
+ * Written by the boot reconciliation for an intent that was left open.
+ */
+export interface JournalResolved {
+    kind: "resolved";
+    id: number;
+    at: number;
+    status: string;
+}
+
+export type JournalEntry = JournalIntent | JournalSlotDone | JournalCommit | JournalAbort | JournalResolved;
+
+/**
+ * Intent fields provided by the caller (ID and timestamp are assigned by the journal).
+ */
+export type JournalIntentInput = Omit<JournalIntent, "kind" | "id" | "at">;
+
+const DEFAULT_MAX_JOURNAL_LINES = 200;
+
+/**
+ * Append-only on-disk journal of item transfers.
+ *
+ * Every transfer writes an intent before the first item moves and a commit
+ * (or abort) afterwards; each line is flushed immediately. An intent without
+ * a matching commit/abort/resolved entry was interrupted by a shutdown and
+ * is checked against the chests at the next boot (see reconcileJournal).
+ *
+ * One serialized entry per line. Rotation works like the Logger's:
+ * when maxLines is reached, only the newest half is kept.
+ */
+export class TransferJournal {
+    private entries: JournalEntry[] = [];
+    private handle?: WriteFileHandle;
+    private nextId = 1;
+    private maxLines: number;
+
+    constructor(
+        private path: string,
+        private log: Logger,
+        maxLines?: number,
+    ) {
+        this.maxLines = maxLines ?? DEFAULT_MAX_JOURNAL_LINES;
+        this.load();
+        this.openForAppend();
+    }
+
+    /**
+     * Record the intent of a transfer.
+     *
+     * @returns Journal ID for the following slot/commit/abort entries
+     */
+    begin(intent: JournalIntentInput): number {
+        const id = this.nextId++;
+        this.append({ kind: "intent", id, at: os.epoch("utc"), ...intent });
+        return id;
+    }
+
+    /**
+     * Record the items pushed from one source slot.
+     */
+    recordSlot(id: number, source: string | undefined, slot: number, moved: number): void {
+        this.append({ kind: "slot", id, at: os.epoch("utc"), source, slot, moved });
+    }
+
+    commit(id: number, transferred: number): void {
+        this.append({ kind: "commit", id, at: os.epoch("utc"), transferred });
+    }
+
+    abort(id: number, code: ResultCode): void {
+        this.append({ kind: "abort", id, at: os.epoch("utc"), code });
+    }
+
+    /**
+     * Close an interrupted intent after it was reconciled.
+     */
+    resolve(id: number, status: string): void {
+        this.append({ kind: "resolved", id, at: os.epoch("utc"), status });
+    }
+
+    /**
+     * Intents without a commit, abort or resolved entry (oldest first).
+     */
+    getOpenIntents(): JournalIntent[] {
+        const closed = new Set<number>();
+        for (const entry of this.entries) {
+            if (entry.kind !== "intent" && entry.kind !== "slot") closed.add(entry.id);
+        }
+        return this.entries.filter(
+            (e): e is JournalIntent => e.kind === "intent" && !closed.has(e.id),
+        );
+    }
+
+    /**
+     * Slot entries written for a journal ID.
+     */
+    getSlotEntries(id: number): JournalSlotDone[] {
+        return this.entries.filter((e): e is JournalSlotDone => e.kind === "slot" && e.id === id);
+    }
+
+    /**
+     * The newest entries (oldest first).
+     */
+    getRecent(count: number): JournalEntry[] {
+        return this.entries.slice(math.max(0, this.entries.length - count));
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private load(): void {
+        if (!fs.exists(this.path)) return;
+
+        const [handle] = fs.open(this.path, "r");
+        if (!handle) {
+            this.log.warn("Could not read transfer journal", { path: this.path });
+            return;
+        }
+        const reader = handle as unknown as ReadFileHandle;
+
+        let invalid = 0;
+        let line = reader.readLine();
+        while (line !== undefined && line !== null) {
+            if (line !== "") {
+                const entry = textutils.unserialize(line) as JournalEntry | undefined;
+                if (entry && entry.kind !== undefined && entry.id !== undefined) {
+                    this.entries.push(entry);
+                    this.nextId = math.max(this.nextId, entry.id + 1);
+                } else {
+                    // A line cut off by the shutdown itself
+                    invalid++;
+                }
+            }
+            line = reader.readLine();
+        }
+        reader.close();
+
+        if (invalid > 0) {
+            this.log.warn("Transfer journal has unreadable lines", { path: this.path, skipped: invalid });
+        }
+    }
+
+    private openForAppend(): void {
+        const [handle] = fs.open(this.path, "a");
+        if (!handle) {
+            this.log.warn("Could not open transfer journal, transfers are not journaled", { path: this.path });
+            return;
+        }
+        this.handle = handle as unknown as WriteFileHandle;
+    }
+
+    private append(entry: JournalEntry): void {
+        this.entries.push(entry);
+        if (this.handle) {
+            this.handle.writeLine(textutils.serialize(entry, { compact: true }) as string);
+            this.handle.flush();
+        }
+
+        if (this.entries.length >= this.maxLines) {
+            this.rotate();
+        }
+    }
+
+    /**
+     * Keep the newest half of maxLines and rewrite the file.
+     */
+    private rotate(): void {
+        this.handle?.close();
+        this.handle = undefined;
+
+        const keepLines = math.floor(this.maxLines / 2);
+        this.entries = this.entries.slice(math.max(0, this.entries.length - keepLines));
+
+        const [writeHandle] = fs.open(this.path, "w");
+        if (writeHandle) {
+            const wh = writeHandle as unknown as WriteFileHandle;
+            for (const entry of this.entries) {
+                wh.writeLine(textutils.serialize(entry, { compact: true }) as string);
+            }
+            wh.flush();
+            wh.close();
+        }
+
+        this.openForAppend();
+    }
+}
+
+/**
+ * One-line description of a journal entry (diagnostics console).
+ */
+export function formatJournalEntry(entry: JournalEntry): string {
+    const prefix = `#${entry.id} ${entry.kind}`;
+    switch (entry.kind) {
+        case "intent":
+            return `${prefix} ${entry.owner}: ${entry.amount}x ${entry.itemId} -> ${entry.machineId}`;
+        case "slot":
+            return `${prefix} ${entry.source ?? "?"}[${entry.slot}]: ${entry.moved} moved`;
+        case "commit":
+            return `${prefix} ${entry.transferred} transferred`;
+        case "abort":
+            return `${prefix} ${entry.code}`;
+        case "resolved":
+            return `${prefix} ${entry.status}`;
+    }
+}
@@ -0,0 +1,157 @@
+import { Logger } from "@core/logger";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { getInventoryContents } from "@lib/inventory/scanner";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { InventoryItemInfo } from "@lib/inventory/types";
+import { JournalIntent, TransferJournal } from "./journal";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+/**
+ * Outcome of an interrupted transfer.
+ *
+ * - applied: all planned items left the source and arrived in the target
+ * - partial: fewer items than planned moved, none went missing
+ * - not_applied: nothing moved
+ * - lost: more items left the source than arrived in the target
+ * - duplicated: more items moved than planned (transfer ran twice)
+ * - unknown: source or target couldn't be scanned (intent stays open)
+ */
+export type ReconcileStatus = "applied" | "partial" | "not_applied" | "lost" | "duplicated" | "unknown";
+
+/**
+ * Reconciliation result of one open journal intent.
+ */
+export interface ReconcileFinding {
+    id: number;
+    owner: string;
+    machineId: string;
+    itemId: string;
+    /** Items planned */
+    planned: number;
+    /** Items missing from the journaled source slots */
+    taken: number;
+    /** Items added to the target chest */
+    gained: number;
+    /** Items the journal recorded as pushed before the shutdown */
+    recorded: number;
+    status: ReconcileStatus;
+}
+
+/**
+ * Replay open journal intents against a fresh scan of the source and target chests.
+ *
+ * Compares the slot and target counts recorded before the transfer with the
+ * current counts. Machines keep consuming while the computer is down, so a
+ * "lost" finding may also be items the machine already processed - the report
+ * is informational and nothing is moved back.
+ *
+ * Every reconciled intent is closed in the journal (status "unknown" stays open
+ * and is checked again at the next boot).
+ */
+export function reconcileJournal(
+    journal: TransferJournal,
+    materialSource: MaterialSource,
+    machineChests: Map<string, SafePeripheral<InventoryPeripheral>>,
+    log: Logger,
+): ReconcileFinding[] {
+    const open = journal.getOpenIntents();
+    if (open.length === 0) {
+        log.debug("Transfer journal clean, nothing to reconcile");
+        return [];
+    }
+    log.info("Reconciling interrupted transfers", { count: open.length });
+
+    const sourceRes = materialSource.scan();
+    const findings: ReconcileFinding[] = [];
+
+    for (const intent of open) {
+        let recorded = 0;
+        for (const entry of journal.getSlotEntries(intent.id)) recorded += entry.moved;
+
+        const targetCount = getTargetCount(intent, machineChests);
+        const finding: ReconcileFinding = {
+            id: intent.id,
+            owner: intent.owner,
+            machineId: intent.machineId,
+            itemId: intent.itemId,
+            planned: intent.amount,
+            taken: 0,
+            gained: 0,
+            recorded,
+            status: "unknown",
+        };
+
+        if (sourceRes.ok && targetCount !== undefined) {
+            finding.taken = getTakenCount(intent, sourceRes.value);
+            finding.gained = targetCount - intent.targetBefore;
+            finding.status = classify(finding);
+            journal.resolve(intent.id, finding.status);
+        }
+
+        findings.push(finding);
+        logFinding(finding, log);
+    }
+
+    return findings;
+}
+
+// ========================================
+// Private helpers
+// ========================================
+
+/**
+ * Current count of the intent's item in the target chest, undefined if the chest can't be scanned.
+ */
+function getTargetCount(
+    intent: JournalIntent,
+    machineChests: Map<string, SafePeripheral<InventoryPeripheral>>,
+): number | undefined {
+    const chest = machineChests.get(intent.target);
+    if (!chest) return undefined;
+
+    const contentsRes = getInventoryContents(chest);
+    if (!contentsRes.ok) return undefined;
+    return contentsRes.value.get(intent.itemId)?.totalCount ?? 0;
+}
+
+/**
+ * Items that left the journaled source slots since the intent was written.
+ */
+function getTakenCount(intent: JournalIntent, inventory: Map<string, InventoryItemInfo>): number {
+    const slots = inventory.get(intent.itemId)?.slots ?? [];
+    let taken = 0;
+    for (const journaled of intent.slots) {
+        const now = slots.find((s) => s.slot === journaled.slot && s.source === journaled.source)?.count ?? 0;
+        taken += math.max(0, journaled.before - now);
+    }
+    return taken;
+}
+
+function classify(finding: ReconcileFinding): ReconcileStatus {
+    if (finding.taken === 0 && finding.gained <= 0) return "not_applied";
+    if (finding.taken > finding.planned || finding.gained > finding.planned) return "duplicated";
+    if (finding.gained < finding.taken) return "lost";
+    return finding.taken >= finding.planned ? "applied" : "partial";
+}
+
+function logFinding(finding: ReconcileFinding, log: Logger): void {
+    const data = {
+        id: finding.id,
+        machine: finding.machineId,
+        item: finding.itemId,
+        planned: finding.planned,
+        taken: finding.taken,
+        gained: finding.gained,
+    };
+
+    if (finding.status === "lost") {
+        log.warn("Interrupted transfer lost items", { ...data, missing: finding.taken - math.max(0, finding.gained) });
+    } else if (finding.status === "duplicated") {
+        log.warn("Interrupted transfer moved more than planned", data);
+    } else if (finding.status === "unknown") {
+        log.warn("Interrupted transfer could not be checked, source or target offline", data);
+    } else {
+        log.info("Interrupted transfer reconciled", { ...data, status: finding.status });
+    }
+}
@@ -1,5 +1,10 @@
-import { Result, ok, err } from "@core/result";
-import { TransferRequest, TransferSuccess } from "./types";
+import { Result, ok, err, forwardErr } from "@core/result";
+import {
+    MultiSlotTransferRequest,
+    MultiSlotTransferSuccess,
+    TransferRequest,
+    TransferSuccess,
+} from "./types";
 
 /**
  * Execute a race-condition-safe item transfer.
@@ -9,6 +14,7 @@ import { TransferRequest, TransferSuccess } from "./types";
  * 2. Push items to the target in a single peripheral.call()
  *
  * Calls ensureConnected() on source before transfer.
+ * With a journal reference, the pushed amount is recorded right after the call.
  */
 export function executeTransfer(req: TransferRequest): Result<TransferSuccess> {
     req.source.ensureConnected();
@@ -58,8 +64,51 @@ export function executeTransfer(req: TransferRequest): Result<TransferSuccess> {
         return err("ERR_PERIPHERAL_DISCONNECTED");
     }
 
+    req.journal?.journal.recordSlot(req.journal.id, req.source.getName(), req.sourceSlot, result.transferred);
+
     return ok({
         transferred: result.transferred,
         sourceSlot: req.sourceSlot,
     });
 }
+
+/**
+ * Transfer one item type from several source slots into a target.
+ *
+ * Every slot goes through executeTransfer (getItemDetail check + pushItems),
+ * a failing slot doesn't stop the remaining ones. Reports the true total moved.
+ *
+ * @returns Total and per-slot counts, or the first slot's error if nothing was moved
+ */
+export function executeMultiSlotTransfer(req: MultiSlotTransferRequest): Result<MultiSlotTransferSuccess> {
+    const perSlot: number[] = [];
+    let transferred = 0;
+    let firstError: Result<TransferSuccess> | undefined;
+
+    for (const slot of req.slots) {
+        const res = executeTransfer({
+            source: slot.source,
+            targetName: req.targetName,
+            sourceSlot: slot.slot,
+            expectedItemId: req.expectedItemId,
+            amount: slot.amount,
+            journal: req.journal,
+        });
+
+        if (!res.ok) {
+            perSlot.push(0);
+            firstError = firstError ?? res;
+            continue;
+        }
+
+        perSlot.push(res.value.transferred);
+        transferred += res.value.transferred;
+    }
+
+    if (transferred === 0) {
+        if (firstError) return forwardErr(firstError);
+        return err("ERR_TRANSFER_FAILED", { reason: "no_source_slots" });
+    }
+
+    return ok({ transferred, perSlot });
+}
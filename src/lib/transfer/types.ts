@@ -1,4 +1,5 @@
 import { SafePeripheral } from "@core/safe-peripheral";
+import { TransferJournal } from "./journal";
 
 // Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
 
@@ -16,6 +17,17 @@ export interface TransferRequest {
     expectedItemId: string;
     /** Number of items to transfer */
     amount: number;
+    /** Journal entry to record the pushed items in */
+    journal?: JournalRef;
+}
+
+/**
+ * A transfer's entry in the transfer journal.
+ */
+export interface JournalRef {
+    journal: TransferJournal;
+    /** ID returned by TransferJournal.begin() */
+    id: number;
 }
 
 /**
@@ -27,3 +39,39 @@ export interface TransferSuccess {
     /** Source slot used */
     sourceSlot: number;
 }
+
+/**
+ * One source slot of a multi-slot transfer.
+ */
+export interface TransferSlot {
+    /** Inventory holding the slot */
+    source: SafePeripheral<InventoryPeripheral>;
+    /** Source slot number */
+    slot: number;
+    /** Number of items to take from this slot */
+    amount: number;
+}
+
+/**
+ * Request for a transfer assembled from several source slots (possibly in different inventories).
+ */
+export interface MultiSlotTransferRequest {
+    /** Target peripheral name (for pushItems) */
+    targetName: string;
+    /** Expected item ID in every source slot */
+    expectedItemId: string;
+    /** Slots to walk, in order */
+    slots: TransferSlot[];
+    /** Journal entry to record the pushed items in (per slot) */
+    journal?: JournalRef;
+}
+
+/**
+ * Result of a multi-slot transfer that moved at least one item.
+ */
+export interface MultiSlotTransferSuccess {
+    /** Total number of items actually transferred */
+    transferred: number;
+    /** Items moved per requested slot (same order as the request, 0 for failed slots) */
+    perSlot: number[];
+}
@@ -0,0 +1,201 @@
+import { FakeNetwork } from "./network";
+
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/** Real CC:Tweaked color values */
+const COLORS: Record<string, number> = {
+    white: 1, orange: 2, magenta: 4, lightBlue: 8,
+    yellow: 16, lime: 32, pink: 64, gray: 128,
+    lightGray: 256, cyan: 512, purple: 1024, blue: 2048,
+    brown: 4096, green: 8192, red: 16384, black: 32768,
+};
+
+/**
+ * Fake CC:Tweaked computer for running lib/ code under plain Lua.
+ *
+ * install() replaces the CC globals the code base uses:
+ * - peripheral (wired modem on one side + network remotes)
+ * - os.epoch / os.startTimer / os.pullEvent / os.queueEvent, sleep
+ * - textutils.serialize / unserialize, colors
+ * - fs (in-memory files, see `files`)
+ *
+ * Time only moves when advance()/sleep() is called or when pullEvent
+ * has to wait for a timer, so tests are deterministic.
+ */
+export class FakeComputer {
+    /** Current time in ms (os.epoch("utc")) */
+    now = 0;
+
+    /** File contents by path; written handles only persist on flush()/close() */
+    readonly files = new Map<string, string>();
+
+    private events: unknown[][] = [];
+    private timers = new Map<number, number>();
+    private nextTimerId = 1;
+
+    constructor(
+        readonly network: FakeNetwork,
+        readonly modemSide = "back",
+    ) {
+        network.listener = (event, name) => this.queueEvent(event, name);
+    }
+
+    advance(seconds: number): void {
+        this.now += seconds * 1000;
+    }
+
+    queueEvent(...args: unknown[]): void {
+        this.events.push(args);
+    }
+
+    install(): this {
+        const modem = this.network.createModem();
+        const globals = _G as unknown as Record<string, unknown>;
+        const osApi = os as unknown as Record<string, unknown>;
+
+        globals.peripheral = {
+            getNames: () => [this.modemSide, ...this.network.getNames()],
+            isPresent: (name: string) => name === this.modemSide || this.network.getRemote(name) !== undefined,
+            getType: (name: string) => $multi(this.getType(name)),
+            hasType: (name: string, type: string) => this.getType(name) === type,
+            wrap: (name: string) => {
+                if (name === this.modemSide) return modem;
+                return this.network.getRemote(name)?.peripheral;
+            },
+        };
+
+        osApi.epoch = (_locale?: string) => this.now;
+        osApi.startTimer = (seconds: number) => {
+            const id = this.nextTimerId++;
+            this.timers.set(id, this.now + seconds * 1000);
+            return id;
+        };
+        osApi.cancelTimer = (id: number) => {
+            this.timers.delete(id);
+        };
+        osApi.queueEvent = (...args: unknown[]) => this.queueEvent(...args);
+        osApi.pullEvent = (filter?: string) => this.pullEvent(filter);
+        osApi.pullEventRaw = (filter?: string) => this.pullEvent(filter);
+
+        globals.sleep = (seconds: number) => this.advance(seconds);
+        globals.colors = COLORS;
+        globals.colours = COLORS;
+        globals.textutils = {
+            serialize: (value: unknown) => serialize(value),
+            unserialize: (text: string) => unserialize(text),
+        };
+        globals.fs = {
+            exists: (path: string) => this.files.has(path),
+            open: (path: string, mode: string) => $multi(this.openFile(path, mode)),
+        };
+
+        return this;
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    /**
+     * Open a file handle. Write modes buffer until flush(), like a real handle
+     * whose data hasn't reached the disk yet.
+     */
+    private openFile(path: string, mode: string): unknown {
+        if (mode === "r") {
+            const content = this.files.get(path);
+            if (content === undefined) return undefined;
+            const lines = content.split("\n");
+            if (lines[lines.length - 1] === "") lines.pop();
+            let next = 0;
+            return {
+                readLine: () => lines[next++],
+                readAll: () => content,
+                close: () => undefined,
+            };
+        }
+
+        let buffer = mode === "a" ? this.files.get(path) ?? "" : "";
+        const flush = (): void => {
+            this.files.set(path, buffer);
+        };
+        if (mode === "w") flush();
+        return {
+            write: (text: string) => {
+                buffer += text;
+            },
+            writeLine: (text: string) => {
+                buffer += text + "\n";
+            },
+            flush,
+            close: flush,
+        };
+    }
+
+    private getType(name: string): string | undefined {
+        if (name === this.modemSide) return "modem";
+        return this.network.getRemote(name)?.type;
+    }
+
+    /**
+     * Pop the next queued event; when the queue is empty, jump to the
+     * earliest timer. Events not matching the filter are discarded (like CC).
+     */
+    private pullEvent(filter?: string): LuaMultiReturn<unknown[]> {
+        while (true) {
+            if (this.events.length === 0) {
+                this.fireNextTimer();
+            }
+            const event = this.events.shift();
+            if (filter === undefined || event[0] === filter) {
+                return $multi(...event);
+            }
+        }
+    }
+
+    private fireNextTimer(): void {
+        let nextId: number | undefined;
+        let nextAt = 0;
+        for (const [id, at] of this.timers) {
+            if (nextId === undefined || at < nextAt) {
+                nextId = id;
+                nextAt = at;
+            }
+        }
+        if (nextId === undefined) {
+            error("pullEvent would block forever: no events and no timers", 0);
+        }
+
+        this.timers.delete(nextId);
+        this.now = math.max(this.now, nextAt);
+        this.events.push(["timer", nextId]);
+    }
+}
+
+/**
+ * Minimal textutils.serialize replacement (used by the Logger and the transfer journal).
+ * Output is valid Lua table syntax, so unserialize() can read it back.
+ */
+function serialize(value: unknown): string {
+    if (type(value) === "string") {
+        return string.format("%q", value);
+    }
+    if (type(value) !== "table") {
+        return tostring(value);
+    }
+
+    const parts: string[] = [];
+    for (const [key, entry] of pairs(value as LuaTable<unknown, unknown>)) {
+        parts.push(`[${serialize(key)}] = ${serialize(entry)}`);
+    }
+    return `{ ${parts.join(", ")} }`;
+}
+
+/**
+ * textutils.unserialize replacement: evaluates the serialized table, undefined on syntax errors.
+ */
+function unserialize(text: string): unknown {
+    const [chunk] = load(`return ${text}`, "unserialize", "t", {});
+    if (!chunk) return undefined;
+    const [success, value] = pcall(chunk);
+    return success ? value : undefined;
+}
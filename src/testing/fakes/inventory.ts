@@ -0,0 +1,197 @@
+import { FakeNetwork } from "./network";
+
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/**
+ * A stack of items inside a fake inventory slot.
+ */
+export interface FakeStack {
+    name: string;
+    count: number;
+    nbt?: string;
+    tags?: string[];
+    /** Anvil name (default: the item ID) */
+    displayName?: string;
+}
+
+/**
+ * In-memory inventory honouring CC:Tweaked semantics:
+ * - list() returns a sparse slot -> item table
+ * - pushItems/pullItems merge into matching stacks first, then empty slots
+ * - Stack limit and slot count cap every move (partial pushes)
+ *
+ * Set `failing` to make every call throw like a detached peripheral.
+ */
+export class FakeInventory {
+    failing = false;
+
+    private slots = new Map<number, FakeStack>();
+
+    constructor(
+        readonly size = 27,
+        private readonly maxStackSize = 64,
+    ) {}
+
+    /** Put a stack into a slot (replaces whatever was there) */
+    setSlot(
+        slot: number,
+        name: string,
+        count: number,
+        extra?: { nbt?: string; tags?: string[]; displayName?: string },
+    ): this {
+        this.slots.set(slot, { name, count, nbt: extra?.nbt, tags: extra?.tags, displayName: extra?.displayName });
+        return this;
+    }
+
+    clearSlot(slot: number): void {
+        this.slots.delete(slot);
+    }
+
+    getSlot(slot: number): FakeStack | undefined {
+        return this.slots.get(slot);
+    }
+
+    /** Total count of an item across all slots */
+    countOf(itemId: string): number {
+        let total = 0;
+        for (const [, stack] of this.slots) {
+            if (stack.name === itemId) total += stack.count;
+        }
+        return total;
+    }
+
+    isEmpty(): boolean {
+        return this.slots.size === 0;
+    }
+
+    /**
+     * Insert up to `limit` items of a stack.
+     * Merges into matching stacks first, then fills empty slots in slot order.
+     *
+     * @returns Number of items inserted
+     */
+    insert(stack: FakeStack, limit: number, toSlot?: number): number {
+        let remaining = math.min(limit, stack.count);
+        const candidates: number[] = [];
+
+        if (toSlot !== undefined) {
+            candidates.push(toSlot);
+        } else {
+            for (let slot = 1; slot <= this.size; slot++) {
+                if (this.isSameItem(this.slots.get(slot), stack)) candidates.push(slot);
+            }
+            for (let slot = 1; slot <= this.size; slot++) {
+                if (!this.slots.has(slot)) candidates.push(slot);
+            }
+        }
+
+        for (const slot of candidates) {
+            if (remaining <= 0) break;
+            const existing = this.slots.get(slot);
+            if (existing && !this.isSameItem(existing, stack)) continue;
+
+            const current = existing?.count ?? 0;
+            const moved = math.min(remaining, this.maxStackSize - current);
+            if (moved <= 0) continue;
+
+            if (existing) {
+                existing.count += moved;
+            } else {
+                this.slots.set(slot, { ...stack, count: moved });
+            }
+            remaining -= moved;
+        }
+
+        return math.min(limit, stack.count) - remaining;
+    }
+
+    /**
+     * Remove up to `amount` items from a slot.
+     */
+    extract(slot: number, amount: number): void {
+        const stack = this.slots.get(slot);
+        if (!stack) return;
+        stack.count -= amount;
+        if (stack.count <= 0) this.slots.delete(slot);
+    }
+
+    /**
+     * Peripheral view as returned by peripheral.wrap().
+     * pushItems/pullItems resolve other inventories through the network.
+     */
+    asPeripheral(network: FakeNetwork): InventoryPeripheral {
+        const inv = {
+            size: () => {
+                this.check();
+                return this.size;
+            },
+            list: () => {
+                this.check();
+                const result: { [slot: number]: { name: string; count: number; nbt?: string } } = {};
+                for (const [slot, stack] of this.slots) {
+                    result[slot] = { name: stack.name, count: stack.count, nbt: stack.nbt };
+                }
+                return result;
+            },
+            getItemDetail: (slot: number) => {
+                this.check();
+                const stack = this.slots.get(slot);
+                if (!stack) return undefined;
+                return {
+                    name: stack.name,
+                    count: stack.count,
+                    nbt: stack.nbt,
+                    displayName: stack.displayName ?? stack.name,
+                    maxCount: this.maxStackSize,
+                    tags: this.tagTable(stack.tags),
+                };
+            },
+            getItemLimit: (_slot: number) => {
+                this.check();
+                return this.maxStackSize;
+            },
+            pushItems: (to: string, slot: number, limit?: number, toSlot?: number) => {
+                this.check();
+                const target = network.getInventory(to);
+                if (!target) error(`Target '${to}' does not exist`, 0);
+                return this.moveTo(target, slot, limit, toSlot);
+            },
+            pullItems: (from: string, slot: number, limit?: number, toSlot?: number) => {
+                this.check();
+                const source = network.getInventory(from);
+                if (!source) error(`Source '${from}' does not exist`, 0);
+                return source.moveTo(this, slot, limit, toSlot);
+            },
+        };
+        return inv as unknown as InventoryPeripheral;
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private moveTo(target: FakeInventory, slot: number, limit?: number, toSlot?: number): number {
+        target.check();
+        const stack = this.slots.get(slot);
+        if (!stack) return 0;
+
+        const moved = target.insert(stack, limit ?? this.maxStackSize, toSlot);
+        this.extract(slot, moved);
+        return moved;
+    }
+
+    /** CC reports tags as a set: { ["c:ores"] = true } */
+    private tagTable(tags?: string[]): Record<string, boolean> {
+        const table: Record<string, boolean> = {};
+        for (const tag of tags ?? []) table[tag] = true;
+        return table;
+    }
+
+    private check(): void {
+        if (this.failing) error("Peripheral is detached", 0);
+    }
+
+    private isSameItem(a: FakeStack | undefined, b: FakeStack): boolean {
+        return a !== undefined && a.name === b.name && a.nbt === b.nbt;
+    }
+}
@@ -0,0 +1,114 @@
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/**
+ * In-memory monitor that records a character grid and the text color of every cell.
+ */
+export class FakeMonitor {
+    textScale = 1;
+
+    private rows: string[] = [];
+    private colorRows: number[][] = [];
+    private cursorX = 1;
+    private cursorY = 1;
+    private textColor = 1;
+
+    constructor(
+        readonly width = 39,
+        readonly height = 26,
+    ) {
+        this.clear();
+    }
+
+    /** Text of a row (1-based), trailing spaces removed */
+    getLine(y: number): string {
+        const row = this.rows[y - 1] ?? "";
+        const [trimmed] = string.gsub(row, "%s+$", "");
+        return trimmed;
+    }
+
+    /** All rows, trailing spaces removed */
+    getLines(): string[] {
+        const lines: string[] = [];
+        for (let y = 1; y <= this.height; y++) {
+            lines.push(this.getLine(y));
+        }
+        return lines;
+    }
+
+    /** First row (1-based) containing the text (plain match), or undefined */
+    findLine(text: string): number | undefined {
+        for (let y = 1; y <= this.height; y++) {
+            if (string.find(this.rows[y - 1], text, 1, true)[0] !== undefined) return y;
+        }
+        return undefined;
+    }
+
+    /** Text color of a cell (1-based) */
+    getColorAt(x: number, y: number): number | undefined {
+        return this.colorRows[y - 1]?.[x - 1];
+    }
+
+    /**
+     * Peripheral view as returned by peripheral.wrap().
+     */
+    asPeripheral(): MonitorPeripheral {
+        const mon = {
+            write: (text: string) => this.write(tostring(text)),
+            clear: () => this.clear(),
+            clearLine: () => {
+                this.rows[this.cursorY - 1] = string.rep(" ", this.width);
+            },
+            getCursorPos: () => $multi(this.cursorX, this.cursorY),
+            setCursorPos: (x: number, y: number) => {
+                this.cursorX = x;
+                this.cursorY = y;
+            },
+            getSize: () => $multi(this.width, this.height),
+            isColor: () => true,
+            isColour: () => true,
+            getTextColor: () => this.textColor,
+            setTextColor: (color: number) => {
+                this.textColor = color;
+            },
+            setTextColour: (color: number) => {
+                this.textColor = color;
+            },
+            setBackgroundColor: (_color: number) => undefined,
+            setBackgroundColour: (_color: number) => undefined,
+            setTextScale: (scale: number) => {
+                this.textScale = scale;
+            },
+        };
+        return mon as unknown as MonitorPeripheral;
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private clear(): void {
+        this.rows = [];
+        this.colorRows = [];
+        for (let y = 1; y <= this.height; y++) {
+            this.rows.push(string.rep(" ", this.width));
+            const colorsRow: number[] = [];
+            for (let x = 1; x <= this.width; x++) colorsRow.push(0);
+            this.colorRows.push(colorsRow);
+        }
+    }
+
+    private write(text: string): void {
+        const y = this.cursorY;
+        if (y >= 1 && y <= this.height) {
+            const row = this.rows[y - 1];
+            const before = string.sub(row, 1, this.cursorX - 1);
+            const after = string.sub(row, this.cursorX + text.length);
+            this.rows[y - 1] = string.sub(before + text + after, 1, this.width);
+
+            for (let x = this.cursorX; x < this.cursorX + text.length && x <= this.width; x++) {
+                if (x >= 1) this.colorRows[y - 1][x - 1] = this.textColor;
+            }
+        }
+        this.cursorX += text.length;
+    }
+}
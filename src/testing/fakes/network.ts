@@ -0,0 +1,83 @@
+import { FakeInventory } from "./inventory";
+import { FakeMonitor } from "./monitor";
+
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/**
+ * A peripheral attached to the fake wired network.
+ */
+interface FakeRemote {
+    type: string;
+    peripheral: IPeripheral;
+    inventory?: FakeInventory;
+    monitor?: FakeMonitor;
+}
+
+/**
+ * Fake wired network: a wired modem plus attachable remote peripherals.
+ * Attaching/removing a remote reports a `peripheral` / `peripheral_detach`
+ * event to the listener (see FakeComputer).
+ */
+export class FakeNetwork {
+    /** Called with (event, name) when remotes are attached or removed */
+    listener?: (event: string, name: string) => void;
+
+    private remotes = new Map<string, FakeRemote>();
+
+    constructor(private readonly wireless = false) {}
+
+    addInventory(name: string, inventory = new FakeInventory(), type = "minecraft:chest"): FakeInventory {
+        this.attach(name, { type, peripheral: inventory.asPeripheral(this), inventory });
+        return inventory;
+    }
+
+    addMonitor(name: string, monitor = new FakeMonitor()): FakeMonitor {
+        this.attach(name, { type: "monitor", peripheral: monitor.asPeripheral(), monitor });
+        return monitor;
+    }
+
+    remove(name: string): void {
+        if (!this.remotes.has(name)) return;
+        this.remotes.delete(name);
+        this.listener?.("peripheral_detach", name);
+    }
+
+    getInventory(name: string): FakeInventory | undefined {
+        return this.remotes.get(name)?.inventory;
+    }
+
+    getRemote(name: string): FakeRemote | undefined {
+        return this.remotes.get(name);
+    }
+
+    getNames(): string[] {
+        const names: string[] = [];
+        for (const [name] of this.remotes) {
+            names.push(name);
+        }
+        return names;
+    }
+
+    /**
+     * Wired modem peripheral for this network.
+     */
+    createModem(): WiredModemPeripheral {
+        const modem = {
+            isWireless: () => this.wireless,
+            getNamesRemote: () => this.getNames(),
+            isPresentRemote: (name: string) => this.remotes.has(name),
+            getTypeRemote: (name: string) => this.remotes.get(name)?.type,
+            getNameLocal: () => "computer_0",
+        };
+        return modem as unknown as WiredModemPeripheral;
+    }
+
+    // ========================================
+    // Private methods
+    // ========================================
+
+    private attach(name: string, remote: FakeRemote): void {
+        this.remotes.set(name, remote);
+        this.listener?.("peripheral", name);
+    }
+}
@@ -0,0 +1,121 @@
+import { Logger } from "@core/logger";
+import { SafePeripheral, wrapPeripheral } from "@core/safe-peripheral";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { TaskContext } from "@lib/task/types";
+import { FakeComputer } from "./fakes/computer";
+import { FakeNetwork } from "./fakes/network";
+
+// Types from @jackmacwindows/craftos-types are globally declared
+
+/**
+ * A named group of test cases.
+ */
+export class TestSuite {
+    readonly tests: { name: string; fn: () => void }[] = [];
+
+    constructor(readonly name: string) {}
+
+    test(name: string, fn: () => void): void {
+        this.tests.push({ name, fn });
+    }
+}
+
+/**
+ * Run all suites with pcall isolation and print a summary.
+ *
+ * @returns Number of failed tests
+ */
+export function runSuites(suites: TestSuite[]): number {
+    let passed = 0;
+    let failed = 0;
+
+    for (const suite of suites) {
+        print(`>> ${suite.name}`);
+        for (const t of suite.tests) {
+            const [success, error] = pcall(() => t.fn());
+            if (success) {
+                passed++;
+                print(`  ok    ${t.name}`);
+            } else {
+                failed++;
+                print(`  FAIL  ${t.name}: ${tostring(error)}`);
+            }
+        }
+    }
+
+    print("");
+    print(`${passed} passed, ${failed} failed`);
+    return failed;
+}
+
+export function expectEqual<T>(actual: T, expected: T, message = "values differ"): void {
+    if (actual !== expected) {
+        error(`${message}: expected ${tostring(expected)}, got ${tostring(actual)}`, 2);
+    }
+}
+
+export function expectTrue(value: unknown, message = "expected true"): void {
+    if (!value) {
+        error(message, 2);
+    }
+}
+
+/**
+ * Fresh fake world for one test: network, installed fake computer and a quiet logger.
+ */
+export interface TestWorld {
+    network: FakeNetwork;
+    computer: FakeComputer;
+    modem: WiredModemPeripheral;
+    log: Logger;
+}
+
+export function createWorld(options: { wireless?: boolean } = {}): TestWorld {
+    const network = new FakeNetwork(options.wireless);
+    const computer = new FakeComputer(network).install();
+    return {
+        network,
+        computer,
+        modem: peripheral.wrap("back") as WiredModemPeripheral,
+        log: new Logger({ level: "error" }),
+    };
+}
+
+/**
+ * Wrap a network inventory in a SafePeripheral (bypassing validatePeripherals).
+ */
+export function wrapInventory(world: TestWorld, name: string): SafePeripheral<InventoryPeripheral> {
+    const raw = peripheral.wrap(name) as InventoryPeripheral;
+    return wrapPeripheral(world.modem, name, raw, world.log);
+}
+
+/**
+ * Wrap network inventories as a composite material source (priority 0, config order).
+ */
+export function wrapMaterialSource(world: TestWorld, names: string[]): MaterialSource {
+    return new MaterialSource(
+        names.map((name) => ({ peripheral: wrapInventory(world, name), priority: 0 })),
+        world.log,
+    );
+}
+
+/**
+ * Task context over the fake world: `sources` form the material source,
+ * `chestNames` are wrapped like validated chests.
+ */
+export function createTaskContext(world: TestWorld, sources: string[], chestNames: string[]): TaskContext {
+    const chests = new Map<string, SafePeripheral<InventoryPeripheral>>();
+    for (const name of chestNames) {
+        chests.set(name, wrapInventory(world, name));
+    }
+    return {
+        peripherals: {
+            modem: world.modem,
+            materialSource: wrapMaterialSource(world, sources),
+            machineChests: chests,
+            discoveredChests: new Map(),
+        },
+        logger: world.log,
+        systemConfig: { scanIntervalSeconds: 5, logLevel: "error", dryRun: false },
+    };
+}
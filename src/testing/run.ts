@@ -0,0 +1,44 @@
+import { runSuites } from "./harness";
+import { safePeripheralSuite } from "./specs/safe-peripheral.spec";
+import { registrySuite } from "./specs/registry.spec";
+import { scannerSuite } from "./specs/scanner.spec";
+import { materialSourceSuite } from "./specs/material-source.spec";
+import { transferSuite } from "./specs/transfer.spec";
+import { journalSuite } from "./specs/journal.spec";
+import { orchestratorSuite } from "./specs/orchestrator.spec";
+import { schedulerSuite } from "./specs/scheduler.spec";
+import { weightedSuite } from "./specs/weighted.spec";
+import { compositeSuite } from "./specs/composite.spec";
+import { widgetsSuite } from "./specs/widgets.spec";
+import { discoverySuite } from "./specs/discovery.spec";
+import { configSuite } from "./specs/config.spec";
+import { routingSuite } from "./specs/routing.spec";
+import { trimmingSuite } from "./specs/trimming.spec";
+import { collectionSuite } from "./specs/collection.spec";
+import { taskRegistrySuite } from "./specs/task-registry.spec";
+
+/**
+ * Test entry point: runs the lib/ layer against fake peripherals under plain Lua.
+ * Build with `npm test` (bundles to dist/test.lua and runs it with `lua`).
+ */
+const failures = runSuites([
+    safePeripheralSuite,
+    registrySuite,
+    scannerSuite,
+    materialSourceSuite,
+    transferSuite,
+    journalSuite,
+    orchestratorSuite,
+    schedulerSuite,
+    weightedSuite,
+    compositeSuite,
+    widgetsSuite,
+    discoverySuite,
+    configSuite,
+    routingSuite,
+    trimmingSuite,
+    collectionSuite,
+    taskRegistrySuite,
+]);
+
+os.exit(failures > 0 ? 1 : 0);
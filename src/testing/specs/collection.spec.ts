@@ -0,0 +1,38 @@
+import { CollectionTask } from "@apps/collection/task";
+import { MachineConfig } from "@lib/orchestrator/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createTaskContext, createWorld, expectEqual, expectTrue } from "../harness";
+
+export const collectionSuite = new TestSuite("collection/task");
+
+collectionSuite.test("collects output chests of task machines and extra machines", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0");
+    world.network.addInventory("out_1", new FakeInventory().setSlot(1, "minecraft:gravel", 20));
+    world.network.addInventory("out_2", new FakeInventory().setSlot(1, "minecraft:sand", 5));
+    world.network.addInventory("out_3", new FakeInventory().setSlot(1, "minecraft:flint", 3));
+
+    const taskMachines: MachineConfig[] = [
+        { id: "hammer_1", type: "hammer", inputChest: "in_1", outputChest: "out_1" },
+        { id: "hammer_2", type: "hammer", inputChest: "in_2" },
+        { id: "geologist_1", type: "geologist", inputChest: "in_3", outputChest: "out_2" },
+    ];
+    const task = new CollectionTask(taskMachines);
+    const initRes = task.init(createTaskContext(world, ["storage_0"], ["out_1", "out_2", "out_3"]), {
+        enabled: true,
+        machines: [{ id: "sieve_1", type: "sieve", inputChest: "in_4", outputChest: "out_3" }],
+    });
+    expectTrue(initRes.ok, "init should succeed");
+    if (!initRes.ok) return;
+    expectEqual(Object.keys(initRes.value.machineOutput).sort().join(","), "geologist_1,hammer_1,sieve_1");
+
+    const res = task.execute(initRes.value, new InventoryLedger(new Map()));
+    expectTrue(res.ok, "execute should succeed");
+    if (!res.ok) return;
+
+    expectEqual(storage.countOf("minecraft:gravel"), 20);
+    expectEqual(storage.countOf("minecraft:sand"), 5);
+    expectEqual(storage.countOf("minecraft:flint"), 3);
+    expectEqual(res.value.state.totalCollected, 28);
+});
@@ -0,0 +1,102 @@
+import { createScheduler, findScheduler } from "@lib/scheduler/factory";
+import { CompositeScheduler } from "@lib/scheduler/composite";
+import { RecipeDefinition, StockBasedScheduler, StockTarget } from "@lib/scheduler/stock-based";
+import { WeightedScheduler } from "@lib/scheduler/weighted";
+import { MaterialDefinition } from "@lib/scheduler/types";
+import { InventoryItemInfo } from "@lib/inventory/types";
+import { MachineState } from "@lib/orchestrator/types";
+import { TestSuite, createWorld, expectEqual, expectTrue } from "../harness";
+
+export const compositeSuite = new TestSuite("scheduler/composite");
+
+const RECIPES: Record<string, RecipeDefinition[]> = {
+    hammer: [
+        { input: "minecraft:gravel", output: "minecraft:dirt" },
+        { input: "minecraft:sand", output: "ftbstuff:dust" },
+    ],
+    sieve: [{ input: "minecraft:gravel", output: "minecraft:flint" }],
+};
+
+const TARGETS: StockTarget[] = [
+    { itemId: "minecraft:dirt", targetCount: 1000, weight: 1 },
+    { itemId: "ftbstuff:dust", targetCount: 1000, weight: 1 },
+];
+
+const MATERIALS: Record<string, MaterialDefinition> = {
+    gravel: { id: "gravel", itemId: "minecraft:gravel", minStock: 0, weight: 1 },
+    sand: { id: "sand", itemId: "minecraft:sand", minStock: 0, weight: 1 },
+};
+
+function stock(counts: Record<string, number>): Map<string, InventoryItemInfo> {
+    const inventory = new Map<string, InventoryItemInfo>();
+    let slot = 1;
+    for (const [itemId, count] of Object.entries(counts)) {
+        inventory.set(itemId, { totalCount: count, slots: [{ slot: slot++, count }] });
+    }
+    return inventory;
+}
+
+function emptyMachine(id: string, type: string): MachineState {
+    return { id, type, inputChest: `chest_${id}`, isEmpty: true, needsRefill: true };
+}
+
+compositeSuite.test("later stages get the machines and stock the earlier ones left", () => {
+    const world = createWorld();
+    const scheduler = createScheduler(
+        [
+            { id: "dust", kind: "stock-based", items: ["ftbstuff:dust"] },
+            { id: "rest", kind: "weighted", materials: MATERIALS },
+        ],
+        { recipes: RECIPES, stockTargets: TARGETS, transferAmount: 64, seed: 1 },
+        world.log,
+    );
+    expectTrue(scheduler instanceof CompositeScheduler, "several stages are chained");
+
+    const result = scheduler.scheduleWithDecisions!(
+        [emptyMachine("hammer_1", "hammer"), emptyMachine("hammer_2", "hammer")],
+        stock({ "minecraft:sand": 64, "minecraft:gravel": 200 }),
+    );
+
+    expectEqual(result.assignments.map((a) => `${a.machineId}=${a.itemId}`).join(","),
+        "hammer_1=minecraft:sand,hammer_2=minecraft:gravel", "sand used up by the dust stage");
+
+    const [first, second] = result.decisions;
+    expectEqual(first.assignedItem, "minecraft:sand");
+    expectEqual(second.assignedItem, "minecraft:gravel");
+    expectEqual(second.reason, undefined);
+    expectEqual(second.candidates[0]?.label, "dust: minecraft:sand -> ftbstuff:dust");
+    expectEqual(second.candidates[0]?.rejected, "out_of_stock");
+});
+
+compositeSuite.test("stages only see machines of their types", () => {
+    const world = createWorld();
+    const scheduler = createScheduler(
+        [
+            { id: "sieves", kind: "weighted", machineTypes: ["sieve"], materials: MATERIALS },
+            { id: "stock", kind: "stock-based" },
+        ],
+        { recipes: RECIPES, stockTargets: TARGETS, transferAmount: 64 },
+        world.log,
+    );
+
+    const result = scheduler.scheduleWithDecisions!(
+        [emptyMachine("hammer_1", "hammer"), emptyMachine("sieve_1", "sieve")],
+        stock({ "minecraft:gravel": 64 }),
+    );
+
+    expectEqual(result.assignments.map((a) => `${a.machineId}=${a.itemId}`).join(","), "sieve_1=minecraft:gravel");
+    const hammer = result.decisions.find((d) => d.machineId === "hammer_1");
+    expectEqual(hammer?.reason, "no_viable_candidate", "gravel taken by the sieve stage");
+    expectTrue(findScheduler(scheduler, StockBasedScheduler) !== undefined, "stock-based stage found");
+});
+
+compositeSuite.test("a single stage for all machines is used directly", () => {
+    const world = createWorld();
+    const scheduler = createScheduler(
+        [{ id: "weighted", kind: "weighted" }],
+        { materials: MATERIALS, machineTypes: {}, transferAmount: 64 },
+        world.log,
+    );
+    expectTrue(scheduler instanceof WeightedScheduler, "no composite for one stage");
+    expectEqual(findScheduler(scheduler, StockBasedScheduler), undefined);
+});
@@ -0,0 +1,206 @@
+import { ConfigReport } from "@lib/config/report";
+import { validateProductionConfig } from "@apps/production/validate";
+import { validateDistributionConfig } from "@apps/distribution/validate";
+import { ProductionConfig } from "@apps/production/types";
+import { DistributionConfig } from "@apps/distribution/types";
+import { validateAppConfig } from "@entries/validate";
+import { CONFIG } from "@entries/config";
+import { TestSuite, expectEqual, expectTrue } from "../harness";
+
+export const configSuite = new TestSuite("config/validate");
+
+function production(): ProductionConfig {
+    return {
+        enabled: true,
+        machines: [{ id: "hammer_1", type: "hammer", inputChest: "chest_1" }],
+        recipes: {
+            hammer: [
+                { input: "minecraft:cobblestone", output: "minecraft:gravel" },
+                { input: "minecraft:gravel", output: "minecraft:sand" },
+            ],
+        },
+        stockTargets: [
+            { itemId: "minecraft:gravel", targetCount: 64, weight: 1 },
+            { itemId: "minecraft:sand", targetCount: 64, weight: 1 },
+        ],
+        transferAmount: 64,
+    };
+}
+
+function distribution(): DistributionConfig {
+    return {
+        enabled: true,
+        machines: [{ id: "geologist_1", type: "geologist", inputChest: "chest_2" }],
+        materials: {
+            gravel: { id: "gravel", itemId: "minecraft:gravel", minStock: 64, weight: 0 },
+        },
+        machineTypes: {
+            geologist: { id: "geologist", supportedMaterials: ["gravel"] },
+        },
+        transferAmount: 64,
+    };
+}
+
+function paths(report: ConfigReport): string {
+    return report.getErrors().map((i) => i.path).join(",");
+}
+
+configSuite.test("accepts a consistent config", () => {
+    const report = new ConfigReport();
+    const ruleIds = new Set<string>();
+    validateProductionConfig(production(), report, ruleIds);
+    validateDistributionConfig(distribution(), report, ruleIds);
+
+    expectEqual(report.getIssues().length, 0);
+    expectTrue(report.toResult().ok, "result should be ok");
+});
+
+configSuite.test("rejects unknown references and non-positive amounts", () => {
+    const config = distribution();
+    config.machineTypes.geologist.supportedMaterials.push("gravle");
+    config.machines.push({ id: "sifter_1", type: "sifter", inputChest: "chest_3" });
+    config.transferAmount = 0;
+
+    const report = new ConfigReport();
+    validateDistributionConfig(config, report, new Set());
+
+    expectEqual(paths(report), "machines[2],transferAmount,machineTypes.geologist.supportedMaterials");
+    const res = report.toResult();
+    expectTrue(!res.ok, "result should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_CONFIG_INVALID");
+});
+
+configSuite.test("warns about recipe outputs without stock target", () => {
+    const config = production();
+    config.stockTargets = [{ itemId: "minecraft:gravel", targetCount: 64, weight: 1 }];
+
+    const report = new ConfigReport();
+    validateProductionConfig(config, report, new Set());
+
+    expectTrue(!report.hasErrors(), "missing stock target is only a warning");
+    expectEqual(report.getWarnings()[0]?.path, "recipes.hammer[2]");
+});
+
+configSuite.test("checks recipe quantities and chances", () => {
+    const config = production();
+    config.recipes.hammer.push(
+        {
+            input: "minecraft:gravel",
+            inputCount: 0,
+            outputs: [{ itemId: "minecraft:flint", chance: 1.5 }, { itemId: "minecraft:sand", count: 2 }],
+        },
+        { input: "minecraft:dirt", output: "minecraft:sand", outputs: [{ itemId: "minecraft:sand" }] },
+    );
+    config.stockTargets.push({ itemId: "minecraft:flint", targetCount: 64, weight: 1 });
+
+    const report = new ConfigReport();
+    validateProductionConfig(config, report, new Set());
+
+    expectEqual(paths(report), "recipes.hammer[3].inputCount,recipes.hammer[3].outputs[1].chance,recipes.hammer[4]");
+});
+
+configSuite.test("detects recipe cycles", () => {
+    const config = production();
+    config.recipes.hammer.push({ input: "minecraft:sand", output: "minecraft:cobblestone" });
+    config.stockTargets.push({ itemId: "minecraft:cobblestone", targetCount: 64, weight: 1 });
+
+    const report = new ConfigReport();
+    validateProductionConfig(config, report, new Set());
+
+    expectEqual(
+        report.getErrors()[0]?.message,
+        "recipe cycle: minecraft:cobblestone -> minecraft:gravel -> minecraft:sand -> minecraft:cobblestone",
+    );
+});
+
+configSuite.test("checks scheduler stages", () => {
+    const config = production();
+    config.schedulers = [
+        { id: "dust", kind: "stock-based", items: ["ftbstuff:dust"] },
+        { id: "dust", kind: "weighted", machineTypes: ["sieve"] },
+    ];
+    const report = new ConfigReport();
+    validateProductionConfig(config, report, new Set());
+
+    expectEqual(paths(report), "schedulers[1].items,schedulers[2],schedulers[2].machineTypes,schedulers[2]");
+});
+
+configSuite.test("checks machine overrides", () => {
+    const config = production();
+    config.machines[0].transferAmount = 0;
+    config.machines[0].allowedItems = ["minecraft:gravel"];
+    config.machines[0].forbiddenItems = ["minecraft:gravel"];
+    config.machineTypes = { sieve: { weightMultipliers: { "minecraft:dirt": 2 } } };
+    const report = new ConfigReport();
+    validateProductionConfig(config, report, new Set());
+
+    expectEqual(paths(report), "machines[1].transferAmount,machines[1].allowedItems,machineTypes.sieve");
+    expectEqual(report.getWarnings()[0]?.path, "machineTypes.sieve.weightMultipliers");
+});
+
+configSuite.test("accepts the shipped config and rejects shared chests", () => {
+    expectTrue(!validateAppConfig(CONFIG).hasErrors(), "shipped config should be valid");
+
+    const config = { ...CONFIG, distribution: { ...CONFIG.distribution, machines: [...CONFIG.distribution.machines] } };
+    config.distribution.machines.push({ id: "geologist_2", type: "geologist", inputChest: "minecraft:chest_5" });
+
+    const report = validateAppConfig(config);
+    expectEqual(report.getErrors()[0]?.message, 'inputChest "minecraft:chest_5" is already used by production machine "hammer_1"');
+});
+
+configSuite.test("rejects output chests that are machine inputs", () => {
+    const machines = [...CONFIG.production.machines];
+    machines[0] = { ...machines[0], outputChest: machines[0].inputChest };
+    machines[1] = { ...machines[1], outputChest: machines[2].inputChest };
+    const config = {
+        ...CONFIG,
+        production: { ...CONFIG.production, machines },
+        collection: {
+            enabled: true,
+            machines: [
+                { id: "hammer_4", type: "hammer", inputChest: "minecraft:chest_8", outputChest: "minecraft:chest_12" },
+                { id: "sieve_1", type: "sieve", inputChest: "minecraft:chest_13" },
+            ],
+        },
+    };
+
+    const report = validateAppConfig(config);
+    expectEqual(
+        report.getErrors().map((i) => `${i.section}:${i.path}`).join(","),
+        "production:machines[1].outputChest,collection:machines[1],"
+            + "production:machines[1].outputChest,production:machines[2].outputChest",
+    );
+    expectEqual(report.getWarnings().filter((i) => i.section === "collection").length, 1);
+});
+
+configSuite.test("checks task intervals", () => {
+    const config = {
+        ...CONFIG,
+        system: {
+            ...CONFIG.system,
+            taskIntervals: {
+                production: { intervalSeconds: 0 },
+                sorting: { intervalSeconds: 10, jitterSeconds: -1 },
+                smelting: { intervalSeconds: 10 },
+            },
+        },
+    };
+
+    const report = validateAppConfig(config);
+    const errors = report.getErrors().map((i) => i.path).sort();
+    expectEqual(errors.join(","), "taskIntervals.production.intervalSeconds,taskIntervals.sorting.jitterSeconds");
+    expectEqual(report.getWarnings().filter((i) => i.section === "system")[0]?.path, "taskIntervals.smelting");
+});
+
+configSuite.test("rejects sorting inboxes that are the trim destination", () => {
+    const config = {
+        ...CONFIG,
+        trimming: { ...CONFIG.trimming, enabled: true },
+        sorting: { ...CONFIG.sorting, enabled: true, inboxes: ["minecraft:chest_2", CONFIG.trimming.destination] },
+    };
+
+    const report = validateAppConfig(config);
+    expectEqual(paths(report), "inboxes[2]");
+    expectEqual(report.getErrors()[0]?.message, `"${CONFIG.trimming.destination}" is already used by trimming destination`);
+});
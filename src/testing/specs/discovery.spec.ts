@@ -0,0 +1,206 @@
+import { Result, ok } from "@core/result";
+import { validatePeripherals } from "@lib/peripheral/registry";
+import { PeripheralWatcher } from "@lib/peripheral/watcher";
+import { PeripheralChangeEvent } from "@lib/peripheral/types";
+import { addDiscoveredMachine, resolveMachines } from "@lib/orchestrator/discovery";
+import { MachineDiscoveryRule } from "@lib/orchestrator/types";
+import { TaskRegistry } from "@lib/task/registry";
+import { Task, TaskContext, TaskDiagnostics, TaskExecutionResult } from "@lib/task/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createWorld, expectEqual, expectTrue } from "../harness";
+
+export const discoverySuite = new TestSuite("peripheral/discovery");
+
+const RULES: MachineDiscoveryRule[] = [
+    { id: "hammer_auto", type: "hammer", namePattern: "^minecraft:barrel_%d+$" },
+    { id: "sieve_auto", type: "sieve", markerItem: "minecraft:paper" },
+];
+
+const REQUEST = {
+    modemSide: "back" as const,
+    materialSources: [{ name: "storage_0", type: "inventory" }],
+    materialSourceNames: ["storage_0"],
+    chestNames: ["minecraft:chest_1"],
+    discoveryRules: RULES,
+};
+
+/**
+ * Task that runs an action mid-cycle, then waits for a peripheral call result
+ * like a real transfer (the filtered pull drops every other event).
+ */
+class PeripheralCallTask implements Task<unknown, number> {
+    readonly id = "production";
+    readonly name = "Peripheral call";
+
+    constructor(private action: () => void) {}
+
+    init(_context: TaskContext, _config: unknown): Result<number> {
+        return ok(0);
+    }
+
+    execute(state: number, _ledger: InventoryLedger): Result<TaskExecutionResult<number>> {
+        this.action();
+        os.queueEvent("task_complete");
+        os.pullEvent("task_complete");
+        return ok({ state: state + 1, operationsCount: 0 });
+    }
+
+    getDiagnostics(): TaskDiagnostics {
+        return { sections: [] };
+    }
+}
+
+discoverySuite.test("discovers chests by name pattern and marker item at boot", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    world.network.addInventory("minecraft:chest_1");
+    world.network.addInventory("minecraft:barrel_3", new FakeInventory(), "minecraft:barrel");
+    world.network.addInventory("minecraft:chest_9", new FakeInventory().setSlot(27, "minecraft:paper", 1));
+    world.network.addInventory("minecraft:chest_10");
+
+    const res = validatePeripherals(REQUEST, world.log);
+
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.discoveredChests.get("minecraft:barrel_3"), "hammer_auto");
+    expectEqual(res.value.discoveredChests.get("minecraft:chest_9"), "sieve_auto");
+    expectTrue(!res.value.discoveredChests.has("minecraft:chest_1"), "configured chests are not rediscovered");
+    expectTrue(!res.value.machineChests.has("minecraft:chest_10"), "unmatched chests are ignored");
+
+    const machines = resolveMachines([], RULES, res.value.discoveredChests);
+    expectEqual(machines.length, 2);
+    expectEqual(machines[0].id, "hammer_auto_barrel_3");
+    expectEqual(machines[1].markerItem, "minecraft:paper");
+});
+
+discoverySuite.test("discovers chests attached at runtime", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    const res = validatePeripherals(REQUEST, world.log);
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+
+    const watcher = new PeripheralWatcher(res.value, REQUEST, world.log);
+    const events: PeripheralChangeEvent[] = [];
+    watcher.onChange((e) => events.push(e));
+
+    world.network.addInventory("minecraft:barrel_7", new FakeInventory(), "minecraft:barrel");
+    world.network.addInventory("minecraft:chest_1");
+    watcher.sleep(1);
+
+    expectTrue(res.value.machineChests.has("minecraft:barrel_7"), "barrel should be added");
+    expectTrue(res.value.machineChests.has("minecraft:chest_1"), "configured chest should be added");
+    const chestEvents = events.filter((e) => e.role === "chest");
+    expectEqual(chestEvents.length, 2);
+    expectEqual(chestEvents[0].discoveryRuleId, "hammer_auto");
+
+    world.network.remove("minecraft:barrel_7");
+    watcher.sleep(1);
+    const barrel = res.value.machineChests.get("minecraft:barrel_7");
+    expectTrue(barrel !== undefined, "detached barrel should keep its wrapper");
+    expectTrue(!barrel!.isAvailable(), "detached barrel should be offline");
+
+    world.network.addInventory("minecraft:barrel_7");
+    watcher.sleep(1);
+    expectTrue(barrel!.isAvailable(), "re-attached barrel should be available again");
+    expectEqual(res.value.machineChests.get("minecraft:barrel_7"), barrel);
+});
+
+discoverySuite.test("applies chest attaches that arrive during a task cycle", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    world.network.addInventory("minecraft:chest_1");
+    const res = validatePeripherals(REQUEST, world.log);
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+
+    const watcher = new PeripheralWatcher(res.value, REQUEST, world.log);
+    const chest = res.value.machineChests.get("minecraft:chest_1")!;
+    world.network.remove("minecraft:chest_1");
+    watcher.sleep(1);
+    expectTrue(!chest.isAvailable(), "detached chest should be offline");
+
+    // The listener coroutine sees the attach; the task's own pull drops it
+    const registry = new TaskRegistry(world.log);
+    registry.register(new PeripheralCallTask(() => {
+        world.network.addInventory("minecraft:chest_1");
+        watcher.observe("peripheral", "minecraft:chest_1");
+    }), null);
+    registry.init({} as TaskContext);
+    registry.runCycle(new InventoryLedger(new Map()));
+
+    expectTrue(!chest.isAvailable(), "queued attach is applied between cycles");
+    watcher.processPending();
+    expectTrue(chest.isAvailable(), "re-attached chest should be available");
+});
+
+discoverySuite.test("recovers a chest whose attach event was missed", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    world.network.addInventory("minecraft:chest_1");
+    const res = validatePeripherals(REQUEST, world.log);
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+
+    const watcher = new PeripheralWatcher(res.value, REQUEST, world.log);
+    const chest = res.value.machineChests.get("minecraft:chest_1")!;
+    world.network.remove("minecraft:chest_1");
+    watcher.sleep(1);
+
+    const registry = new TaskRegistry(world.log);
+    registry.register(new PeripheralCallTask(() => world.network.addInventory("minecraft:chest_1")), null);
+    registry.init({} as TaskContext);
+    registry.runCycle(new InventoryLedger(new Map()));
+    watcher.processPending();
+    expectTrue(!chest.ensureConnected(), "lost event: breaker waits for its probe");
+
+    // The breaker probe asks the modem once the backoff has elapsed
+    world.computer.advance(10);
+    expectTrue(chest.ensureConnected(), "probe should find the chest again");
+    expectTrue(chest.isAvailable(), "re-attached chest should be available");
+});
+
+discoverySuite.test("matches renamed markers and keeps IDs unique across namespaces", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    world.network.addInventory("modA:chest_1", new FakeInventory().setSlot(1, "minecraft:paper", 1, { displayName: "Sieve" }));
+    world.network.addInventory("modB:chest_1", new FakeInventory().setSlot(1, "minecraft:paper", 1, { displayName: "Sieve" }));
+    world.network.addInventory("modC:chest_2", new FakeInventory().setSlot(1, "minecraft:paper", 1, { displayName: "Note" }));
+    world.network.addInventory("modC:chest_3", new FakeInventory().setSlot(1, "minecraft:paper", 1));
+    const rules: MachineDiscoveryRule[] = [
+        { id: "sieve_auto", type: "sieve", markerItem: "minecraft:paper", markerName: "Sieve" },
+    ];
+
+    const res = validatePeripherals({ ...REQUEST, chestNames: [], discoveryRules: rules }, world.log);
+
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+    expectTrue(!res.value.discoveredChests.has("modC:chest_2"), "marker with another name");
+    expectTrue(!res.value.discoveredChests.has("modC:chest_3"), "unnamed marker");
+
+    const ids = resolveMachines([], rules, res.value.discoveredChests).map((m) => m.id).sort();
+    expectEqual(ids.join(","), "sieve_auto_chest_1,sieve_auto_modB_chest_1");
+});
+
+discoverySuite.test("keeps IDs unique for chests discovered at runtime", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    world.network.addInventory("modA:chest_1", new FakeInventory().setSlot(1, "minecraft:paper", 1));
+    const res = validatePeripherals({ ...REQUEST, chestNames: [] }, world.log);
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+
+    // Same wiring as the production/distribution tasks' onPeripheralChange
+    const machines = resolveMachines([], RULES, res.value.discoveredChests);
+    const watcher = new PeripheralWatcher(res.value, { ...REQUEST, chestNames: [] }, world.log);
+    watcher.onChange((e) => {
+        if (e.kind === "attach" && e.discoveryRuleId) addDiscoveredMachine(machines, RULES, e.name, e.discoveryRuleId);
+    });
+
+    world.network.addInventory("modB:chest_1", new FakeInventory().setSlot(1, "minecraft:paper", 1));
+    watcher.sleep(1);
+
+    expectEqual(machines.map((m) => m.id).join(","), "sieve_auto_chest_1,sieve_auto_modB_chest_1");
+    expectEqual(addDiscoveredMachine(machines, RULES, "modB:chest_1", "sieve_auto"), undefined);
+});
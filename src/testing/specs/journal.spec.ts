@@ -0,0 +1,156 @@
+import { Orchestrator } from "@lib/orchestrator/orchestrator";
+import { MachineConfig } from "@lib/orchestrator/types";
+import { WeightedScheduler } from "@lib/scheduler/weighted";
+import { TransferJournal } from "@lib/transfer/journal";
+import { reconcileJournal } from "@lib/transfer/reconcile";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { FakeInventory } from "../fakes/inventory";
+import {
+    TestSuite,
+    TestWorld,
+    createWorld,
+    expectEqual,
+    expectTrue,
+    wrapInventory,
+    wrapMaterialSource,
+} from "../harness";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+export const journalSuite = new TestSuite("transfer/journal");
+
+const JOURNAL = "transfers.journal";
+
+function wrapChests(world: TestWorld, names: string[]): Map<string, SafePeripheral<InventoryPeripheral>> {
+    const chests = new Map<string, SafePeripheral<InventoryPeripheral>>();
+    for (const name of names) {
+        chests.set(name, wrapInventory(world, name));
+    }
+    return chests;
+}
+
+function lineCount(world: TestWorld): number {
+    return (world.computer.files.get(JOURNAL) ?? "").split("\n").filter((l) => l !== "").length;
+}
+
+/** Intent as the orchestrator writes it: one storage slot into one machine chest */
+function beginIntent(journal: TransferJournal, machine: number, slot: number, amount: number): number {
+    return journal.begin({
+        owner: "test",
+        machineId: `machine_${machine}`,
+        target: `chest_${machine}`,
+        itemId: "minecraft:gravel",
+        amount,
+        targetBefore: 0,
+        slots: [{ source: "storage_0", slot, amount, before: 64 }],
+    });
+}
+
+journalSuite.test("orchestrator journals intent, slot pushes and commit", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:gravel", 32)
+        .setSlot(2, "minecraft:gravel", 32));
+    world.network.addInventory("chest_1");
+
+    const machines: MachineConfig[] = [{ id: "geologist_1", type: "geologist", inputChest: "chest_1" }];
+    const scheduler = new WeightedScheduler(
+        {
+            materials: { gravel: { id: "gravel", itemId: "minecraft:gravel", minStock: 0, weight: 1 } },
+            machineTypes: { geologist: { id: "geologist", supportedMaterials: ["gravel"] } },
+            transferAmount: 64,
+        },
+        world.log,
+    );
+    const journal = new TransferJournal(JOURNAL, world.log);
+    const orchestrator = new Orchestrator(scheduler, world.log, "test", { journal });
+
+    const res = orchestrator.run(machines, wrapChests(world, ["chest_1"]), wrapMaterialSource(world, ["storage_0"]));
+    expectTrue(res.ok && res.value.transfers.length === 1, "one transfer expected");
+
+    const kinds = journal.getRecent(10).map((e) => e.kind).join(",");
+    expectEqual(kinds, "intent,slot,slot,commit");
+    expectEqual(journal.getOpenIntents().length, 0);
+    expectEqual(lineCount(world), 4, "every entry is flushed to disk");
+
+    // Entries survive a reboot and IDs continue
+    const reloaded = new TransferJournal(JOURNAL, world.log);
+    expectEqual(reloaded.getRecent(10).length, 4);
+    expectEqual(reloaded.getOpenIntents().length, 0);
+    expectEqual(beginIntent(reloaded, 1, 1, 64), 2);
+});
+
+journalSuite.test("reconciles interrupted transfers against a fresh scan", () => {
+    const world = createWorld();
+    // Before the shutdown every slot held 64 gravel and all chests were empty
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(2, "minecraft:gravel", 64)
+        .setSlot(3, "minecraft:gravel", 32));
+    world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+    world.network.addInventory("chest_2");
+    world.network.addInventory("chest_3");
+
+    const journal = new TransferJournal(JOURNAL, world.log);
+    beginIntent(journal, 1, 1, 64); // completed, commit never written
+    beginIntent(journal, 2, 2, 64); // never started
+    beginIntent(journal, 3, 3, 64); // 32 left the storage but never arrived
+
+    const findings = reconcileJournal(
+        new TransferJournal(JOURNAL, world.log),
+        wrapMaterialSource(world, ["storage_0"]),
+        wrapChests(world, ["chest_1", "chest_2", "chest_3"]),
+        world.log,
+    );
+
+    expectEqual(findings.map((f) => f.status).join(","), "applied,not_applied,lost");
+    expectEqual(findings[2].taken, 32);
+    expectEqual(findings[2].gained, 0);
+    expectEqual(new TransferJournal(JOURNAL, world.log).getOpenIntents().length, 0, "reconciled intents are closed");
+});
+
+journalSuite.test("reports transfers that moved more than planned", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0");
+    world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+
+    const journal = new TransferJournal(JOURNAL, world.log);
+    beginIntent(journal, 1, 1, 32);
+
+    const findings = reconcileJournal(
+        journal,
+        wrapMaterialSource(world, ["storage_0"]),
+        wrapChests(world, ["chest_1"]),
+        world.log,
+    );
+    expectEqual(findings[0].status, "duplicated");
+});
+
+journalSuite.test("keeps intents open while their target chest is missing", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+
+    const journal = new TransferJournal(JOURNAL, world.log);
+    beginIntent(journal, 1, 1, 64);
+
+    const findings = reconcileJournal(journal, wrapMaterialSource(world, ["storage_0"]), new Map(), world.log);
+    expectEqual(findings[0].status, "unknown");
+    expectEqual(journal.getOpenIntents().length, 1, "checked again at the next boot");
+});
+
+journalSuite.test("rotates like the logger and skips truncated lines", () => {
+    const world = createWorld();
+    const journal = new TransferJournal(JOURNAL, world.log, 10);
+
+    for (let i = 1; i <= 12; i++) {
+        journal.commit(i, 64);
+    }
+    // 10th line triggers rotation down to 5, then 2 more
+    expectEqual(lineCount(world), 7);
+    expectEqual(journal.getRecent(100).length, 7);
+
+    // Shutdown in the middle of a write
+    world.computer.files.set(JOURNAL, world.computer.files.get(JOURNAL) + "{kind=\"intent\",id=");
+    const reloaded = new TransferJournal(JOURNAL, world.log, 10);
+    expectEqual(reloaded.getRecent(100).length, 7);
+    expectEqual(reloaded.getOpenIntents().length, 0);
+});
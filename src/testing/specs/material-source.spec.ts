@@ -0,0 +1,84 @@
+import { MaterialSource } from "@lib/inventory/material-source";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createWorld, expectEqual, expectTrue, wrapInventory, wrapMaterialSource } from "../harness";
+
+export const materialSourceSuite = new TestSuite("inventory/material-source");
+
+materialSourceSuite.test("merges inventories and tags slots with their source", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:sand", 20));
+    world.network.addInventory("storage_1", new FakeInventory()
+        .setSlot(1, "minecraft:sand", 30)
+        .setSlot(2, "minecraft:dirt", 64));
+
+    const res = wrapMaterialSource(world, ["storage_0", "storage_1"]).scan();
+
+    expectTrue(res.ok, "scan should succeed");
+    if (!res.ok) return;
+    const sand = res.value.get("minecraft:sand");
+    expectEqual(sand?.totalCount, 50);
+    expectEqual(sand?.slots.length, 2);
+    expectEqual(sand?.slots[0].source, "storage_0");
+    expectEqual(sand?.slots[1].source, "storage_1");
+    expectEqual(res.value.get("minecraft:dirt")?.slots[0].source, "storage_1");
+});
+
+materialSourceSuite.test("lists higher priority sources first", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:sand", 20));
+    world.network.addInventory("overflow_0", new FakeInventory().setSlot(5, "minecraft:sand", 3));
+
+    const source = new MaterialSource(
+        [
+            { peripheral: wrapInventory(world, "storage_0"), priority: 0 },
+            { peripheral: wrapInventory(world, "overflow_0"), priority: 5 },
+        ],
+        world.log,
+    );
+    const res = source.scan();
+
+    expectEqual(source.getNames().join(","), "overflow_0,storage_0");
+    expectEqual(source.get()?.getName(), "overflow_0");
+    expectTrue(res.ok, "scan should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.get("minecraft:sand")?.slots[0].source, "overflow_0");
+});
+
+materialSourceSuite.test("skips failing members and fails only if all fail", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:sand", 20));
+    const overflow = world.network.addInventory("overflow_0", new FakeInventory().setSlot(1, "minecraft:sand", 3));
+    const source = wrapMaterialSource(world, ["storage_0", "overflow_0"]);
+
+    overflow.failing = true;
+    const partial = source.scan();
+    expectTrue(partial.ok, "partial scan should succeed");
+    if (!partial.ok) return;
+    expectEqual(partial.value.get("minecraft:sand")?.totalCount, 20);
+
+    storage.failing = true;
+    const failed = source.scan();
+    expectTrue(!failed.ok, "scan should fail");
+    if (failed.ok) return;
+    expectEqual(failed.code, "ERR_SCAN_FAILED");
+});
+
+materialSourceSuite.test("ledger keeps equal slot numbers of different sources apart", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:sand", 20));
+    world.network.addInventory("storage_1", new FakeInventory().setSlot(1, "minecraft:sand", 30));
+    const scan = wrapMaterialSource(world, ["storage_0", "storage_1"]).scan();
+    expectTrue(scan.ok, "scan should succeed");
+    if (!scan.ok) return;
+    const ledger = new InventoryLedger(scan.value);
+
+    const res = ledger.reserve("test", "minecraft:sand", 1, 64, "storage_1");
+
+    expectTrue(res.ok, "reservation should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.amount, 30);
+    ledger.commit(res.value, 30);
+    expectEqual(ledger.getTotal("minecraft:sand"), 20);
+    expectEqual(ledger.snapshot().get("minecraft:sand")?.slots[0].source, "storage_0");
+});
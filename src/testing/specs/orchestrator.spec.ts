@@ -0,0 +1,307 @@
+import { Orchestrator } from "@lib/orchestrator/orchestrator";
+import { MachineConfig, OrchestratorOptions } from "@lib/orchestrator/types";
+import { WeightedScheduler } from "@lib/scheduler/weighted";
+import { StockBasedScheduler } from "@lib/scheduler/stock-based";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { MaterialSource } from "@lib/inventory/material-source";
+import { SafePeripheral } from "@core/safe-peripheral";
+import { FakeInventory } from "../fakes/inventory";
+import {
+    TestSuite,
+    TestWorld,
+    createWorld,
+    expectEqual,
+    expectTrue,
+    wrapInventory,
+    wrapMaterialSource,
+} from "../harness";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+export const orchestratorSuite = new TestSuite("orchestrator/orchestrator");
+
+const MACHINES: MachineConfig[] = [
+    { id: "geologist_1", type: "geologist", inputChest: "chest_1" },
+    { id: "geologist_2", type: "geologist", inputChest: "chest_2" },
+];
+
+function createOrchestrator(world: TestWorld, options: OrchestratorOptions = {}): Orchestrator {
+    const scheduler = new WeightedScheduler(
+        {
+            materials: {
+                gravel: { id: "gravel", itemId: "minecraft:gravel", minStock: 0, weight: 1 },
+                sand: { id: "sand", itemId: "minecraft:sand", minStock: 0, weight: 1 },
+            },
+            machineTypes: {
+                geologist: { id: "geologist", supportedMaterials: ["gravel", "sand"] },
+            },
+            transferAmount: 64,
+        },
+        world.log,
+    );
+    return new Orchestrator(scheduler, world.log, "test", options);
+}
+
+function wrapChests(world: TestWorld, names: string[]): Map<string, SafePeripheral<InventoryPeripheral>> {
+    const chests = new Map<string, SafePeripheral<InventoryPeripheral>>();
+    for (const name of names) {
+        chests.set(name, wrapInventory(world, name));
+    }
+    return chests;
+}
+
+orchestratorSuite.test("fills empty machine chests and debits the ledger", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:gravel", 64)
+        .setSlot(2, "minecraft:gravel", 64));
+    const chest1 = world.network.addInventory("chest_1");
+    const chest2 = world.network.addInventory("chest_2");
+
+    const source = wrapMaterialSource(world, ["storage_0"]);
+    const scan = source.scan();
+    expectTrue(scan.ok, "scan should succeed");
+    if (!scan.ok) return;
+    const ledger = new InventoryLedger(scan.value);
+
+    const res = createOrchestrator(world).run(MACHINES, wrapChests(world, ["chest_1", "chest_2"]), source, ledger);
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transfers.length, 2);
+    expectEqual(chest1.countOf("minecraft:gravel"), 64);
+    expectEqual(chest2.countOf("minecraft:gravel"), 64);
+    expectEqual(ledger.getTotal("minecraft:gravel"), 0);
+});
+
+orchestratorSuite.test("leaves filled machines alone", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+    world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:gravel", 10));
+    world.network.addInventory("chest_2", new FakeInventory().setSlot(1, "minecraft:gravel", 10));
+
+    const res = createOrchestrator(world).run(
+        MACHINES,
+        wrapChests(world, ["chest_1", "chest_2"]),
+        wrapMaterialSource(world, ["storage_0"]),
+    );
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transfers.length, 0);
+    expectEqual(res.value.machineStates[0].currentCount, 10);
+});
+
+orchestratorSuite.test("tracks stock bands in cycles without refills", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 950));
+    world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:cobblestone", 10));
+
+    const scheduler = new StockBasedScheduler(
+        {
+            recipes: { hammer: [{ input: "minecraft:cobblestone", output: "minecraft:gravel" }] },
+            stockTargets: [{ itemId: "minecraft:gravel", targetCount: 1000, weight: 1, lowWater: 900, highWater: 1100 }],
+            transferAmount: 64,
+        },
+        world.log,
+    );
+    const orchestrator = new Orchestrator(scheduler, world.log, "test");
+    const source = wrapMaterialSource(world, ["storage_0"]);
+    const chests = wrapChests(world, ["chest_1"]);
+    const hammers: MachineConfig[] = [{ id: "hammer_1", type: "hammer", inputChest: "chest_1" }];
+    const runCycle = (): void => {
+        const scan = source.scan();
+        if (!scan.ok) return;
+        const res = orchestrator.run(hammers, chests, source, new InventoryLedger(scan.value));
+        expectEqual(res.ok && res.value.transfers.length, 0, "hammer is busy");
+    };
+
+    runCycle();
+    expectEqual(scheduler.getBands().get("minecraft:gravel"), "satisfied");
+
+    storage.setSlot(1, "minecraft:gravel", 800);
+    runCycle();
+    expectEqual(scheduler.getBands().get("minecraft:gravel"), "producing", "drop below lowWater while busy");
+});
+
+orchestratorSuite.test("marks machines with missing chests offline", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+    const chest1 = world.network.addInventory("chest_1");
+
+    const res = createOrchestrator(world).run(
+        MACHINES,
+        wrapChests(world, ["chest_1"]),
+        wrapMaterialSource(world, ["storage_0"]),
+    );
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectTrue(res.value.machineStates[1].isOffline, "geologist_2 should be offline");
+    expectEqual(chest1.countOf("minecraft:gravel"), 64);
+    expectEqual(res.value.decisions[0].assignedItem, "minecraft:gravel");
+    expectEqual(res.value.decisions[1].reason, "offline");
+});
+
+orchestratorSuite.test("routes transfers to the material source holding the slot", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 10));
+    const overflow = world.network.addInventory("overflow_0", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+    const chest1 = world.network.addInventory("chest_1");
+
+    const source = new MaterialSource(
+        [
+            { peripheral: wrapInventory(world, "storage_0"), priority: 0 },
+            { peripheral: wrapInventory(world, "overflow_0"), priority: 10 },
+        ],
+        world.log,
+    );
+    const res = createOrchestrator(world).run([MACHINES[0]], wrapChests(world, ["chest_1"]), source);
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transfers[0]?.sourceSlots[0].source, "overflow_0");
+    expectEqual(chest1.countOf("minecraft:gravel"), 64);
+    expectEqual(overflow.countOf("minecraft:gravel"), 0);
+    expectEqual(storage.countOf("minecraft:gravel"), 10);
+});
+
+orchestratorSuite.test("tops up partially filled chests with the same material", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:gravel", 64)
+        .setSlot(2, "minecraft:sand", 64));
+    const chest1 = world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:sand", 10));
+    const chest2 = world.network.addInventory("chest_2", new FakeInventory().setSlot(1, "minecraft:gravel", 40));
+
+    const res = createOrchestrator(world, {
+        refillPolicies: { geologist: { refillBelow: 32, minBuffered: 48 } },
+    }).run(MACHINES, wrapChests(world, ["chest_1", "chest_2"]), wrapMaterialSource(world, ["storage_0"]));
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transfers.length, 1);
+    expectEqual(chest1.countOf("minecraft:sand"), 48);
+    expectEqual(chest1.countOf("minecraft:gravel"), 0);
+    expectEqual(chest2.countOf("minecraft:gravel"), 40);
+});
+
+orchestratorSuite.test("never fills above maxBuffered", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+    const chest1 = world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:gravel", 8));
+
+    const res = createOrchestrator(world, {
+        refillPolicies: { geologist: { refillBelow: 16, maxBuffered: 50 } },
+    }).run([MACHINES[0]], wrapChests(world, ["chest_1"]), wrapMaterialSource(world, ["storage_0"]));
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectTrue(res.value.machineStates[0].needsRefill, "chest below threshold should need a refill");
+    expectEqual(chest1.countOf("minecraft:gravel"), 50);
+});
+
+orchestratorSuite.test("flags machines without consumption as stalled and skips them", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:gravel", 64)
+        .setSlot(2, "minecraft:gravel", 64)
+        .setSlot(3, "minecraft:gravel", 64));
+    const chest1 = world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:gravel", 8));
+    const chests = wrapChests(world, ["chest_1"]);
+    const source = wrapMaterialSource(world, ["storage_0"]);
+    const orchestrator = createOrchestrator(world, {
+        refillPolicies: { geologist: { refillBelow: 200 } },
+        stallDetection: { timeoutSeconds: 60, skipStalled: true },
+    });
+
+    orchestrator.run([MACHINES[0]], chests, source);
+    expectEqual(chest1.countOf("minecraft:gravel"), 72);
+
+    // Consumption resets the stall timer, our own top-ups don't
+    world.computer.advance(30);
+    chest1.extract(1, 4);
+    const consuming = orchestrator.run([MACHINES[0]], chests, source);
+    expectTrue(consuming.ok && !consuming.value.machineStates[0].isStalled, "consuming machine is not stalled");
+    expectEqual(chest1.countOf("minecraft:gravel"), 132);
+
+    world.computer.advance(61);
+    const stalled = orchestrator.run([MACHINES[0]], chests, source);
+    expectTrue(stalled.ok, "run should succeed");
+    if (!stalled.ok) return;
+    expectTrue(stalled.value.machineStates[0].isStalled, "machine should be stalled");
+    expectEqual(stalled.value.transfers.length, 0);
+    expectEqual(chest1.countOf("minecraft:gravel"), 132);
+});
+
+orchestratorSuite.test("top-ups count toward the stall baseline", () => {
+    const world = createWorld();
+    const storage = new FakeInventory();
+    for (let slot = 1; slot <= 5; slot++) storage.setSlot(slot, "minecraft:gravel", 64);
+    world.network.addInventory("storage_0", storage);
+    const chest1 = world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:gravel", 8));
+    const chests = wrapChests(world, ["chest_1"]);
+    const source = wrapMaterialSource(world, ["storage_0"]);
+    const orchestrator = createOrchestrator(world, {
+        refillPolicies: { geologist: { refillBelow: 32, minBuffered: 64 } },
+        stallDetection: { timeoutSeconds: 60, skipStalled: true },
+    });
+
+    orchestrator.run([MACHINES[0]], chests, source);
+
+    // Each cycle the machine uses most of the top-up: the count never drops below the last scan
+    for (let cycle = 1; cycle <= 4; cycle++) {
+        world.computer.advance(30);
+        chest1.extract(1, 50);
+        const res = orchestrator.run([MACHINES[0]], chests, source);
+        expectTrue(res.ok && !res.value.machineStates[0].isStalled, `cycle ${cycle}: consuming machine is not stalled`);
+        expectEqual(res.ok && res.value.transfers.length, 1, `cycle ${cycle}: topped up`);
+    }
+});
+
+orchestratorSuite.test("plans and debits but moves nothing in dry run", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:gravel", 64));
+    const chest1 = world.network.addInventory("chest_1");
+    const source = wrapMaterialSource(world, ["storage_0"]);
+    const scan = source.scan();
+    expectTrue(scan.ok, "scan should succeed");
+    if (!scan.ok) return;
+    const ledger = new InventoryLedger(scan.value);
+
+    const res = createOrchestrator(world, { dryRun: true })
+        .run([MACHINES[0]], wrapChests(world, ["chest_1"]), source, ledger);
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transfers.length, 0);
+    expectEqual(res.value.planned.length, 1);
+    expectEqual(res.value.planned[0].amount, 64);
+    expectEqual(ledger.getTotal("minecraft:gravel"), 0);
+    expectEqual(storage.countOf("minecraft:gravel"), 64);
+    expectEqual(chest1.countOf("minecraft:gravel"), 0);
+});
+
+orchestratorSuite.test("assembles the transfer amount across partial stacks", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:sand", 20)
+        .setSlot(2, "minecraft:sand", 30)
+        .setSlot(3, "minecraft:sand", 14)
+        .setSlot(4, "minecraft:sand", 64));
+    const chest1 = world.network.addInventory("chest_1");
+    const source = wrapMaterialSource(world, ["storage_0"]);
+    const scan = source.scan();
+    expectTrue(scan.ok, "scan should succeed");
+    if (!scan.ok) return;
+    const ledger = new InventoryLedger(scan.value);
+
+    const res = createOrchestrator(world).run([MACHINES[0]], wrapChests(world, ["chest_1"]), source, ledger);
+
+    expectTrue(res.ok, "run should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transfers[0]?.itemsTransferred, 64);
+    expectEqual(chest1.countOf("minecraft:sand"), 64);
+    expectEqual(ledger.getTotal("minecraft:sand"), 64);
+    expectEqual(storage.countOf("minecraft:sand"), 64);
+});
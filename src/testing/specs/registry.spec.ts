@@ -0,0 +1,59 @@
+import { validatePeripherals } from "@lib/peripheral/registry";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createWorld, expectEqual, expectTrue } from "../harness";
+
+export const registrySuite = new TestSuite("peripheral/registry");
+
+const REQUEST = {
+    modemSide: "back" as const,
+    materialSources: [{ name: "storage_0", type: "inventory" }],
+    monitorName: "monitor_0",
+    chestNames: ["chest_1", "chest_2"],
+};
+
+registrySuite.test("validates modem, material source, monitor and present chests", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory(54), "functionalstorage:storage_controller");
+    world.network.addMonitor("monitor_0");
+    world.network.addInventory("chest_1");
+
+    const res = validatePeripherals(REQUEST, world.log);
+
+    expectTrue(res.ok, "validation should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.materialSource.getNames().join(","), "storage_0");
+    expectTrue(res.value.monitor !== undefined, "monitor should be wrapped");
+    expectTrue(res.value.machineChests.has("chest_1"), "chest_1 should be validated");
+    expectTrue(!res.value.machineChests.has("chest_2"), "missing chest_2 should be skipped");
+});
+
+registrySuite.test("fails without material source", () => {
+    const world = createWorld();
+    world.network.addInventory("chest_1");
+
+    const res = validatePeripherals(REQUEST, world.log);
+
+    expectTrue(!res.ok, "validation should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_PERIPHERAL_OFFLINE");
+});
+
+registrySuite.test("rejects a wireless modem", () => {
+    const world = createWorld({ wireless: true });
+
+    const res = validatePeripherals(REQUEST, world.log);
+
+    expectTrue(!res.ok, "validation should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_MODEM_WIRELESS");
+});
+
+registrySuite.test("rejects a missing modem", () => {
+    const world = createWorld();
+
+    const res = validatePeripherals({ ...REQUEST, modemSide: "left" }, world.log);
+
+    expectTrue(!res.ok, "validation should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_MODEM_MISSING");
+});
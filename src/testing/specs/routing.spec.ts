@@ -0,0 +1,85 @@
+import { findRoutingRule, matchesRoutingRule } from "@lib/routing/rules";
+import { RoutingRule } from "@lib/routing/types";
+import { SortingTask } from "@apps/sorting/task";
+import { SortingConfig } from "@apps/sorting/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { FakeInventory } from "../fakes/inventory";
+import {
+    TestSuite,
+    createTaskContext,
+    createWorld,
+    expectEqual,
+    expectTrue,
+} from "../harness";
+
+export const routingSuite = new TestSuite("routing/rules");
+
+const RULES: RoutingRule[] = [
+    { id: "books", itemId: "minecraft:enchanted_book", hasNbt: true, destination: "barrel_books" },
+    { id: "occultism", namespace: "occultism", destination: "barrel_occultism" },
+    { id: "ores", tag: "c:ores", destination: "barrel_ores" },
+];
+
+routingSuite.test("matches item ID, namespace, tags and NBT presence", () => {
+    const book = { name: "minecraft:enchanted_book", nbt: "abc123" };
+    expectTrue(matchesRoutingRule(book, RULES[0]), "book with NBT");
+    expectTrue(!matchesRoutingRule({ name: "minecraft:enchanted_book" }, RULES[0]), "book without NBT");
+    expectTrue(matchesRoutingRule({ name: "occultism:otherstone" }, RULES[1]), "namespace");
+    expectTrue(!matchesRoutingRule({ name: "occultismx:otherstone" }, RULES[1]), "namespace prefix only");
+    expectTrue(matchesRoutingRule({ name: "minecraft:iron_ore", tags: ["c:ores", "c:ores/iron"] }, RULES[2]), "tag");
+    expectTrue(!matchesRoutingRule({ name: "minecraft:stone" }, { id: "empty", destination: "x" }), "no criteria");
+});
+
+routingSuite.test("first matching rule wins", () => {
+    const rules: RoutingRule[] = [
+        { id: "specific", itemId: "occultism:datura_seeds", destination: "barrel_seeds" },
+        ...RULES,
+    ];
+    expectEqual(findRoutingRule({ name: "occultism:datura_seeds" }, rules)?.id, "specific");
+    expectEqual(findRoutingRule({ name: "occultism:otherstone" }, rules)?.id, "occultism");
+    expectEqual(findRoutingRule({ name: "minecraft:bone" }, rules), undefined);
+});
+
+routingSuite.test("sorting task routes inbox items and spills full destinations to overflow", () => {
+    const world = createWorld();
+    const storage = world.network.addInventory("storage_0");
+    world.network.addInventory("inbox_1", new FakeInventory()
+        .setSlot(1, "occultism:otherstone", 64)
+        .setSlot(2, "minecraft:iron_ore", 10, { tags: ["c:ores"] })
+        .setSlot(3, "minecraft:bone", 5)
+        .setSlot(4, "minecraft:enchanted_book", 1, { nbt: "abc123" }));
+    const occultism = world.network.addInventory("barrel_occultism", new FakeInventory(1).setSlot(1, "occultism:otherstone", 60));
+    const ores = world.network.addInventory("barrel_ores");
+    const books = world.network.addInventory("barrel_books");
+
+    const config: SortingConfig = {
+        enabled: true,
+        inboxes: ["inbox_1"],
+        rules: RULES,
+        defaultDestination: "storage_0",
+        overflowDestination: "storage_0",
+    };
+    const task = new SortingTask();
+    const initRes = task.init(
+        createTaskContext(world, ["storage_0"], ["inbox_1", "barrel_occultism", "barrel_ores", "barrel_books"]),
+        config,
+    );
+    expectTrue(initRes.ok, "init should succeed");
+    if (!initRes.ok) return;
+
+    const res = task.execute(initRes.value, new InventoryLedger(new Map()));
+    expectTrue(res.ok, "execute should succeed");
+    if (!res.ok) return;
+
+    const state = res.value.state;
+    expectEqual(occultism.countOf("occultism:otherstone"), 64);
+    expectEqual(ores.countOf("minecraft:iron_ore"), 10);
+    expectEqual(books.countOf("minecraft:enchanted_book"), 1);
+    expectEqual(storage.countOf("occultism:otherstone"), 60, "overflow");
+    expectEqual(storage.countOf("minecraft:bone"), 5, "default destination");
+    expectEqual(state.routedByRule.occultism, 4);
+    expectEqual(state.routedOverflow, 60);
+    expectEqual(state.routedDefault, 5);
+    expectEqual(state.unrouted, 0);
+    expectEqual(state.totalRouted, 80);
+});
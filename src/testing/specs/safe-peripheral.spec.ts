@@ -0,0 +1,91 @@
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createWorld, expectEqual, expectTrue, wrapInventory } from "../harness";
+
+// Type InventoryPeripheral from @jackmacwindows/craftos-types is globally declared
+
+export const safePeripheralSuite = new TestSuite("core/safe-peripheral");
+
+const list = (p: InventoryPeripheral): unknown => p.list();
+
+safePeripheralSuite.test("degrades on failures and opens at the threshold", () => {
+    const world = createWorld();
+    const inventory = world.network.addInventory("chest_1");
+    const chest = wrapInventory(world, "chest_1");
+
+    inventory.failing = true;
+    expectEqual(chest.tryCall(list).code, "ERR_PERIPHERAL_DISCONNECTED");
+    expectEqual(chest.getHealth().state, "degraded");
+    expectTrue(chest.isAvailable(), "degraded peripherals are still called");
+
+    chest.tryCall(list);
+    chest.tryCall(list);
+    const health = chest.getHealth();
+    expectEqual(health.state, "open");
+    expectEqual(health.consecutiveFailures, 3);
+    expectEqual(health.nextProbeAt, world.computer.now + 5000);
+    expectTrue(!chest.isAvailable(), "open peripherals are unavailable");
+
+    // Calls are skipped while open, even once the peripheral works again
+    inventory.failing = false;
+    expectEqual(chest.tryCall(list).code, "ERR_PERIPHERAL_OFFLINE");
+    expectEqual(chest.getHealth().totalFailures, 3);
+});
+
+safePeripheralSuite.test("probes after the backoff and closes on a successful trial call", () => {
+    const world = createWorld();
+    const inventory = world.network.addInventory("chest_1", new FakeInventory().setSlot(1, "minecraft:sand", 5));
+    const chest = wrapInventory(world, "chest_1");
+
+    inventory.failing = true;
+    for (let i = 0; i < 3; i++) chest.tryCall(list);
+    expectEqual(chest.getHealth().state, "open");
+
+    world.computer.advance(4);
+    expectTrue(!chest.ensureConnected(), "no probe before the backoff");
+
+    // Failed probe (peripheral gone): backoff doubles
+    world.network.remove("chest_1");
+    world.computer.advance(1);
+    expectTrue(!chest.ensureConnected(), "probe fails while detached");
+    expectEqual(chest.getHealth().nextProbeAt, world.computer.now + 10000);
+
+    world.network.addInventory("chest_1", inventory);
+    inventory.failing = false;
+    world.computer.advance(10);
+    expectTrue(chest.ensureConnected(), "probe succeeds");
+    expectEqual(chest.getHealth().state, "half-open");
+
+    expectTrue(chest.tryCall(list).ok, "trial call goes through");
+    expectEqual(chest.getHealth().state, "healthy");
+    expectEqual(chest.getHealth().consecutiveFailures, 0);
+});
+
+safePeripheralSuite.test("a failed trial call re-opens the circuit", () => {
+    const world = createWorld();
+    const inventory = world.network.addInventory("chest_1");
+    const chest = wrapInventory(world, "chest_1");
+
+    inventory.failing = true;
+    for (let i = 0; i < 3; i++) chest.tryCall(list);
+    world.computer.advance(5);
+    expectTrue(chest.ensureConnected(), "probe succeeds, the chest is attached");
+    expectEqual(chest.getHealth().state, "half-open");
+
+    expectEqual(chest.tryCall(list).code, "ERR_PERIPHERAL_DISCONNECTED");
+    expectEqual(chest.getHealth().state, "open");
+    expectEqual(chest.getHealth().nextProbeAt, world.computer.now + 10000, "second opening doubles the backoff");
+});
+
+safePeripheralSuite.test("detach opens and re-attach closes the circuit", () => {
+    const world = createWorld();
+    world.network.addInventory("chest_1");
+    const chest = wrapInventory(world, "chest_1");
+
+    chest.setPresence(false);
+    expectEqual(chest.getHealth().state, "open");
+    expectEqual(chest.getHealth().lastError, "detached");
+
+    chest.setPresence(true);
+    expectEqual(chest.getHealth().state, "healthy");
+    expectTrue(chest.isAvailable(), "available after re-attach");
+});
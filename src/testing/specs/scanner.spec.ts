@@ -0,0 +1,43 @@
+import { getInventoryContents, isInventoryEmpty } from "@lib/inventory/scanner";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createWorld, expectEqual, expectTrue, wrapInventory } from "../harness";
+
+export const scannerSuite = new TestSuite("inventory/scanner");
+
+scannerSuite.test("groups slots per item with totals", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:sand", 20)
+        .setSlot(4, "minecraft:sand", 30)
+        .setSlot(7, "minecraft:dirt", 64));
+
+    const res = getInventoryContents(wrapInventory(world, "storage_0"));
+
+    expectTrue(res.ok, "scan should succeed");
+    if (!res.ok) return;
+    const sand = res.value.get("minecraft:sand");
+    expectEqual(sand?.totalCount, 50);
+    expectEqual(sand?.slots.length, 2);
+    expectEqual(res.value.get("minecraft:dirt")?.slots[0].slot, 7);
+});
+
+scannerSuite.test("reports empty inventories", () => {
+    const world = createWorld();
+    world.network.addInventory("chest_1");
+
+    const res = isInventoryEmpty(wrapInventory(world, "chest_1"));
+
+    expectTrue(res.ok && res.value, "chest should be empty");
+});
+
+scannerSuite.test("returns ERR_SCAN_FAILED for a failing peripheral", () => {
+    const world = createWorld();
+    const inv = world.network.addInventory("storage_0");
+    inv.failing = true;
+
+    const res = getInventoryContents(wrapInventory(world, "storage_0"));
+
+    expectTrue(!res.ok, "scan should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_SCAN_FAILED");
+});
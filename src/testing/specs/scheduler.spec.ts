@@ -0,0 +1,252 @@
+import { computeChainDemand } from "@lib/scheduler/chain";
+import { getExpectedOutputs } from "@lib/scheduler/recipes";
+import { RecipeDefinition, StockBasedScheduler, StockTarget } from "@lib/scheduler/stock-based";
+import { InventoryItemInfo } from "@lib/inventory/types";
+import { MachineState } from "@lib/orchestrator/types";
+import { formatDecision, summarizeDecision } from "@lib/orchestrator/decisions";
+import { TestSuite, createWorld, expectEqual } from "../harness";
+
+export const schedulerSuite = new TestSuite("scheduler/stock-based");
+
+const CHAIN: RecipeDefinition[] = [
+    { input: "minecraft:cobblestone", output: "minecraft:gravel" },
+    { input: "minecraft:gravel", output: "minecraft:dirt" },
+    { input: "minecraft:dirt", output: "minecraft:sand" },
+    { input: "minecraft:sand", output: "ftbstuff:dust" },
+];
+
+const TARGETS: StockTarget[] = [
+    { itemId: "minecraft:gravel", targetCount: 1000, weight: 1 },
+    { itemId: "minecraft:dirt", targetCount: 1000, weight: 1 },
+    { itemId: "minecraft:sand", targetCount: 1000, weight: 1 },
+    { itemId: "ftbstuff:dust", targetCount: 1000, weight: 1 },
+];
+
+function stock(counts: Record<string, number>): Map<string, InventoryItemInfo> {
+    const inventory = new Map<string, InventoryItemInfo>();
+    let slot = 1;
+    for (const [itemId, count] of Object.entries(counts)) {
+        inventory.set(itemId, { totalCount: count, slots: [{ slot: slot++, count }] });
+    }
+    return inventory;
+}
+
+function emptyHammers(count: number): MachineState[] {
+    const machines: MachineState[] = [];
+    for (let i = 1; i <= count; i++) {
+        machines.push({ id: `hammer_${i}`, type: "hammer", inputChest: `chest_${i}`, isEmpty: true, needsRefill: true });
+    }
+    return machines;
+}
+
+schedulerSuite.test("chain demand propagates downstream shortages upstream", () => {
+    const demand = computeChainDemand(CHAIN, TARGETS, stock({ "minecraft:gravel": 200, "ftbstuff:dust": 400 }));
+
+    expectEqual(demand.get("ftbstuff:dust")?.net, 600);
+    expectEqual(demand.get("minecraft:sand")?.net, 1600);
+    expectEqual(demand.get("minecraft:dirt")?.net, 2600);
+    expectEqual(demand.get("minecraft:gravel")?.downstream, 2600);
+    expectEqual(demand.get("minecraft:gravel")?.net, 3400);
+    expectEqual(demand.get("minecraft:cobblestone")?.net, 3400, "no target, only downstream demand");
+});
+
+schedulerSuite.test("chain demand adds up branches and splits shared outputs", () => {
+    const recipes: RecipeDefinition[] = [
+        { input: "minecraft:gravel", output: "minecraft:flint" },
+        { input: "minecraft:gravel", output: "minecraft:sand" },
+        { input: "minecraft:red_sand", output: "minecraft:sand" },
+    ];
+    const targets: StockTarget[] = [
+        { itemId: "minecraft:flint", targetCount: 100, weight: 1 },
+        { itemId: "minecraft:sand", targetCount: 400, weight: 1 },
+    ];
+    const demand = computeChainDemand(recipes, targets, stock({}));
+
+    expectEqual(demand.get("minecraft:gravel")?.net, 300, "flint + half of sand");
+    expectEqual(demand.get("minecraft:red_sand")?.net, 200, "other half of sand");
+});
+
+schedulerSuite.test("direct planning drains the upstream buffer, chain planning refills it", () => {
+    const world = createWorld();
+    const inventory = stock({ "minecraft:cobblestone": 1000, "minecraft:gravel": 200 });
+    const config = { recipes: { hammer: CHAIN }, stockTargets: TARGETS, transferAmount: 64 };
+
+    const direct = new StockBasedScheduler(config, world.log).schedule(emptyHammers(2), inventory);
+    expectEqual(direct.map((a) => a.itemId).join(","), "minecraft:gravel,minecraft:gravel");
+
+    const chainScheduler = new StockBasedScheduler({ ...config, planning: "chain" }, world.log);
+    const chain = chainScheduler.schedule(emptyHammers(2), inventory);
+    expectEqual(chain.map((a) => a.itemId).join(","), "minecraft:cobblestone,minecraft:cobblestone");
+    expectEqual(chainScheduler.getDemand().get("minecraft:gravel")?.net, 3800);
+});
+
+schedulerSuite.test("chain planning spreads machines by open demand", () => {
+    const world = createWorld();
+    // Intermediates just below target (producing), dust short: every step of the chain has about the same demand
+    const inventory = stock({
+        "minecraft:cobblestone": 1000,
+        "minecraft:gravel": 999,
+        "minecraft:dirt": 999,
+        "minecraft:sand": 999,
+        "ftbstuff:dust": 800,
+    });
+    const scheduler = new StockBasedScheduler(
+        { recipes: { hammer: CHAIN }, stockTargets: TARGETS, transferAmount: 64, planning: "chain" },
+        world.log,
+    );
+
+    const inputs = scheduler.schedule(emptyHammers(4), inventory).map((a) => a.itemId);
+    inputs.sort();
+    expectEqual(inputs.join(","), "minecraft:cobblestone,minecraft:dirt,minecraft:gravel,minecraft:sand");
+});
+
+const SIEVE: RecipeDefinition = {
+    input: "minecraft:gravel",
+    inputCount: 2,
+    outputs: [
+        { itemId: "minecraft:flint", chance: 0.25 },
+        { itemId: "minecraft:iron_nugget", count: 2, chance: 0.5 },
+    ],
+    processingSeconds: 4,
+};
+
+schedulerSuite.test("expected outputs apply input count, counts and chances", () => {
+    const expected = getExpectedOutputs(SIEVE, 65);
+    expectEqual(expected.get("minecraft:flint"), 8, "32 operations, leftover input ignored");
+    expectEqual(expected.get("minecraft:iron_nugget"), 32);
+});
+
+schedulerSuite.test("chain demand converts output demand with the expected yield", () => {
+    const demand = computeChainDemand(
+        [SIEVE],
+        [
+            { itemId: "minecraft:flint", targetCount: 10, weight: 1 },
+            { itemId: "minecraft:iron_nugget", targetCount: 10, weight: 1 },
+        ],
+        stock({}),
+    );
+    // flint: 0.125 per gravel -> 80 gravel; nuggets: 0.5 per gravel -> 20 gravel
+    expectEqual(demand.get("minecraft:gravel")?.net, 80);
+});
+
+schedulerSuite.test("urgency uses expected yield and amounts are whole operations", () => {
+    const world = createWorld();
+    const scheduler = new StockBasedScheduler(
+        {
+            recipes: {
+                hammer: [
+                    SIEVE,
+                    { input: "minecraft:sand", outputs: [{ itemId: "minecraft:flint", chance: 0.1 }] },
+                ],
+            },
+            stockTargets: [{ itemId: "minecraft:flint", targetCount: 100, weight: 1 }],
+            transferAmount: 63,
+        },
+        world.log,
+    );
+
+    const assignments = scheduler.schedule(
+        emptyHammers(1),
+        stock({ "minecraft:gravel": 500, "minecraft:sand": 500 }),
+    );
+    expectEqual(assignments[0]?.itemId, "minecraft:gravel", "0.125 flint per gravel beats 0.1 per sand");
+    expectEqual(assignments[0]?.amount, 62);
+});
+
+schedulerSuite.test("hysteresis: produce below lowWater until highWater, then wait", () => {
+    const world = createWorld();
+    const scheduler = new StockBasedScheduler(
+        {
+            recipes: { hammer: [{ input: "minecraft:cobblestone", output: "minecraft:gravel" }] },
+            stockTargets: [{ itemId: "minecraft:gravel", targetCount: 1000, weight: 1, lowWater: 900, highWater: 1100 }],
+            transferAmount: 64,
+        },
+        world.log,
+    );
+    const run = (gravel: number): number =>
+        scheduler.schedule(emptyHammers(1), stock({ "minecraft:cobblestone": 1000, "minecraft:gravel": gravel })).length;
+
+    expectEqual(run(950), 0, "inside the band at start: satisfied");
+    expectEqual(scheduler.getBands().get("minecraft:gravel"), "satisfied");
+    expectEqual(run(899), 1, "below lowWater starts production");
+    expectEqual(run(1050), 1, "keeps producing above target until highWater");
+    expectEqual(scheduler.getBands().get("minecraft:gravel"), "producing");
+    expectEqual(run(1100), 0, "highWater reached");
+    expectEqual(run(950), 0, "no restart before lowWater");
+});
+
+schedulerSuite.test("decisions name the rejection of every candidate", () => {
+    const world = createWorld();
+    const scheduler = new StockBasedScheduler(
+        {
+            recipes: {
+                hammer: [
+                    { input: "minecraft:cobblestone", output: "minecraft:gravel" },
+                    { input: "minecraft:gravel", output: "minecraft:sand" },
+                    { input: "minecraft:sand", output: "ftbstuff:dust" },
+                ],
+            },
+            stockTargets: [
+                { itemId: "minecraft:gravel", targetCount: 1000, weight: 1, minReserve: 500 },
+                { itemId: "ftbstuff:dust", targetCount: 1000, weight: 2 },
+            ],
+            transferAmount: 64,
+        },
+        world.log,
+    );
+
+    const result = scheduler.scheduleWithDecisions(
+        emptyHammers(2),
+        stock({ "minecraft:gravel": 300, "minecraft:sand": 64 }),
+    );
+    const [first, second] = result.decisions;
+
+    expectEqual(first.assignedItem, "minecraft:sand");
+    expectEqual(first.candidates.find((c) => c.itemId === "minecraft:cobblestone")?.rejected, "not_selected");
+
+    expectEqual(second.assignedItem, undefined, "sand used up by hammer_1");
+    expectEqual(second.reason, "no_viable_candidate");
+    expectEqual(second.candidates.find((c) => c.itemId === "minecraft:gravel")?.rejected, "no_stock_target");
+    expectEqual(summarizeDecision(second), "minecraft:sand -> ftbstuff:dust: not in stock");
+    expectEqual(formatDecision(second)[0], "hammer_2: minecraft:sand -> ftbstuff:dust: not in stock");
+});
+
+schedulerSuite.test("decisions report the input reserve that blocks a recipe", () => {
+    const world = createWorld();
+    const scheduler = new StockBasedScheduler(
+        {
+            recipes: { hammer: [{ input: "minecraft:gravel", output: "minecraft:sand" }] },
+            stockTargets: [
+                { itemId: "minecraft:gravel", targetCount: 1000, weight: 1, minReserve: 500 },
+                { itemId: "minecraft:sand", targetCount: 1000, weight: 1 },
+            ],
+            transferAmount: 64,
+        },
+        world.log,
+    );
+
+    const [decision] = scheduler.scheduleWithDecisions(emptyHammers(1), stock({ "minecraft:gravel": 300 })).decisions;
+    expectEqual(decision.candidates[0]?.rejected, "below_min_reserve");
+    expectEqual(summarizeDecision(decision), "minecraft:gravel -> minecraft:sand: input below minReserve (have 300, need 564)");
+});
+
+schedulerSuite.test("machine overrides restrict recipes and scale urgency", () => {
+    const world = createWorld();
+    const scheduler = new StockBasedScheduler(
+        {
+            recipes: { hammer: CHAIN },
+            stockTargets: TARGETS,
+            transferAmount: 64,
+            machineTypes: { hammer: { weightMultipliers: { "minecraft:gravel": 10 } } },
+        },
+        world.log,
+    );
+    const [hammer1, hammer2] = emptyHammers(2);
+    hammer2.overrides = { allowedItems: ["minecraft:cobblestone"], transferAmount: 32 };
+
+    const assignments = scheduler.schedule(
+        [hammer1, hammer2],
+        stock({ "minecraft:cobblestone": 1000, "minecraft:gravel": 500, "minecraft:sand": 500 }),
+    );
+    expectEqual(assignments.map((a) => `${a.itemId}x${a.amount}`).join(","), "minecraft:gravelx64,minecraft:cobblestonex32");
+});
@@ -0,0 +1,167 @@
+import { Result, ok, err } from "@core/result";
+import { TaskRegistry } from "@lib/task/registry";
+import { Task, TaskContext, TaskDiagnostics, TaskExecutionResult } from "@lib/task/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { InventoryItemInfo } from "@lib/inventory/types";
+import { TestSuite, createWorld, expectEqual, expectTrue } from "../harness";
+
+export const taskRegistrySuite = new TestSuite("task/registry");
+
+/**
+ * Task that records its runs and the stock it saw, optionally reporting operations.
+ */
+class RecordingTask implements Task<unknown, number> {
+    constructor(
+        readonly id: string,
+        private runs: string[],
+        readonly phase?: number,
+        readonly dependsOn?: string[],
+        readonly requiresFreshInventory?: boolean,
+        private debit = 0,
+    ) {}
+
+    readonly name = "Recording";
+
+    init(_context: TaskContext, _config: unknown): Result<number> {
+        return ok(0);
+    }
+
+    execute(state: number, ledger: InventoryLedger): Result<TaskExecutionResult<number>> {
+        this.runs.push(`${this.id}:${ledger.getTotal("minecraft:gravel")}`);
+        if (this.debit > 0) ledger.debit("minecraft:gravel", 1, this.debit);
+        return ok({ state: state + 1, operationsCount: this.debit > 0 ? 1 : 0 });
+    }
+
+    getDiagnostics(): TaskDiagnostics {
+        return { sections: [] };
+    }
+}
+
+function scan(gravel: number): Map<string, InventoryItemInfo> {
+    return new Map([["minecraft:gravel", { totalCount: gravel, slots: [{ slot: 1, count: gravel }] }]]);
+}
+
+taskRegistrySuite.test("orders tasks by phase and dependencies, not registration", () => {
+    const world = createWorld();
+    const registry = new TaskRegistry(world.log);
+    const runs: string[] = [];
+
+    registry.register(new RecordingTask("sorting", runs, 3), null);
+    registry.register(new RecordingTask("distribution", runs, 1, ["production"]), null);
+    registry.register(new RecordingTask("trimming", runs, 1, ["distribution", "disabled"]), null);
+    registry.register(new RecordingTask("production", runs), null);
+
+    expectEqual(registry.getExecutionOrder().join(","), "production,distribution,trimming,sorting");
+});
+
+taskRegistrySuite.test("rejects cycles, later-phase dependencies and duplicates", () => {
+    const world = createWorld();
+    const registry = new TaskRegistry(world.log);
+    const runs: string[] = [];
+
+    expectTrue(registry.register(new RecordingTask("a", runs, 0, ["c"]), null).ok, "a");
+    expectTrue(registry.register(new RecordingTask("b", runs, 0, ["a"]), null).ok, "b");
+    const cycle = registry.register(new RecordingTask("c", runs, 0, ["b"]), null);
+    expectEqual(cycle.code, "ERR_TASK_ORDER", "a -> c -> b -> a");
+
+    expectEqual(registry.register(new RecordingTask("d", runs, 0, ["late"]), null).code, "OK");
+    expectEqual(registry.register(new RecordingTask("late", runs, 1), null).code, "ERR_TASK_ORDER", "d needs a later phase");
+    expectEqual(registry.register(new RecordingTask("a", runs), null).code, "ERR_TASK_DUPLICATE");
+    expectEqual(registry.getExecutionOrder().join(","), "a,b,d");
+});
+
+taskRegistrySuite.test("rescans before a phase that needs fresh inventory once items moved", () => {
+    const world = createWorld();
+    const registry = new TaskRegistry(world.log);
+    const runs: string[] = [];
+    let scans = 0;
+    const rescan = (): Result<Map<string, InventoryItemInfo>> => {
+        scans++;
+        return ok(scan(500));
+    };
+
+    registry.register(new RecordingTask("production", runs, 0, undefined, false, 64), null);
+    registry.register(new RecordingTask("distribution", runs, 1, ["production"], true), null);
+    registry.register(new RecordingTask("trimming", runs, 2), null);
+    registry.init({} as TaskContext);
+
+    registry.runCycle(new InventoryLedger(scan(1000)), rescan);
+    expectEqual(runs.join(","), "production:1000,distribution:500,trimming:500");
+    expectEqual(scans, 1);
+
+    // Failed rescan: the phase keeps the debited ledger
+    runs.length = 0;
+    registry.runCycle(new InventoryLedger(scan(1000)), () => err("ERR_SCAN_FAILED"));
+    expectEqual(runs.join(","), "production:1000,distribution:936,trimming:936");
+});
+
+taskRegistrySuite.test("runs each task on its own interval with bounded jitter", () => {
+    const world = createWorld();
+    const registry = new TaskRegistry(world.log);
+    const runs: string[] = [];
+
+    registry.register(new RecordingTask("production", runs), null, { intervalSeconds: 5 });
+    registry.register(new RecordingTask("sorting", runs, 1), null, { intervalSeconds: 20, jitterSeconds: 10 });
+    registry.register(new RecordingTask("collection", runs, 1), null);
+    registry.init({} as TaskContext);
+
+    const start = world.computer.now;
+    expectTrue(registry.hasDueTasks(), "all tasks are due before the first cycle");
+    registry.runCycle(new InventoryLedger(scan(10)));
+    expectEqual(runs.join(","), "production:10,sorting:10,collection:10");
+
+    const timings = registry.getTaskTimings();
+    expectEqual(timings[0].lastRun, start);
+    expectEqual(timings[0].nextRun, start + 5000);
+    expectTrue(timings[1].nextRun >= start + 20000 && timings[1].nextRun <= start + 30000, "jitter stays within bounds");
+    expectEqual(timings[2].nextRun, 0, "unscheduled task runs every cycle");
+
+    // Only due tasks run
+    runs.length = 0;
+    world.computer.advance(5);
+    registry.runCycle(new InventoryLedger(scan(10)));
+    expectEqual(runs.join(","), "production:10,collection:10");
+
+    runs.length = 0;
+    world.computer.advance(30);
+    registry.runCycle(new InventoryLedger(scan(10)));
+    expectEqual(runs.join(","), "production:10,sorting:10,collection:10");
+});
+
+taskRegistrySuite.test("reports the earliest next due time", () => {
+    const world = createWorld();
+    const registry = new TaskRegistry(world.log);
+    const runs: string[] = [];
+
+    expectEqual(registry.getNextDueTime(), undefined, "no tasks");
+    registry.register(new RecordingTask("production", runs), null, { intervalSeconds: 5 });
+    registry.register(new RecordingTask("sorting", runs, 1), null, { intervalSeconds: 3 });
+    registry.init({} as TaskContext);
+
+    const start = world.computer.now;
+    registry.runCycle(new InventoryLedger(scan(10)));
+    expectTrue(!registry.hasDueTasks(), "nothing due right after the cycle");
+    expectEqual(registry.getNextDueTime(), start + 3000);
+
+    world.computer.advance(3);
+    expectTrue(registry.hasDueTasks(), "sorting is due");
+});
+
+taskRegistrySuite.test("rescans before a fresh-inventory phase of scheduled tasks", () => {
+    const world = createWorld();
+    const registry = new TaskRegistry(world.log);
+    const runs: string[] = [];
+    let scans = 0;
+    const rescan = (): Result<Map<string, InventoryItemInfo>> => {
+        scans++;
+        return ok(scan(500));
+    };
+
+    registry.register(new RecordingTask("production", runs, 0, undefined, false, 64), null, { intervalSeconds: 5 });
+    registry.register(new RecordingTask("distribution", runs, 1, ["production"], true), null, { intervalSeconds: 5 });
+    registry.init({} as TaskContext);
+
+    registry.runCycle(new InventoryLedger(scan(1000)), rescan);
+    expectEqual(runs.join(","), "production:1000,distribution:500");
+    expectEqual(scans, 1);
+});
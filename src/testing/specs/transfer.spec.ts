@@ -0,0 +1,160 @@
+import { executeMultiSlotTransfer, executeTransfer } from "@lib/transfer/transfer";
+import { drainInventory } from "@lib/transfer/drain";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createWorld, expectEqual, expectTrue, wrapInventory } from "../harness";
+
+export const transferSuite = new TestSuite("transfer/transfer");
+
+transferSuite.test("moves items from the source slot to the target", () => {
+    const world = createWorld();
+    const source = world.network.addInventory("storage_0", new FakeInventory().setSlot(3, "minecraft:gravel", 64));
+    const target = world.network.addInventory("chest_1");
+
+    const res = executeTransfer({
+        source: wrapInventory(world, "storage_0"),
+        targetName: "chest_1",
+        sourceSlot: 3,
+        expectedItemId: "minecraft:gravel",
+        amount: 64,
+    });
+
+    expectTrue(res.ok, "transfer should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transferred, 64);
+    expectEqual(target.countOf("minecraft:gravel"), 64);
+    expectTrue(source.isEmpty(), "source slot should be drained");
+});
+
+transferSuite.test("reports a partial push when the target is almost full", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:dirt", 64));
+    world.network.addInventory("chest_1", new FakeInventory(1).setSlot(1, "minecraft:dirt", 60));
+
+    const res = executeTransfer({
+        source: wrapInventory(world, "storage_0"),
+        targetName: "chest_1",
+        sourceSlot: 1,
+        expectedItemId: "minecraft:dirt",
+        amount: 64,
+    });
+
+    expectTrue(res.ok, "transfer should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transferred, 4);
+});
+
+transferSuite.test("detects a changed source slot", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:sand", 64));
+    world.network.addInventory("chest_1");
+
+    const res = executeTransfer({
+        source: wrapInventory(world, "storage_0"),
+        targetName: "chest_1",
+        sourceSlot: 1,
+        expectedItemId: "minecraft:dirt",
+        amount: 64,
+    });
+
+    expectTrue(!res.ok, "transfer should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_SLOT_CHANGED");
+});
+
+transferSuite.test("fails when the target is full", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory().setSlot(1, "minecraft:sand", 64));
+    world.network.addInventory("chest_1", new FakeInventory(1).setSlot(1, "minecraft:dirt", 64));
+
+    const res = executeTransfer({
+        source: wrapInventory(world, "storage_0"),
+        targetName: "chest_1",
+        sourceSlot: 1,
+        expectedItemId: "minecraft:sand",
+        amount: 64,
+    });
+
+    expectTrue(!res.ok, "transfer should fail");
+    if (res.ok) return;
+    expectEqual(res.code, "ERR_TRANSFER_FAILED");
+});
+
+transferSuite.test("assembles a transfer from several slots and skips changed ones", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:sand", 20)
+        .setSlot(2, "minecraft:dirt", 30)
+        .setSlot(3, "minecraft:sand", 14));
+    world.network.addInventory("storage_1", new FakeInventory().setSlot(1, "minecraft:sand", 30));
+    const target = world.network.addInventory("chest_1");
+    const storage0 = wrapInventory(world, "storage_0");
+
+    const res = executeMultiSlotTransfer({
+        targetName: "chest_1",
+        expectedItemId: "minecraft:sand",
+        slots: [
+            { source: storage0, slot: 1, amount: 20 },
+            { source: storage0, slot: 2, amount: 30 },
+            { source: storage0, slot: 3, amount: 14 },
+            { source: wrapInventory(world, "storage_1"), slot: 1, amount: 30 },
+        ],
+    });
+
+    expectTrue(res.ok, "transfer should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.transferred, 64);
+    expectEqual(res.value.perSlot.join(","), "20,0,14,30");
+    expectEqual(target.countOf("minecraft:sand"), 64);
+});
+
+transferSuite.test("drains an output chest until the target is full", () => {
+    const world = createWorld();
+    const output = world.network.addInventory("output_1", new FakeInventory()
+        .setSlot(1, "minecraft:gravel", 40)
+        .setSlot(2, "minecraft:flint", 5)
+        .setSlot(3, "minecraft:gravel", 40));
+    const storage = world.network.addInventory("storage_0", new FakeInventory(1));
+
+    const res = drainInventory(wrapInventory(world, "output_1"), "storage_0");
+
+    expectTrue(res.ok, "drain should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.total, 64);
+    expectEqual(res.value.moved.get("minecraft:gravel"), 64);
+    expectEqual(res.value.remaining, 21);
+    expectEqual(storage.countOf("minecraft:gravel"), 64);
+    expectEqual(output.countOf("minecraft:flint"), 5, "flint finds no free slot");
+});
+
+transferSuite.test("keeps draining other items when the target refuses one", () => {
+    const world = createWorld();
+    const output = world.network.addInventory("output_1", new FakeInventory()
+        .setSlot(1, "minecraft:flint", 5)
+        .setSlot(2, "minecraft:gravel", 20));
+    const storage = world.network.addInventory("storage_0", new FakeInventory(1).setSlot(1, "minecraft:gravel", 10));
+
+    const res = drainInventory(wrapInventory(world, "output_1"), "storage_0");
+
+    expectTrue(res.ok, "drain should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.moved.get("minecraft:flint"), undefined);
+    expectEqual(res.value.moved.get("minecraft:gravel"), 20);
+    expectEqual(res.value.remaining, 5);
+    expectEqual(storage.countOf("minecraft:gravel"), 30);
+    expectEqual(output.countOf("minecraft:flint"), 5, "refused item stays in the output");
+});
+
+transferSuite.test("drains at most the given limit", () => {
+    const world = createWorld();
+    world.network.addInventory("output_1", new FakeInventory()
+        .setSlot(1, "minecraft:gravel", 40)
+        .setSlot(2, "minecraft:gravel", 40));
+    world.network.addInventory("storage_0");
+
+    const res = drainInventory(wrapInventory(world, "output_1"), "storage_0", 50);
+
+    expectTrue(res.ok, "drain should succeed");
+    if (!res.ok) return;
+    expectEqual(res.value.total, 50);
+    expectEqual(res.value.remaining, 30);
+});
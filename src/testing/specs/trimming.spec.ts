@@ -0,0 +1,53 @@
+import { TrimmingTask } from "@apps/trimming/task";
+import { TrimmingConfig } from "@apps/trimming/types";
+import { InventoryLedger } from "@lib/inventory/ledger";
+import { FakeInventory } from "../fakes/inventory";
+import { TestSuite, createTaskContext, createWorld, expectEqual, expectTrue, wrapMaterialSource } from "../harness";
+
+export const trimmingSuite = new TestSuite("trimming/task");
+
+trimmingSuite.test("trims stock above the cap in batches and skips protected items", () => {
+    const world = createWorld();
+    world.network.addInventory("storage_0", new FakeInventory()
+        .setSlot(1, "minecraft:cobblestone", 64)
+        .setSlot(2, "minecraft:cobblestone", 64)
+        .setSlot(3, "minecraft:cobblestone", 64)
+        .setSlot(4, "ftbstuff:dust", 64)
+        .setSlot(5, "minecraft:gravel", 20));
+    const trash = world.network.addInventory("trash");
+
+    const config: TrimmingConfig = {
+        enabled: true,
+        caps: { "minecraft:cobblestone": 64 },
+        defaultCap: 16,
+        protectedItems: ["ftbstuff:dust"],
+        destination: "trash",
+        batchSize: 100,
+    };
+    const task = new TrimmingTask();
+    const initRes = task.init(createTaskContext(world, ["storage_0"], ["trash"]), config);
+    expectTrue(initRes.ok, "init should succeed");
+    if (!initRes.ok) return;
+
+    const scan = wrapMaterialSource(world, ["storage_0"]).scan();
+    if (!scan.ok) return;
+    const ledger = new InventoryLedger(scan.value);
+
+    const res = task.execute(initRes.value, ledger);
+    expectTrue(res.ok, "execute should succeed");
+    if (!res.ok) return;
+
+    expectEqual(trash.countOf("minecraft:cobblestone"), 100, "one batch per cycle");
+    expectEqual(trash.countOf("minecraft:gravel"), 4, "default cap");
+    expectEqual(trash.countOf("ftbstuff:dust"), 0, "protected");
+    expectEqual(ledger.getTotal("minecraft:cobblestone"), 92, "ledger is debited for later tasks");
+    expectEqual(res.value.state.lastTrimmed["minecraft:cobblestone"], 100);
+
+    // Next cycle trims the rest down to the cap
+    const next = wrapMaterialSource(world, ["storage_0"]).scan();
+    if (!next.ok) return;
+    const res2 = task.execute(res.value.state, new InventoryLedger(next.value));
+    if (!res2.ok) return;
+    expectEqual(trash.countOf("minecraft:cobblestone"), 128);
+    expectEqual(res2.value.state.totalTrimmed["minecraft:cobblestone"], 128);
+});
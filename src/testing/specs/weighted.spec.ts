@@ -0,0 +1,138 @@
+import { SeededRandom } from "@lib/scheduler/rng";
+import { computeEffectiveWeight } from "@lib/scheduler/dynamic-weights";
+import { WeightedScheduler, WeightedSchedulerConfig } from "@lib/scheduler/weighted";
+import { InventoryItemInfo } from "@lib/inventory/types";
+import { MachineState } from "@lib/orchestrator/types";
+import { TestSuite, createWorld, expectEqual, expectTrue } from "../harness";
+
+export const weightedSuite = new TestSuite("scheduler/weighted");
+
+function config(overrides: Partial<WeightedSchedulerConfig>): WeightedSchedulerConfig {
+    return {
+        materials: {
+            gravel: { id: "gravel", itemId: "minecraft:gravel", minStock: 0, weight: 2 },
+            sand: { id: "sand", itemId: "minecraft:sand", minStock: 0, weight: 1 },
+            dirt: { id: "dirt", itemId: "minecraft:dirt", minStock: 0, weight: 0 },
+        },
+        machineTypes: {
+            geologist: { id: "geologist", supportedMaterials: ["gravel", "sand", "dirt"] },
+        },
+        transferAmount: 1,
+        ...overrides,
+    };
+}
+
+function inventory(gravel = 1000, sand = 1000): Map<string, InventoryItemInfo> {
+    return new Map([
+        ["minecraft:gravel", { totalCount: gravel, slots: [{ slot: 1, count: gravel }] }],
+        ["minecraft:sand", { totalCount: sand, slots: [{ slot: 2, count: sand }] }],
+        ["minecraft:dirt", { totalCount: 1000, slots: [{ slot: 3, count: 1000 }] }],
+    ]);
+}
+
+const GEOLOGIST: MachineState[] = [
+    { id: "geologist_1", type: "geologist", inputChest: "chest_1", isEmpty: true, needsRefill: true },
+];
+
+/** Items selected for one machine over `cycles` cycles */
+function run(scheduler: WeightedScheduler, cycles: number): string[] {
+    const picks: string[] = [];
+    for (let i = 0; i < cycles; i++) {
+        const assignment = scheduler.schedule(GEOLOGIST, inventory())[0];
+        picks.push(assignment?.itemId ?? "-");
+    }
+    return picks;
+}
+
+weightedSuite.test("seeded random gives the same sequence for the same seed", () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    for (let i = 0; i < 5; i++) {
+        const value = a.next();
+        expectEqual(b.next(), value);
+        expectTrue(value >= 0 && value < 1, "value in [0, 1)");
+    }
+
+    const world = createWorld();
+    const first = run(new WeightedScheduler(config({ seed: 7 }), world.log), 20).join(",");
+    const second = run(new WeightedScheduler(config({ seed: 7 }), world.log), 20).join(",");
+    expectEqual(second, first, "same seed, same decisions");
+});
+
+weightedSuite.test("round-robin serves every material its weight share in every window", () => {
+    const world = createWorld();
+    const scheduler = new WeightedScheduler(config({ selection: "round-robin" }), world.log);
+
+    const picks = run(scheduler, 30);
+    for (let i = 0; i < 30; i += 3) {
+        const window = picks.slice(i, i + 3);
+        expectEqual(window.filter((p) => p === "minecraft:gravel").length, 2, `window ${i}`);
+        expectEqual(window.filter((p) => p === "minecraft:sand").length, 1, `window ${i}`);
+    }
+
+    const counters = scheduler.getCounters();
+    expectEqual(counters.get("gravel")?.selected, 20);
+    expectEqual(counters.get("sand")?.selected, 10);
+    expectEqual(counters.get("dirt")?.selected, undefined, "weight 0 is only a fallback");
+    expectEqual(counters.get("gravel")?.credit, 0, "credit evens out after a full round");
+});
+
+weightedSuite.test("effective weight follows the stock ratio through the curve", () => {
+    const gravel = { id: "gravel", itemId: "minecraft:gravel", minStock: 100, weight: 2, softMax: 800 };
+
+    expectEqual(computeEffectiveWeight(gravel, 400, { curve: "linear" }), 8);
+    expectEqual(computeEffectiveWeight(gravel, 400, { curve: "sqrt" }), 4);
+    expectEqual(computeEffectiveWeight(gravel, 300, { curve: "log" }), 4);
+    expectEqual(computeEffectiveWeight(gravel, 5000, { curve: "linear" }), 16, "capped at softMax");
+    expectEqual(computeEffectiveWeight(gravel, 400, { curve: "linear", maxFactor: 3 }), 6, "capped at maxFactor");
+    expectEqual(computeEffectiveWeight({ ...gravel, weight: 0 }, 400, { curve: "linear" }), 0, "fallback stays 0");
+});
+
+weightedSuite.test("dynamic weights feed plentiful materials more", () => {
+    const world = createWorld();
+    const base = config({ selection: "round-robin", dynamicWeights: { curve: "linear" } });
+    base.materials.gravel.minStock = 100;
+    base.materials.sand.minStock = 100;
+    const scheduler = new WeightedScheduler(base, world.log);
+
+    // gravel: 2 * 200/100 = 4, sand: 1 * 400/100 = 4
+    const picks: string[] = [];
+    for (let i = 0; i < 8; i++) {
+        picks.push(scheduler.schedule(GEOLOGIST, inventory(200, 400))[0]?.itemId ?? "-");
+    }
+    expectEqual(picks.filter((p) => p === "minecraft:sand").length, 4);
+    expectEqual(scheduler.getEffectiveWeights().get("gravel"), 4);
+    expectEqual(scheduler.getEffectiveWeights().get("sand"), 4);
+});
+
+weightedSuite.test("machine overrides set amount, allowed materials and weights", () => {
+    const world = createWorld();
+    const scheduler = new WeightedScheduler(
+        config({
+            selection: "round-robin",
+            machineTypes: {
+                geologist: {
+                    id: "geologist",
+                    supportedMaterials: ["gravel", "sand", "dirt"],
+                    transferAmount: 16,
+                    forbiddenItems: ["minecraft:dirt"],
+                },
+            },
+        }),
+        world.log,
+    );
+    const machines: MachineState[] = [
+        { ...GEOLOGIST[0], overrides: { transferAmount: 256, weightMultipliers: { "minecraft:sand": 4 } } },
+        { ...GEOLOGIST[0], id: "geologist_2", overrides: { allowedItems: ["minecraft:gravel", "minecraft:dirt"] } },
+    ];
+
+    const result = scheduler.scheduleWithDecisions(machines, inventory());
+    const [first, second] = result.assignments;
+    expectEqual(first.itemId, "minecraft:sand", "sand x4 outweighs gravel");
+    expectEqual(first.amount, 256, "machine amount beats type amount");
+    expectEqual(second.itemId, "minecraft:gravel", "dirt forbidden by the type");
+    expectEqual(second.amount, 16);
+
+    const rejected = result.decisions[1].candidates.filter((c) => c.rejected === "not_allowed").map((c) => c.label);
+    expectEqual(rejected.join(","), "sand,dirt");
+});
@@ -0,0 +1,202 @@
+import { DashboardRenderer } from "@lib/dashboard/renderer";
+import { HeaderWidget } from "@lib/dashboard/widgets/header";
+import { MachineStatusWidget } from "@lib/dashboard/widgets/machine-status";
+import { StockTableWidget } from "@lib/dashboard/widgets/stock-table";
+import { MaterialWeightsWidget } from "@lib/dashboard/widgets/material-weights";
+import { IdleMachinesWidget } from "@lib/dashboard/widgets/idle-machines";
+import { PeripheralHealthWidget } from "@lib/dashboard/widgets/peripheral-health";
+import { collectPeripheralHealth } from "@lib/peripheral/health";
+import { wrapPeripheral } from "@core/safe-peripheral";
+import { FakeMonitor } from "../fakes/monitor";
+import { TestSuite, createTaskContext, createWorld, expectEqual, expectTrue } from "../harness";
+
+// Type MonitorPeripheral from @jackmacwindows/craftos-types is globally declared
+
+export const widgetsSuite = new TestSuite("dashboard/widgets");
+
+widgetsSuite.test("renders header, stock table and machine status in order", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0");
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+
+    const dashboard = new DashboardRenderer(monitor);
+    const header = new HeaderWidget("Test System");
+    const stock = new StockTableWidget();
+    const machines = new MachineStatusWidget("machines", "Machines", 20);
+    dashboard.addWidget(machines);
+    dashboard.addWidget(stock);
+    dashboard.addWidget(header);
+
+    header.update(7, world.computer.now);
+    stock.setEntries([{ name: "sand", itemId: "minecraft:sand", minStock: 64 }]);
+    stock.updateInventory(new Map([["minecraft:sand", { totalCount: 128, slots: [] }]]));
+    machines.update([
+        { id: "hammer_1", isEmpty: true },
+        { id: "hammer_2", isEmpty: false, currentItem: "minecraft:gravel", currentCount: 32 },
+        { id: "hammer_3", isEmpty: false, isOffline: true },
+        { id: "hammer_4", isEmpty: false, isStalled: true, currentItem: "minecraft:dirt", currentCount: 20 },
+    ]);
+    dashboard.render();
+
+    expectEqual(fakeMonitor.textScale, 0.5);
+    expectEqual(fakeMonitor.getLine(1), "=== Test System ===");
+    expectEqual(fakeMonitor.getLine(2), "Cycle: 7 | Up: 0m");
+
+    const stockLine = fakeMonitor.findLine("sand");
+    const machinesLine = fakeMonitor.findLine("--- Machines ---");
+    expectTrue(stockLine !== undefined && machinesLine !== undefined, "stock and machines should render");
+    expectTrue(stockLine < machinesLine, "stock table should render before machines");
+    expectEqual(fakeMonitor.getColorAt(1, stockLine), colors.white);
+
+    const emptyLine = fakeMonitor.findLine("hammer_1");
+    expectTrue(string.find(fakeMonitor.getLine(emptyLine), "EMPTY", 1, true)[0] !== undefined, "hammer_1 should be EMPTY");
+    expectTrue(fakeMonitor.findLine("32x gravel") !== undefined, "hammer_2 should show its contents");
+    const offlineLine = fakeMonitor.findLine("OFFLINE");
+    expectEqual(fakeMonitor.getColorAt(1, offlineLine), colors.red);
+    const stalledLine = fakeMonitor.findLine("STALLED dirt");
+    expectEqual(fakeMonitor.getColorAt(1, stalledLine), colors.orange);
+});
+
+widgetsSuite.test("header shows last and next run per task", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0", new FakeMonitor(60));
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+
+    const dashboard = new DashboardRenderer(monitor);
+    const header = new HeaderWidget("Test System");
+    dashboard.addWidget(header);
+
+    const now = world.computer.now;
+    header.update(3, now);
+    header.updateTasks([
+        { id: "production", lastRun: now - 2000, nextRun: now + 3000 },
+        { id: "sorting", lastRun: now - 65000, nextRun: now + 95000 },
+        { id: "trimming", nextRun: 0 },
+    ]);
+    dashboard.render();
+
+    expectEqual(fakeMonitor.getLine(2), "Cycle: 3 | Up: 0m");
+    expectEqual(fakeMonitor.getLine(3), "production  last 2s ago, next in 3s");
+    expectEqual(fakeMonitor.getLine(4), "sorting     last 1m5s ago, next in 1m35s");
+    expectEqual(fakeMonitor.getLine(5), "trimming    last -, next now");
+});
+
+widgetsSuite.test("shows the dry run banner and planned assignments", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0", new FakeMonitor(60));
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+
+    const dashboard = new DashboardRenderer(monitor);
+    const machines = new MachineStatusWidget("machines", "Machines", 20);
+    dashboard.addWidget(new HeaderWidget("Test System", true));
+    dashboard.addWidget(machines);
+    machines.update([{ id: "hammer_1", isEmpty: true, plannedItem: "minecraft:gravel", plannedAmount: 64 }]);
+    dashboard.render();
+
+    expectEqual(fakeMonitor.getLine(2), "*** DRY RUN - no items are moved ***");
+    expectEqual(fakeMonitor.getColorAt(1, 2), colors.red);
+    const machineLine = fakeMonitor.findLine("hammer_1");
+    expectTrue(string.find(fakeMonitor.getLine(machineLine), "EMPTY -> 64x gravel", 1, true)[0] !== undefined, "planned assignment should be shown");
+});
+
+widgetsSuite.test("stock table shows hysteresis bands", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0", new FakeMonitor(60));
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+
+    const dashboard = new DashboardRenderer(monitor);
+    const stock = new StockTableWidget();
+    dashboard.addWidget(stock);
+
+    stock.setEntries([
+        { name: "gravel", itemId: "minecraft:gravel", minStock: 1000, isProductionOutput: true, lowWater: 900 },
+        { name: "dirt", itemId: "minecraft:dirt", minStock: 1000, isProductionOutput: true, lowWater: 900 },
+    ]);
+    stock.updateInventory(new Map([
+        ["minecraft:gravel", { totalCount: 950, slots: [] }],
+        ["minecraft:dirt", { totalCount: 950, slots: [] }],
+    ]));
+    stock.updateBands(new Map([["minecraft:gravel", "satisfied"], ["minecraft:dirt", "producing"]]));
+    dashboard.render();
+
+    const gravelLine = fakeMonitor.findLine("gravel");
+    const dirtLine = fakeMonitor.findLine("dirt");
+    expectTrue(fakeMonitor.findLine("(   900-  1000) MID satisfied") !== undefined, "band, position and state");
+    expectTrue(fakeMonitor.findLine("(   900-  1000) MID producing") !== undefined, "state inside the band");
+    expectEqual(fakeMonitor.getColorAt(1, gravelLine), colors.green, "satisfied inside the band");
+    expectEqual(fakeMonitor.getColorAt(1, dirtLine), colors.white, "producing inside the band");
+});
+
+widgetsSuite.test("material weights show configured and effective weight", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0", new FakeMonitor(60));
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+
+    const dashboard = new DashboardRenderer(monitor);
+    const weights = new MaterialWeightsWidget(35);
+    dashboard.addWidget(weights);
+    weights.update([
+        { id: "gravel", weight: 2, effectiveWeight: 5.5 },
+        { id: "sand", weight: 1, effectiveWeight: 0.25 },
+    ]);
+    dashboard.render();
+
+    const gravelLine = fakeMonitor.findLine("gravel");
+    expectTrue(fakeMonitor.findLine("2 -> 5.50") !== undefined, "configured -> effective");
+    expectEqual(fakeMonitor.getColorAt(1, gravelLine), colors.green);
+    expectEqual(fakeMonitor.getColorAt(1, fakeMonitor.findLine("sand")), colors.orange);
+});
+
+widgetsSuite.test("idle machines list the scheduler's reason", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0", new FakeMonitor(60));
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+
+    const dashboard = new DashboardRenderer(monitor);
+    const idle = new IdleMachinesWidget(38);
+    dashboard.addWidget(idle);
+    idle.update([
+        { machineId: "hammer_1", assignedItem: "minecraft:gravel", assignedAmount: 64, candidates: [] },
+        { machineId: "hammer_2", reason: "no_refill_needed", candidates: [] },
+        { machineId: "hammer_3", reason: "offline", candidates: [] },
+        {
+            machineId: "hammer_4",
+            reason: "no_viable_candidate",
+            candidates: [{ label: "gravel", itemId: "minecraft:gravel", score: 3, rejected: "out_of_stock" }],
+        },
+    ]);
+    dashboard.render();
+
+    expectEqual(fakeMonitor.findLine("hammer_1"), undefined, "busy machines are not listed");
+    expectEqual(fakeMonitor.findLine("hammer_2"), undefined, "full machines are not listed");
+    expectEqual(fakeMonitor.getColorAt(1, fakeMonitor.findLine("hammer_3")), colors.red);
+    expectTrue(fakeMonitor.findLine("gravel: not in stock") !== undefined, "reason of hammer_4");
+});
+
+widgetsSuite.test("peripheral health lists degraded and open peripherals", () => {
+    const world = createWorld();
+    const fakeMonitor = world.network.addMonitor("monitor_0", new FakeMonitor(60));
+    const monitor = wrapPeripheral(world.modem, "monitor_0", peripheral.wrap("monitor_0") as MonitorPeripheral, world.log);
+    world.network.addInventory("storage_0");
+    world.network.addInventory("chest_1").failing = true;
+    world.network.addInventory("chest_2").failing = true;
+
+    const { peripherals } = createTaskContext(world, ["storage_0"], ["chest_1", "chest_2"]);
+    const chest1 = peripherals.machineChests.get("chest_1")!;
+    const chest2 = peripherals.machineChests.get("chest_2")!;
+    chest1.tryCall((p) => p.list());
+    for (let i = 0; i < 3; i++) chest2.tryCall((p) => p.list());
+
+    const dashboard = new DashboardRenderer(monitor);
+    const widget = new PeripheralHealthWidget(45);
+    dashboard.addWidget(widget);
+    widget.update(collectPeripheralHealth(peripherals));
+    dashboard.render();
+
+    const degradedLine = fakeMonitor.findLine("chest_1");
+    const openLine = fakeMonitor.findLine("chest_2");
+    expectEqual(fakeMonitor.getLine(degradedLine), "chest_1              degraded (1 failures)");
+    expectEqual(fakeMonitor.getLine(openLine), "chest_2              open, probe in 5s");
+    expectEqual(fakeMonitor.getColorAt(1, openLine), colors.red);
+    expectEqual(fakeMonitor.findLine("storage_0"), undefined, "healthy peripherals are not listed");
+});